@@ -9,9 +9,12 @@ import { AiExplanationModule } from './modules/ai-explanation/ai-explanation.mod
 import { AiRephrasingModule } from './modules/ai-rephrasing/ai-rephrasing.module';
 import { CategoriesModule } from './modules/categories/categories.module';
 import { ExtractionModule } from './modules/extraction/extraction.module';
+import { HealthModule } from './modules/health/health.module';
 import { IntakesModule } from './modules/intakes/intakes.module';
+import { PromptTemplatesModule } from './modules/prompt-templates/prompt-templates.module';
 import { QuestionsModule } from './modules/questions/questions.module';
 import { SettingsModule } from './modules/settings/settings.module';
+import { SourceProfilesModule } from './modules/source-profiles/source-profiles.module';
 
 @Module({
   imports: [
@@ -38,8 +41,11 @@ import { SettingsModule } from './modules/settings/settings.module';
     CategoriesModule,
     IntakesModule,
     QuestionsModule,
+    PromptTemplatesModule,
+    SourceProfilesModule,
     ExtractionModule,
     SettingsModule,
+    HealthModule,
   ],
   controllers: [AppController],
   providers: [AppService, PrismaService],
@@ -122,3 +122,176 @@ export const DEFAULT_CATEGORIES = [
 ] as const;
 
 export type CategoryName = (typeof DEFAULT_CATEGORIES)[number]['name'];
+
+// Stem keywords for categorising a question without the model; a keyword matches
+// at the start of a word, so "fractur" also matches "fractured"
+export const CATEGORY_KEYWORDS: Partial<Record<CategoryName, string[]>> = {
+  'anatomy-thorax': [
+    'thorax',
+    'thoracic',
+    'mediastin',
+    'intercostal',
+    'diaphragm',
+    'pleura',
+  ],
+  'anatomy-abdomen': [
+    'inguinal canal',
+    'peritone',
+    'mesenter',
+    'retroperitone',
+  ],
+  'anatomy-superior-extremity': [
+    'brachial plexus',
+    'axilla',
+    'humer',
+    'radial nerve',
+    'ulnar nerve',
+    'median nerve',
+  ],
+  'anatomy-inferior-extremity': [
+    'femoral triangle',
+    'popliteal fossa',
+    'sciatic nerve',
+    'tibial nerve',
+    'peroneal nerve',
+  ],
+  'anatomy-head-neck-brain': [
+    'cranial nerve',
+    'skull',
+    'parotid',
+    'circle of willis',
+  ],
+  physiology: [
+    'physiolog',
+    'cardiac output',
+    'glomerular filtration',
+    'action potential',
+  ],
+  pathology: [
+    'histolog',
+    'biopsy',
+    'neoplas',
+    'metaplas',
+    'dysplas',
+    'necrosis',
+  ],
+  microbiology: [
+    'bacteri',
+    'virus',
+    'viral',
+    'fungal',
+    'gram-positive',
+    'gram-negative',
+    'organism',
+  ],
+  biostatistics: [
+    'sensitivity',
+    'specificity',
+    'predictive value',
+    'p-value',
+    'confidence interval',
+    'odds ratio',
+    'randomi',
+  ],
+  'clinical-git-colorectal-abdomen': [
+    'colon',
+    'colorectal',
+    'rectal',
+    'appendic',
+    'bowel',
+    'oesophag',
+    'gastric',
+    'hernia',
+  ],
+  'clinical-hepatobiliary-pancreas': [
+    'liver',
+    'hepat',
+    'gallbladder',
+    'gallstone',
+    'cholecyst',
+    'biliary',
+    'pancrea',
+  ],
+  'clinical-urology': [
+    'kidney',
+    'renal',
+    'ureter',
+    'bladder',
+    'prostat',
+    'testis',
+    'testicul',
+    'scrot',
+  ],
+  'clinical-orthopedics': [
+    'fractur',
+    'dislocat',
+    'osteo',
+    'tendon',
+    'ligament',
+  ],
+  'clinical-breast-endocrine': [
+    'breast',
+    'thyroid',
+    'parathyroid',
+    'adrenal',
+    'pituitar',
+  ],
+  'clinical-ent': [
+    'otitis',
+    'hearing',
+    'nasal',
+    'tonsil',
+    'laryn',
+    'pharyn',
+    'epistaxis',
+  ],
+  'clinical-skin': ['skin', 'melanoma', 'basal cell carcinoma', 'burns'],
+  'clinical-vascular-surgery': [
+    'aneurysm',
+    'arterial',
+    'claudication',
+    'varicose',
+    'carotid',
+    'ischaemi',
+  ],
+  'clinical-neurosurgery': [
+    'subdural',
+    'extradural',
+    'intracranial',
+    'glasgow coma',
+    'hydroceph',
+  ],
+  'clinical-organ-transplantation': [
+    'transplant',
+    'graft rejection',
+    'immunosuppress',
+  ],
+  'clinical-pediatric-surgery': [
+    'neonat',
+    'infant',
+    'pyloric stenosis',
+    'intussuscept',
+    'child',
+  ],
+  'clinical-perioperative-care': [
+    'preoperative',
+    'pre-operative',
+    'anaesthe',
+    'consent',
+    'asa grade',
+  ],
+  'clinical-post-operative-care': [
+    'postoperative',
+    'post-operative',
+    'after surgery',
+    'after an operation',
+  ],
+  'clinical-surgical-emergency-trauma': [
+    'trauma',
+    'atls',
+    'road traffic',
+    'haemorrhag',
+    'shock',
+    'stab wound',
+  ],
+};
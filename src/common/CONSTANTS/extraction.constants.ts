@@ -0,0 +1,80 @@
+export enum TextLayoutMode {
+  // Join every text item with a single space
+  FLAT = 'flat',
+  // Rebuild lines and columns from item positions
+  LAYOUT = 'layout',
+}
+
+export enum ExtractionParser {
+  // Send each page to the LLM
+  LLM = 'llm',
+  // Parse "1. stem / A. ... E. / Answer: C" layouts with rules, LLM for the rest
+  RULES = 'rules',
+}
+
+export enum ExtractionRunStatus {
+  QUEUED = 'QUEUED',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  STOPPED = 'STOPPED',
+  PAUSED = 'PAUSED',
+  INTERRUPTED = 'INTERRUPTED',
+}
+
+export enum ExtractionLogLevel {
+  DEBUG = 'DEBUG',
+  INFO = 'INFO',
+  WARN = 'WARN',
+  ERROR = 'ERROR',
+}
+
+// What an extraction log entry is about, so a run's log can be filtered by it
+export enum ExtractionLogEvent {
+  MESSAGE = 'message',
+  RUN_QUEUED = 'run.queued',
+  RUN_STARTED = 'run.started',
+  RUN_PAUSED = 'run.paused',
+  RUN_STOPPED = 'run.stopped',
+  RUN_COMPLETED = 'run.completed',
+  RUN_FAILED = 'run.failed',
+  RUN_INTERRUPTED = 'run.interrupted',
+  PAGES_QUEUED = 'pages.queued',
+  PAGE_STARTED = 'page.started',
+  PAGE_TEXT = 'page.text',
+  PAGE_PARSED = 'page.parsed',
+  PAGE_VERIFIED = 'page.verified',
+  PAGE_COMPLETED = 'page.completed',
+  PAGE_RETRIED = 'page.retried',
+  PAGE_FAILED = 'page.failed',
+  PAGE_CANCELLED = 'page.cancelled',
+  QUESTION_STAGED = 'question.staged',
+  QUESTION_SKIPPED = 'question.skipped',
+}
+
+export enum ExtractionCandidateStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  MERGED = 'MERGED',
+  DISCARDED = 'DISCARDED',
+}
+
+// Question fields a reviewer can copy from a candidate onto an existing question
+export enum CandidateMergeField {
+  QUESTION = 'question',
+  OPTIONS = 'options',
+  CORRECT_ANSWER = 'correctAnswer',
+  EXPLANATION = 'explanation',
+  YEAR = 'year',
+  INTAKE = 'intake',
+  CATEGORIES = 'categories',
+}
+
+// What to do when a visually emphasised option disagrees with the model's answer
+export enum AnswerDetectionMode {
+  // Use the emphasised option as the correct answer
+  OVERRIDE = 'override',
+  // Keep the model's answer but lower its confidence so it gets reviewed
+  CROSS_CHECK = 'cross-check',
+  OFF = 'off',
+}
@@ -0,0 +1,14 @@
+export enum DependencyStatus {
+  UP = 'up',
+  DOWN = 'down',
+  // Not used with the current configuration, e.g. Ollama when no task runs on it
+  SKIPPED = 'skipped',
+}
+
+export enum HealthStatus {
+  OK = 'ok',
+  // A dependency that only some features need is down
+  DEGRADED = 'degraded',
+  // A dependency every request needs is down
+  DOWN = 'down',
+}
@@ -1,3 +1,8 @@
 export * from './categories.constants';
+export * from './extraction.constants';
+export * from './health.constants';
 export * from './intakes.constants';
+export * from './llm.constants';
+export * from './prompt-templates.constants';
 export * from './questions.constants';
+export * from './source-profiles.constants';
@@ -0,0 +1,18 @@
+// Work the application asks a language model to do; each can use its own provider and model
+export enum LlmTask {
+  EXTRACTION = 'extraction',
+  CATEGORIZATION = 'categorization',
+  EXPLANATION = 'explanation',
+  REPHRASING = 'rephrasing',
+  VERIFICATION = 'verification',
+}
+
+export enum LlmProviderName {
+  OLLAMA = 'ollama',
+  // Any server with a /chat/completions endpoint: llama.cpp server, vLLM, LM Studio
+  OPENAI_COMPATIBLE = 'openai-compatible',
+  // Deterministic canned responses, for tests
+  FAKE = 'fake',
+  // Exchanges recorded from Ollama with LLM_RECORD=true, for end-to-end tests
+  REPLAY = 'replay',
+}
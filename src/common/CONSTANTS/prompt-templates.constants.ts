@@ -0,0 +1,349 @@
+// Prompts sent to the language model; each is stored as a versioned template
+export enum PromptTemplateName {
+  EXTRACTION = 'extraction',
+  CATEGORIZATION = 'categorization',
+  MISSING_OPTIONS = 'missing-options',
+  // Answer an extracted question without seeing the extracted answer
+  ANSWER_VERIFICATION = 'answer-verification',
+  EXPLANATION = 'explanation',
+  // Retried when the model echoes the full explanation prompt back
+  EXPLANATION_SIMPLE = 'explanation-simple',
+  REPHRASING = 'rephrasing',
+}
+
+// Version 1 of each prompt, seeded when a name has no versions yet.
+// {{name}} placeholders are filled in by the service that sends the prompt.
+export const DEFAULT_PROMPT_TEMPLATES = [
+  {
+    name: PromptTemplateName.EXTRACTION,
+    description: 'Extract the multiple-choice questions on one PDF page',
+    template: `You are an AI assistant specialized in extracting medical exam questions from PDF text.
+
+TASK: Extract all multiple-choice questions from the following text from page {{pageNumber}} of an MRCS exam document.
+
+CRITICAL REQUIREMENTS:
+1. EVERY question MUST have exactly 5 options (A, B, C, D, E)
+2. If a question has fewer than 5 options, add appropriate WRONG answer options based on the topic/subject
+3. DO NOT add random options - make them plausible but incorrect
+4. Ensure all options are relevant to the question topic
+5. DO NOT extract incomplete or meaningless questions
+6. Questions must be complete and well-formed
+7. Options must be meaningful and relevant to the question
+
+CORRECT ANSWER DETECTION:
+- Look for correct answers marked with: ✓, ✅, (correct), (CORRECT), green color, yellow highlight, bold text, or any other indication
+- The correct answer can be indicated by:
+  * A checkmark (✓ or ✅) next to an option
+  * Text like "(correct)" or "(CORRECT)" after an option
+  * Green or yellow highlighting/marking
+  * Bold text or special formatting
+  * Any other clear indication of the correct answer
+- If no clear indication is found, use your medical knowledge to determine the most likely correct answer
+- Always return a single letter (A, B, C, D, or E) as the correctAnswer
+
+QUALITY REQUIREMENTS:
+- Questions must be complete sentences (not fragments)
+- Questions must be medically relevant and meaningful
+- Options must be distinct and plausible
+- Avoid questions with unclear or ambiguous wording
+- Skip incomplete or poorly formatted questions
+- Ensure all text is properly extracted (no "..." or "???")
+
+CATEGORIES (use only these preseeded categories - you can assign multiple categories if the question covers multiple topics):
+{{categories}}
+
+CATEGORY GUIDELINES:
+- Anatomy questions: Use specific anatomy categories (thorax, abdomen, superior extremity, inferior extremity, head-neck-brain)
+- Physiology questions: Use "physiology"
+- Pathology questions: Use "pathology"
+- Microbiology questions: Use "microbiology"
+- Biostatistics questions: Use "biostatistics"
+- Clinical questions: Use appropriate clinical categories based on the medical specialty
+- If a question covers multiple topics, assign multiple categories
+- Be specific and accurate in categorization
+
+INTAKES (use only these preseeded intakes):
+{{intakes}}
+
+{{yearInstructions}}
+
+{{intakeInstructions}}
+{{sourceInstructions}}
+OUTPUT FORMAT: Return a JSON object with this exact structure:
+{
+  "questions": [
+    {
+      "question": "The complete question text here",
+      "options": {
+        "A": "Complete option A text",
+        "B": "Complete option B text",
+        "C": "Complete option C text",
+        "D": "Complete option D text",
+        "E": "Complete option E text"
+      },
+      "correctAnswer": "A",
+      "categories": ["anatomy-thorax", "physiology"],
+      "examYear": 2023,
+      "intake": "january",
+      "explanation": "Explanation if available",
+      "confidence": 0.85
+    }
+  ]
+}
+
+CONFIDENCE SCORING GUIDELINES:
+- 0.9-0.95: Excellent quality, complete question with clear correct answer
+- 0.8-0.89: Very good quality, well-formed question with good options
+- 0.7-0.79: Good quality, complete question with minor issues
+- 0.6-0.69: Acceptable quality, some uncertainty in extraction
+- 0.5-0.59: Lower quality, incomplete or unclear elements
+- Below 0.5: Poor quality, should be rejected
+
+Always provide a confidence score between 0.5 and 0.95 based on question quality.
+
+TEXT TO ANALYZE:
+{{text}}
+
+Return only the JSON object, no additional text.`,
+  },
+  {
+    name: PromptTemplateName.CATEGORIZATION,
+    description: 'Assign categories to a question parsed by the layout rules',
+    template: `Categorize this medical question into one or more of these preseeded categories:
+
+CATEGORIES:
+{{categories}}
+
+CATEGORY GUIDELINES:
+- Anatomy questions: Use specific anatomy categories (thorax, abdomen, superior extremity, inferior extremity, head-neck-brain)
+- Physiology questions: Use "physiology"
+- Pathology questions: Use "pathology"
+- Microbiology questions: Use "microbiology"
+- Biostatistics questions: Use "biostatistics"
+- Clinical questions: Use appropriate clinical categories based on the medical specialty
+- If a question covers multiple topics, assign multiple categories
+- Be specific and accurate in categorization
+
+QUESTION:
+{{question}}
+
+Return JSON format:
+{
+  "categories": ["category1", "category2"],
+  "confidence": 0.85
+}
+
+Provide only the JSON response.`,
+  },
+  {
+    name: PromptTemplateName.MISSING_OPTIONS,
+    description: 'Write wrong options for a question with fewer than five',
+    template: `You are a medical AI assistant. Generate appropriate WRONG answer options for this MRCS exam question.
+
+QUESTION: {{question}}
+
+EXISTING OPTIONS:
+{{existingOptions}}
+
+CORRECT ANSWER: {{correctAnswer}}
+
+TASK: Generate {{count}} plausible but INCORRECT medical options for: {{missingOptions}}
+
+REQUIREMENTS:
+1. All generated options must be WRONG answers
+2. Options should be medically plausible but incorrect for this specific question
+3. Match the style and complexity of existing options
+4. Be specific to the medical topic (anatomy, physiology, pathology, etc.)
+5. Each option should be 2-15 words long
+6. Avoid obviously wrong or nonsensical options
+
+Return ONLY a JSON object with the missing options:
+{
+{{optionsFormat}}
+}
+
+Generate options that a medical student might consider but are definitively incorrect for this question.`,
+  },
+  {
+    name: PromptTemplateName.ANSWER_VERIFICATION,
+    description:
+      'Answer an extracted question blind, to check the extracted answer',
+    template: `You are a senior surgeon and MRCS examiner. Answer this MRCS exam question.
+
+QUESTION: {{question}}
+
+OPTIONS:
+{{options}}
+
+TASK:
+- Choose the single best answer using your medical knowledge
+- Judge every option on its own merits; the order of the options means nothing
+- Give your confidence that the chosen option is correct, from 0 to 1
+
+Return JSON format:
+{
+  "correctAnswer": "A",
+  "confidence": 0.85
+}
+
+Provide only the JSON response.`,
+  },
+  {
+    name: PromptTemplateName.EXPLANATION,
+    description: 'Explain the correct answer of a question in Markdown',
+    template: `You are a senior medical consultant and MRCS examiner with extensive experience in medical education. You are helping a doctor prepare for the MRCS exam by providing detailed, well-formatted explanations.
+
+TASK: Provide a comprehensive medical explanation using proper Markdown formatting for the following MRCS exam question.
+
+QUESTION: {{question}}{{topicAreas}}
+
+OPTIONS:
+{{options}}
+
+CORRECT ANSWER: {{correctAnswer}}
+
+REQUIRED MARKDOWN STRUCTURE:
+
+## **TOPIC OVERVIEW**
+- Briefly introduce the medical topic/concept being tested
+- Identify the relevant medical specialty or anatomical system
+
+## **CORRECT ANSWER EXPLANATION**
+**Option {{correctAnswer}} is correct because:**
+- Provide the primary medical reasoning
+- Include relevant **anatomical**, **physiological**, or **pathological** principles
+- Reference key **medical concepts** and terminology
+- Explain the **scientific basis** with supporting evidence
+
+## **KEY MEDICAL CONCEPTS**
+- **Primary concept:** Main medical principle being tested
+- **Anatomical considerations:** Relevant structures and their relationships
+- **Physiological mechanisms:** How normal/abnormal processes relate to the question
+- **Pathological correlations:** Disease processes or conditions involved
+- **Clinical significance:** Why this knowledge matters in practice
+
+## **CLINICAL RELEVANCE**
+- **Surgical implications:** How this applies to surgical practice
+- **Diagnostic considerations:** Relevance to patient assessment
+- **Treatment applications:** Impact on clinical decision-making
+- **Real-world scenarios:** Examples from clinical practice
+
+FORMAT REQUIREMENTS:
+- Use proper Markdown syntax with ## for headings, **bold** for emphasis, *italic* for emphasis, and - for bullet points
+- Include medical terminology with brief explanations in parentheses when needed
+- Structure content logically with clear hierarchy and proper spacing
+- Make explanations detailed but concise with good paragraph breaks
+- Focus on exam-relevant information that helps with understanding and retention
+- Use **bold formatting** for key medical terms, anatomical structures, and important concepts
+- Use *italic* for emphasis on important points
+- Ensure proper line breaks between sections for readability
+- Use double line breaks (\\n\\n) between paragraphs for proper spacing
+- Use single line breaks (\\n) within bullet points for better readability
+- Ensure explanations are thorough enough for a doctor preparing for MRCS
+
+Provide a comprehensive, well-formatted explanation that will help the doctor understand the underlying medical principles and succeed in the MRCS exam.`,
+  },
+  {
+    name: PromptTemplateName.EXPLANATION_SIMPLE,
+    description:
+      'Shorter explanation prompt, used when the model echoes the full one',
+    template: `You are a senior medical consultant and MRCS examiner. Provide a detailed, well-formatted explanation using Markdown for this MRCS exam question.
+
+Question: {{question}}
+
+Options:
+{{options}}
+
+Correct Answer: {{correctAnswer}}
+
+Provide a comprehensive explanation with the following Markdown structure:
+
+## **TOPIC OVERVIEW**
+- Briefly introduce the medical topic and its importance for MRCS candidates
+- Identify the medical specialty or system involved
+
+## **CORRECT ANSWER EXPLANATION**
+**Option {{correctAnswer}} is correct because:**
+- Explain the primary medical reasoning
+- Provide the underlying **scientific basis** and **clinical evidence**
+- Include relevant **anatomical**, **physiological**, or **pathological** principles
+
+## **KEY MEDICAL CONCEPTS**
+- **Primary principle:** Main medical concept being tested
+- **Anatomical structures:** Relevant anatomy and relationships
+- **Clinical significance:** Why this knowledge matters in practice
+
+## **CLINICAL RELEVANCE**
+- **Surgical implications:** How this applies to surgical practice
+- **Diagnostic considerations:** Relevance to patient assessment
+- **Real-world applications:** Examples from clinical practice
+
+Use proper Markdown syntax with **bold** for emphasis, *italic* for emphasis, ## for headings, and - for bullet points. Use double line breaks between paragraphs and single line breaks within bullet points for better readability. Make the explanation educational and engaging for doctors preparing for MRCS.`,
+  },
+  {
+    name: PromptTemplateName.REPHRASING,
+    description: 'Rephrase a question stem for a formal exam',
+    template: `You are an AI assistant specialized in rephrasing medical exam questions for MRCS (Membership of the Royal Colleges of Surgeons) examinations.
+
+TASK: Rephrase the following MRCS exam question to make it more professional, clear, and suitable for a formal surgical examination while maintaining appropriate clinical context and detail.
+
+ORIGINAL QUESTION:
+{{question}}
+
+ORIGINAL OPTIONS (for reference only - DO NOT include these in your response):
+{{options}}
+
+CORRECT ANSWER:
+{{correctAnswer}}
+
+CRITICAL REQUIREMENTS:
+1. Maintain ALL important clinical context and details from the original
+2. Preserve the clinical scenario, patient demographics, and key findings
+3. Use proper medical terminology but avoid unnecessary complexity
+4. Make it suitable for a professional surgical examination
+5. Ensure clarity and precision
+6. Do NOT change the core medical concept being tested
+7. The rephrased question MUST lead to the same correct answer: {{correctAnswer}}
+8. Use standard MRCS exam question format
+9. Maintain the clinical reasoning required to answer the question
+10. Keep relevant diagnostic information (e.g., imaging results, physical exam findings)
+11. Preserve patient presentation details that are clinically significant
+12. STRICT WORD LIMIT: Keep the rephrased question between 5-80 words
+13. Be concise and avoid unnecessary verbosity
+14. Focus on essential clinical information only
+15. Make the question concise but comprehensive - avoid being overly verbose
+16. Ensure the question flows naturally and reads like a professional exam question
+17. DO NOT include any multiple choice options (A, B, C, D, E) in your response
+18. DO NOT include any answer choices or options in your response
+19. Return ONLY the question stem/stem question
+
+EXAMPLES OF GOOD REPHRASING:
+- "A 24-year-old footballer lands awkwardly after a tackle. He has lateral ankle pain but plain films show no fracture. On inversion stress, he has marked tenderness over the anterolateral capsule. Which ligament is most likely injured?" → "A 24-year-old footballer sustains lateral ankle pain after a tackle with no fracture on plain films but marked tenderness over the anterolateral capsule on inversion stress. Which ligament is most likely injured?"
+- "What causes appendicitis?" → "What is the most common cause of acute appendicitis?"
+- "Heart attack symptoms?" → "What is the most common presenting symptom of myocardial infarction?"
+- "Blood pressure high" → "What is the most likely diagnosis in a patient with elevated blood pressure?"
+
+EXAMPLES OF BAD REPHRASING (TOO SHORT - LOST CONTEXT):
+- "A 24-year-old footballer lands awkwardly after a tackle. He has lateral ankle pain but plain films show no fracture. On inversion stress, he has marked tenderness over the anterolateral capsule. Which ligament is most likely injured?" → "A footballer has ankle pain; which ligament is injured?"
+- "A 45-year-old patient presents with chest pain and ST elevation on ECG. What is the diagnosis?" → "What causes chest pain?"
+
+EXAMPLES OF BAD REPHRASING (TOO LONG - EXCEEDS 80 WORD LIMIT):
+- "What causes appendicitis?" → "In the context of acute abdominal pain in adults, what is the most common underlying pathological process that leads to inflammation of the vermiform appendix requiring surgical intervention?"
+
+EXAMPLES OF BAD REPHRASING (INCLUDING OPTIONS - DO NOT DO THIS):
+- "What causes appendicitis?" → "What causes appendicitis? A) Infection B) Trauma C) Cancer D) Autoimmune disease"
+
+EXAMPLES OF BAD REPHRASING (TOO VERBOSE):
+- "A patient has chest pain" → "A patient presents to the emergency department with acute onset of severe, crushing chest pain that radiates to the left arm and jaw, accompanied by shortness of breath, diaphoresis, and a sense of impending doom, which is most characteristic of what cardiovascular emergency?"
+
+IMPORTANT: 
+- Return ONLY the rephrased question text (the stem question)
+- Do NOT include any explanations, notes, or additional text
+- Do NOT include any multiple choice options (A, B, C, D, E)
+- Do NOT include any answer choices
+- The response should be a clean, professional exam question stem that could appear in an MRCS examination
+- Ensure the rephrased question leads to the same correct answer: {{correctAnswer}}
+- STRICT: Keep the rephrased question between 5-80 words maximum
+- Be concise and professional - avoid unnecessary verbosity`,
+  },
+] as const;
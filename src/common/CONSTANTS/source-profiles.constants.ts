@@ -0,0 +1,51 @@
+// Extra instructions added to the extraction prompt for a kind of source
+export enum SourcePromptVariant {
+  STANDARD = 'standard',
+  // Questions reconstructed from memory after a sitting
+  RECALL = 'recall',
+  // Questions from many sittings, each labelled in the text
+  QUESTION_BANK = 'question-bank',
+}
+
+export const DEFAULT_SOURCE_PROFILES = [
+  {
+    name: 'Recall January 2025',
+    filenamePattern: 'recall.*january[\\s_-]*2025',
+    forcedYear: 2025,
+    forcedIntake: 'january',
+    parser: null,
+    promptVariant: SourcePromptVariant.RECALL,
+    defaultCategories: [],
+    priority: 10,
+  },
+  {
+    name: 'Recall April 2025',
+    filenamePattern: 'recall.*april[\\s_-]*2025',
+    forcedYear: 2025,
+    forcedIntake: 'april-may',
+    parser: null,
+    promptVariant: SourcePromptVariant.RECALL,
+    defaultCategories: [],
+    priority: 10,
+  },
+  {
+    name: 'September 2024',
+    filenamePattern: 'sept(ember)?[\\s_-]*2024',
+    forcedYear: 2024,
+    forcedIntake: 'september',
+    parser: null,
+    promptVariant: SourcePromptVariant.STANDARD,
+    defaultCategories: [],
+    priority: 0,
+  },
+  {
+    name: 'MRCS question bank',
+    filenamePattern: 'mrcs-question-bank',
+    forcedYear: null,
+    forcedIntake: null,
+    parser: null,
+    promptVariant: SourcePromptVariant.QUESTION_BANK,
+    defaultCategories: [],
+    priority: 0,
+  },
+] as const;
@@ -1,5 +1,8 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
 import {
+  IsArray,
+  IsBoolean,
   IsNumber,
   IsObject,
   IsOptional,
@@ -7,6 +10,7 @@ import {
   Length,
   Max,
   Min,
+  ValidateNested,
 } from 'class-validator';
 import { QUESTION_VALIDATION } from '../CONSTANTS';
 
@@ -52,6 +56,136 @@ export class QuestionOptionsDto {
   E: string;
 }
 
+export class AnswerDetectionDto {
+  @ApiProperty({
+    description: 'Option that is highlighted, coloured or bold in the PDF',
+    example: 'C',
+  })
+  @IsString()
+  detectedAnswer: string;
+
+  @ApiProperty({ description: 'Answer given by the model', example: 'B' })
+  @IsString()
+  modelAnswer: string;
+
+  @ApiProperty({
+    description: 'Kinds of emphasis found on the detected option',
+    example: ['highlight', 'bold'],
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  signals: string[];
+
+  @ApiProperty({ description: 'Whether the model picked the same option' })
+  @IsBoolean()
+  agreed: boolean;
+
+  @ApiProperty({
+    description: "Whether the detected option replaced the model's answer",
+  })
+  @IsBoolean()
+  overridden: boolean;
+}
+
+export class AnswerVerificationDto {
+  @ApiProperty({ description: 'Model that answered', example: 'mistral' })
+  @IsString()
+  model: string;
+
+  @ApiProperty({
+    description: 'Answer the model gave without seeing the extracted one',
+    example: 'B',
+  })
+  @IsString()
+  answer: string;
+
+  @ApiProperty({ description: 'Answer that was extracted', example: 'C' })
+  @IsString()
+  extractedAnswer: string;
+
+  @ApiProperty({ description: 'Whether the two answers are the same' })
+  @IsBoolean()
+  agreed: boolean;
+
+  @ApiPropertyOptional({
+    description: "The model's confidence in its answer (0-1)",
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  confidence?: number | null;
+}
+
+export class EnsembleVoteDto {
+  @ApiProperty({ description: 'Model that voted', example: 'mistral' })
+  @IsString()
+  model: string;
+
+  @ApiProperty({ description: 'Whether the model extracted the question' })
+  @IsBoolean()
+  found: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Answer the model gave',
+    example: 'B',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  correctAnswer?: string | null;
+
+  @ApiProperty({ description: 'Categories the model chose', type: [String] })
+  @IsArray()
+  @IsString({ each: true })
+  categories: string[];
+
+  @ApiPropertyOptional({
+    description: "Similarity of the model's stem to the settled one (0-1)",
+    nullable: true,
+  })
+  @IsOptional()
+  @IsNumber()
+  similarity?: number | null;
+}
+
+export class EnsembleConsensusDto {
+  @ApiProperty({
+    description: 'Models in the ensemble, in order of preference',
+    example: ['llama3.1', 'mistral', 'qwen2.5'],
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  models: string[];
+
+  @ApiProperty({
+    description: 'Model whose wording was kept',
+    example: 'llama3.1',
+  })
+  @IsString()
+  model: string;
+
+  @ApiProperty({
+    description: 'Share of the ensemble that gave the settled answer (0-1)',
+    example: 0.67,
+  })
+  @IsNumber()
+  agreement: number;
+
+  @ApiProperty({
+    description: 'Whether every model gave the same answer and categories',
+  })
+  @IsBoolean()
+  unanimous: boolean;
+
+  @ApiProperty({ description: "Each model's vote", type: [EnsembleVoteDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => EnsembleVoteDto)
+  votes: EnsembleVoteDto[];
+}
+
 export class AiMetadataDto {
   @ApiPropertyOptional({
     description: 'AI confidence score (0-100)',
@@ -78,6 +212,16 @@ export class AiMetadataDto {
   @IsString()
   sourceFile?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Source page numbers (two pages for questions split across a page break)',
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsNumber({}, { each: true })
+  sourcePages?: number[];
+
   @ApiPropertyOptional({ description: 'Extraction timestamp' })
   @IsOptional()
   extractedAt?: Date;
@@ -96,4 +240,49 @@ export class AiMetadataDto {
   @IsOptional()
   @IsObject()
   rawExtraction?: any;
+
+  @ApiPropertyOptional({
+    description: 'Correct answer detected from emphasis in the PDF',
+    type: AnswerDetectionDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AnswerDetectionDto)
+  answerDetection?: AnswerDetectionDto;
+
+  @ApiPropertyOptional({
+    description: 'How the models of an ensemble voted on the question',
+    type: EnsembleConsensusDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => EnsembleConsensusDto)
+  consensus?: EnsembleConsensusDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether a second model answered the question differently from the extraction',
+  })
+  @IsOptional()
+  @IsBoolean()
+  answerDisputed?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Answer a second model gave without seeing the extracted one',
+    type: AnswerVerificationDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AnswerVerificationDto)
+  answerVerification?: AnswerVerificationDto;
+
+  @ApiPropertyOptional({
+    description: 'Prompt template versions that produced the question',
+    example: ['extraction@v3', 'missing-options@v1'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  promptVersions?: string[];
 }
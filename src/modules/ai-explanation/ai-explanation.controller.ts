@@ -152,6 +152,7 @@ export class AiExplanationController {
     message: string;
     explanation?: string;
     prompt?: string;
+    promptVersion?: string;
   }> {
     return this.aiExplanationService.testExplanationGeneration(questionId);
   }
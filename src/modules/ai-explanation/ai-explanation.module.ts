@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { PrismaService } from '../../common/services/prisma.service';
-import { ExtractionModule } from '../extraction/extraction.module';
+import { LlmModule } from '../llm/llm.module';
+import { PromptTemplatesModule } from '../prompt-templates/prompt-templates.module';
 import { AiExplanationController } from './ai-explanation.controller';
 import { AiExplanationService } from './ai-explanation.service';
 
 @Module({
-  imports: [ExtractionModule],
+  imports: [LlmModule, PromptTemplatesModule],
   controllers: [AiExplanationController],
   providers: [AiExplanationService, PrismaService],
   exports: [AiExplanationService],
@@ -1,6 +1,13 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmTask, PromptTemplateName } from '../../common/CONSTANTS';
 import { PrismaService } from '../../common/services/prisma.service';
-import { OllamaService } from '../extraction/ollama.service';
+import { LlmModelsService } from '../llm/llm-models.service';
+import { LlmService } from '../llm/llm.service';
+import {
+  PromptTemplatesService,
+  RenderedPrompt,
+} from '../prompt-templates/prompt-templates.service';
 import {
   AiExplanationSettingsDto,
   AiExplanationStatisticsDto,
@@ -9,7 +16,7 @@ import {
 } from './dto/ai-explanation.types';
 
 @Injectable()
-export class AiExplanationService {
+export class AiExplanationService implements OnApplicationBootstrap {
   private readonly logger = new Logger(AiExplanationService.name);
   private isProcessing = false;
   private processingInterval: NodeJS.Timeout | null = null;
@@ -17,11 +24,59 @@ export class AiExplanationService {
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly ollamaService: OllamaService,
+    private readonly llmService: LlmService,
+    private readonly llmModelsService: LlmModelsService,
+    private readonly promptTemplatesService: PromptTemplatesService,
+    private configService: ConfigService,
   ) {
     this.addLog('AI explanation service initialized');
   }
 
+  async onApplicationBootstrap() {
+    await this.recoverInterruptedProcessing();
+  }
+
+  /**
+   * The processing loop only lives in memory, so settings still marked active on
+   * startup belong to a loop that a restart ended
+   */
+  private async recoverInterruptedProcessing(): Promise<void> {
+    try {
+      const settings = await this.prisma.aiExplanationSettings.findFirst({
+        orderBy: { createdAt: 'desc' },
+      });
+      if (
+        !settings ||
+        (!settings.isActive && settings.status !== 'processing')
+      ) {
+        return;
+      }
+
+      await this.prisma.aiExplanationSettings.update({
+        where: { id: settings.id },
+        data: {
+          isActive: false,
+          status: 'interrupted',
+          error: 'Interrupted by a restart',
+          stoppedAt: new Date(),
+        },
+      });
+      this.addLog(
+        'AI explanation processing was interrupted by a restart',
+        'WARN',
+      );
+
+      if (
+        this.configService.get<string>('RESUME_INTERRUPTED_RUNS', 'false') ===
+        'true'
+      ) {
+        await this.startExplanation(settings.model);
+      }
+    } catch (error) {
+      this.logger.error('Failed to recover AI explanation processing:', error);
+    }
+  }
+
   private addLog(
     message: string,
     level: 'INFO' | 'ERROR' | 'WARN' | 'DEBUG' = 'INFO',
@@ -48,7 +103,7 @@ export class AiExplanationService {
       const newSettings = await this.prisma.aiExplanationSettings.create({
         data: {
           isActive: false,
-          model: 'llama3.1',
+          model: this.llmService.getModel(LlmTask.EXPLANATION),
           totalQuestions: 0,
           processedQuestions: 0,
           skippedQuestions: 0,
@@ -198,11 +253,15 @@ export class AiExplanationService {
   }
 
   async startExplanation(
-    model: string = 'llama3.1',
+    model?: string,
   ): Promise<{ message: string; settingsId: string }> {
     if (this.isProcessing) {
       throw new Error('AI explanation is already running');
     }
+    if (model) {
+      await this.llmModelsService.assertInstalled(LlmTask.EXPLANATION, model);
+    }
+    model ??= this.llmService.getModel(LlmTask.EXPLANATION);
 
     const settings = await this.getSettings();
 
@@ -336,6 +395,8 @@ export class AiExplanationService {
       where: { id: questionId },
       data: {
         explanation,
+        // Written by hand, so no prompt produced it
+        explanationPromptVersion: null,
       },
     });
 
@@ -350,6 +411,7 @@ export class AiExplanationService {
     message: string;
     explanation?: string;
     prompt?: string;
+    promptVersion?: string;
   }> {
     try {
       const question = await this.prisma.question.findUnique({
@@ -360,10 +422,12 @@ export class AiExplanationService {
         throw new Error('Question not found');
       }
 
-      const prompt = this.buildExplanationPrompt(question);
-      const response = await this.ollamaService.generateMedicalExplanation(
-        prompt,
-        'llama3.1',
+      const prompt = await this.buildExplanationPrompt(question);
+      // A test is for seeing what the model says now, not what it said last time
+      const response = await this.generateExplanationText(
+        prompt.prompt,
+        undefined,
+        true,
       );
 
       if (response && response.trim()) {
@@ -371,7 +435,8 @@ export class AiExplanationService {
         return {
           message: 'Test explanation generated successfully',
           explanation: cleanedExplanation,
-          prompt,
+          prompt: prompt.prompt,
+          promptVersion: prompt.version,
         };
       } else {
         throw new Error('No response from AI model');
@@ -437,6 +502,7 @@ export class AiExplanationService {
       where: { id: questionId },
       data: {
         explanation: null,
+        explanationPromptVersion: null,
       },
     });
 
@@ -514,7 +580,7 @@ export class AiExplanationService {
         );
 
         // Wait for AI generation to complete
-        await this.generateExplanationForQuestion(question);
+        await this.generateExplanationForQuestion(question, settings.model);
 
         // Update settings after successful generation
         await this.prisma.aiExplanationSettings.update({
@@ -570,19 +636,21 @@ export class AiExplanationService {
     }
   }
 
-  private async generateExplanationForQuestion(question: any): Promise<void> {
-    const prompt = this.buildExplanationPrompt(question);
+  private async generateExplanationForQuestion(
+    question: any,
+    model: string,
+  ): Promise<void> {
+    const prompt = await this.buildExplanationPrompt(question);
 
     // Log the prompt for debugging
     this.addLog(`Generating explanation for question: ${question.id}`, 'DEBUG');
-    this.addLog(`Prompt length: ${prompt.length} characters`, 'DEBUG');
+    this.addLog(
+      `Prompt ${prompt.version} length: ${prompt.prompt.length} characters`,
+      'DEBUG',
+    );
 
     try {
-      // Try with llama3.1 first (the model used for extraction)
-      const response = await this.ollamaService.generateMedicalExplanation(
-        prompt,
-        'llama3.1',
-      );
+      const response = await this.generateExplanationText(prompt.prompt, model);
 
       this.addLog(
         `Raw response length: ${response?.length || 0} characters`,
@@ -606,12 +674,12 @@ export class AiExplanationService {
           );
 
           // Try with a simpler prompt
-          const simplePrompt = this.buildSimpleExplanationPrompt(question);
-          const simpleResponse =
-            await this.ollamaService.generateMedicalExplanation(
-              simplePrompt,
-              'llama3.1',
-            );
+          const simplePrompt =
+            await this.buildSimpleExplanationPrompt(question);
+          const simpleResponse = await this.generateExplanationText(
+            simplePrompt.prompt,
+            model,
+          );
 
           if (
             simpleResponse &&
@@ -630,7 +698,8 @@ export class AiExplanationService {
             await this.saveExplanation(
               question,
               cleanedExplanation,
-              'llama3.1',
+              model,
+              simplePrompt.version,
             );
           } else {
             this.addLog(
@@ -641,7 +710,8 @@ export class AiExplanationService {
             await this.saveExplanation(
               question,
               'Explanation generation failed - please add manually.',
-              'llama3.1',
+              model,
+              prompt.version,
             );
           }
         } else {
@@ -656,7 +726,8 @@ export class AiExplanationService {
             await this.saveExplanation(
               question,
               cleanedExplanation,
-              'llama3.1',
+              model,
+              prompt.version,
             );
           } else {
             this.addLog(
@@ -664,7 +735,12 @@ export class AiExplanationService {
               'WARN',
             );
             // Save raw response if cleaning resulted in empty string
-            await this.saveExplanation(question, response.trim(), 'llama3.1');
+            await this.saveExplanation(
+              question,
+              response.trim(),
+              model,
+              prompt.version,
+            );
           }
         }
       } else {
@@ -676,7 +752,8 @@ export class AiExplanationService {
         await this.saveExplanation(
           question,
           'Explanation generation failed - please add manually.',
-          'llama3.1',
+          model,
+          prompt.version,
         );
       }
     } catch (error) {
@@ -688,7 +765,8 @@ export class AiExplanationService {
       await this.saveExplanation(
         question,
         'Explanation generation failed - please add manually.',
-        'llama3.1',
+        model,
+        prompt.version,
       );
     }
   }
@@ -697,6 +775,7 @@ export class AiExplanationService {
     question: any,
     explanation: string,
     model: string,
+    promptVersion: string,
   ): Promise<void> {
     if (explanation && explanation.length > 10) {
       // Update the question with explanation
@@ -704,10 +783,11 @@ export class AiExplanationService {
         where: { id: question.id },
         data: {
           explanation,
+          explanationPromptVersion: promptVersion,
         },
       });
       this.addLog(
-        `Successfully saved explanation for question: ${question.id} using ${model} (${explanation.length} characters)`,
+        `Successfully saved explanation for question: ${question.id} using ${model} and ${promptVersion} (${explanation.length} characters)`,
       );
     } else {
       this.addLog(
@@ -719,48 +799,21 @@ export class AiExplanationService {
         where: { id: question.id },
         data: {
           explanation: 'Explanation generation failed - please add manually.',
+          explanationPromptVersion: promptVersion,
         },
       });
     }
   }
 
-  private buildSimpleExplanationPrompt(question: any): string {
-    return `You are a senior medical consultant and MRCS examiner. Provide a detailed, well-formatted explanation using Markdown for this MRCS exam question.
-
-Question: ${question.question}
-
-Options:
-A: ${question.options.A}
-B: ${question.options.B}
-C: ${question.options.C}
-D: ${question.options.D}
-E: ${question.options.E}
-
-Correct Answer: ${question.correctAnswer}
-
-Provide a comprehensive explanation with the following Markdown structure:
-
-## **TOPIC OVERVIEW**
-- Briefly introduce the medical topic and its importance for MRCS candidates
-- Identify the medical specialty or system involved
-
-## **CORRECT ANSWER EXPLANATION**
-**Option ${question.correctAnswer} is correct because:**
-- Explain the primary medical reasoning
-- Provide the underlying **scientific basis** and **clinical evidence**
-- Include relevant **anatomical**, **physiological**, or **pathological** principles
-
-## **KEY MEDICAL CONCEPTS**
-- **Primary principle:** Main medical concept being tested
-- **Anatomical structures:** Relevant anatomy and relationships
-- **Clinical significance:** Why this knowledge matters in practice
-
-## **CLINICAL RELEVANCE**
-- **Surgical implications:** How this applies to surgical practice
-- **Diagnostic considerations:** Relevance to patient assessment
-- **Real-world applications:** Examples from clinical practice
-
-Use proper Markdown syntax with **bold** for emphasis, *italic* for emphasis, ## for headings, and - for bullet points. Use double line breaks between paragraphs and single line breaks within bullet points for better readability. Make the explanation educational and engaging for doctors preparing for MRCS.`;
+  private buildSimpleExplanationPrompt(question: any): Promise<RenderedPrompt> {
+    return this.promptTemplatesService.render(
+      PromptTemplateName.EXPLANATION_SIMPLE,
+      {
+        question: question.question,
+        options: this.formatOptions(question),
+        correctAnswer: question.correctAnswer,
+      },
+    );
   }
 
   private cleanExplanation(explanation: string): string {
@@ -812,67 +865,47 @@ Use proper Markdown syntax with **bold** for emphasis, *italic* for emphasis, ##
     return cleaned;
   }
 
-  private buildExplanationPrompt(question: any): string {
+  /**
+   * Higher temperature and top_p than extraction, for more varied wording
+   * @param model Model chosen when processing was started; the task's configured model when omitted
+   */
+  private async generateExplanationText(
+    prompt: string,
+    model?: string,
+    bypassCache = false,
+  ): Promise<string> {
+    const response = await this.llmService.generate(
+      LlmTask.EXPLANATION,
+      prompt,
+      {
+        model,
+        temperature: 0.4,
+        topP: 0.95,
+        maxTokens: 2048,
+        bypassCache,
+      },
+    );
+    return response.text;
+  }
+
+  private buildExplanationPrompt(question: any): Promise<RenderedPrompt> {
     // Get question categories for better context
     const categories = question.categories || [];
-    const categoryContext =
+    const topicAreas =
       categories.length > 0 ? `\nTOPIC AREAS: ${categories.join(', ')}` : '';
 
-    return `You are a senior medical consultant and MRCS examiner with extensive experience in medical education. You are helping a doctor prepare for the MRCS exam by providing detailed, well-formatted explanations.
-
-TASK: Provide a comprehensive medical explanation using proper Markdown formatting for the following MRCS exam question.
-
-QUESTION: ${question.question}${categoryContext}
-
-OPTIONS:
-A: ${question.options.A}
-B: ${question.options.B}
-C: ${question.options.C}
-D: ${question.options.D}
-E: ${question.options.E}
-
-CORRECT ANSWER: ${question.correctAnswer}
-
-REQUIRED MARKDOWN STRUCTURE:
-
-## **TOPIC OVERVIEW**
-- Briefly introduce the medical topic/concept being tested
-- Identify the relevant medical specialty or anatomical system
-
-## **CORRECT ANSWER EXPLANATION**
-**Option ${question.correctAnswer} is correct because:**
-- Provide the primary medical reasoning
-- Include relevant **anatomical**, **physiological**, or **pathological** principles
-- Reference key **medical concepts** and terminology
-- Explain the **scientific basis** with supporting evidence
-
-## **KEY MEDICAL CONCEPTS**
-- **Primary concept:** Main medical principle being tested
-- **Anatomical considerations:** Relevant structures and their relationships
-- **Physiological mechanisms:** How normal/abnormal processes relate to the question
-- **Pathological correlations:** Disease processes or conditions involved
-- **Clinical significance:** Why this knowledge matters in practice
-
-## **CLINICAL RELEVANCE**
-- **Surgical implications:** How this applies to surgical practice
-- **Diagnostic considerations:** Relevance to patient assessment
-- **Treatment applications:** Impact on clinical decision-making
-- **Real-world scenarios:** Examples from clinical practice
-
-FORMAT REQUIREMENTS:
-- Use proper Markdown syntax with ## for headings, **bold** for emphasis, *italic* for emphasis, and - for bullet points
-- Include medical terminology with brief explanations in parentheses when needed
-- Structure content logically with clear hierarchy and proper spacing
-- Make explanations detailed but concise with good paragraph breaks
-- Focus on exam-relevant information that helps with understanding and retention
-- Use **bold formatting** for key medical terms, anatomical structures, and important concepts
-- Use *italic* for emphasis on important points
-- Ensure proper line breaks between sections for readability
-- Use double line breaks (\\n\\n) between paragraphs for proper spacing
-- Use single line breaks (\\n) within bullet points for better readability
-- Ensure explanations are thorough enough for a doctor preparing for MRCS
-
-Provide a comprehensive, well-formatted explanation that will help the doctor understand the underlying medical principles and succeed in the MRCS exam.`;
+    return this.promptTemplatesService.render(PromptTemplateName.EXPLANATION, {
+      question: question.question,
+      topicAreas,
+      options: this.formatOptions(question),
+      correctAnswer: question.correctAnswer,
+    });
+  }
+
+  private formatOptions(question: any): string {
+    return ['A', 'B', 'C', 'D', 'E']
+      .map((option) => `${option}: ${question.options[option]}`)
+      .join('\n');
   }
 
   private getWrongOptions(correctAnswer: string): string {
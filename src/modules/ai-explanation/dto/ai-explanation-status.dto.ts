@@ -8,7 +8,8 @@ export class AiExplanationStatusDto {
 
   @ApiProperty({ description: 'Current status of AI explanation process' })
   @IsString()
-  status: 'idle' | 'processing' | 'completed' | 'stopped' | 'failed';
+  status:
+    'idle' | 'processing' | 'completed' | 'stopped' | 'failed' | 'interrupted';
 
   @ApiProperty({ description: 'AI model being used' })
   @IsString()
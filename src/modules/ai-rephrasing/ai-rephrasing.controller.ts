@@ -152,6 +152,7 @@ export class AiRephrasingController {
     message: string;
     rephrasedTitle?: string;
     prompt?: string;
+    promptVersion?: string;
   }> {
     return this.aiRephrasingService.testRephrasingGeneration(questionId);
   }
@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { PrismaService } from '../../common/services/prisma.service';
-import { ExtractionModule } from '../extraction/extraction.module';
+import { LlmModule } from '../llm/llm.module';
+import { PromptTemplatesModule } from '../prompt-templates/prompt-templates.module';
 import { AiRephrasingController } from './ai-rephrasing.controller';
 import { AiRephrasingService } from './ai-rephrasing.service';
 
 @Module({
-  imports: [ExtractionModule],
+  imports: [LlmModule, PromptTemplatesModule],
   controllers: [AiRephrasingController],
   providers: [AiRephrasingService, PrismaService],
   exports: [AiRephrasingService],
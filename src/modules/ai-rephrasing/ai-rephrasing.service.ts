@@ -1,6 +1,13 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmTask, PromptTemplateName } from '../../common/CONSTANTS';
 import { PrismaService } from '../../common/services/prisma.service';
-import { OllamaService } from '../extraction/ollama.service';
+import { LlmModelsService } from '../llm/llm-models.service';
+import { LlmService } from '../llm/llm.service';
+import {
+  PromptTemplatesService,
+  RenderedPrompt,
+} from '../prompt-templates/prompt-templates.service';
 import {
   AiRephrasingSettingsDto,
   AiRephrasingStatisticsDto,
@@ -9,18 +16,66 @@ import {
 } from './dto/ai-rephrasing.types';
 
 @Injectable()
-export class AiRephrasingService {
+export class AiRephrasingService implements OnApplicationBootstrap {
   private readonly logger = new Logger(AiRephrasingService.name);
   private isProcessing = false;
   private logs: string[] = [];
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly ollamaService: OllamaService,
+    private readonly llmService: LlmService,
+    private readonly llmModelsService: LlmModelsService,
+    private readonly promptTemplatesService: PromptTemplatesService,
+    private configService: ConfigService,
   ) {
     this.addLog('AI rephrasing service initialized');
   }
 
+  async onApplicationBootstrap() {
+    await this.recoverInterruptedProcessing();
+  }
+
+  /**
+   * The processing loop only lives in memory, so settings still marked active on
+   * startup belong to a loop that a restart ended
+   */
+  private async recoverInterruptedProcessing(): Promise<void> {
+    try {
+      const settings = await this.prisma.aiRephrasingSettings.findFirst({
+        orderBy: { createdAt: 'desc' },
+      });
+      if (
+        !settings ||
+        (!settings.isActive && settings.status !== 'processing')
+      ) {
+        return;
+      }
+
+      await this.prisma.aiRephrasingSettings.update({
+        where: { id: settings.id },
+        data: {
+          isActive: false,
+          status: 'interrupted',
+          error: 'Interrupted by a restart',
+          stoppedAt: new Date(),
+        },
+      });
+      this.addLog(
+        'AI rephrasing processing was interrupted by a restart',
+        'WARN',
+      );
+
+      if (
+        this.configService.get<string>('RESUME_INTERRUPTED_RUNS', 'false') ===
+        'true'
+      ) {
+        await this.startRephrasing(settings.model);
+      }
+    } catch (error) {
+      this.logger.error('Failed to recover AI rephrasing processing:', error);
+    }
+  }
+
   private addLog(
     message: string,
     level: 'INFO' | 'ERROR' | 'WARN' | 'DEBUG' = 'INFO',
@@ -47,7 +102,7 @@ export class AiRephrasingService {
       const newSettings = await this.prisma.aiRephrasingSettings.create({
         data: {
           isActive: false,
-          model: 'llama3.1',
+          model: this.llmService.getModel(LlmTask.REPHRASING),
           totalQuestions: 0,
           processedQuestions: 0,
           skippedQuestions: 0,
@@ -131,12 +186,7 @@ export class AiRephrasingService {
 
     return {
       isActive: settings.isActive,
-      status: settings.status as
-        | 'idle'
-        | 'processing'
-        | 'completed'
-        | 'stopped'
-        | 'failed',
+      status: settings.status as AiRephrasingStatusDto['status'],
       model: settings.model,
       totalQuestions,
       processedQuestions,
@@ -247,11 +297,15 @@ export class AiRephrasingService {
   }
 
   async startRephrasing(
-    model: string = 'llama3.1',
+    model?: string,
   ): Promise<{ message: string; settingsId: string }> {
     if (this.isProcessing) {
       throw new Error('AI rephrasing is already running');
     }
+    if (model) {
+      await this.llmModelsService.assertInstalled(LlmTask.REPHRASING, model);
+    }
+    model ??= this.llmService.getModel(LlmTask.REPHRASING);
 
     const settings = await this.getSettings();
 
@@ -391,6 +445,8 @@ export class AiRephrasingService {
       where: { id: questionId },
       data: {
         aiRephrasedTitle: aiRephrasedTitle.trim(),
+        // Written by hand, so no prompt produced it
+        rephrasingPromptVersion: null,
       },
     });
 
@@ -405,6 +461,7 @@ export class AiRephrasingService {
     message: string;
     rephrasedTitle?: string;
     prompt?: string;
+    promptVersion?: string;
   }> {
     try {
       const question = await this.prisma.question.findUnique({
@@ -415,10 +472,12 @@ export class AiRephrasingService {
         throw new Error('Question not found');
       }
 
-      const prompt = this.buildRephrasingPrompt(question);
-      const response = await this.ollamaService.generateMedicalExplanation(
-        prompt,
-        'llama3.1',
+      const prompt = await this.buildRephrasingPrompt(question);
+      // A test is for seeing what the model says now, not what it said last time
+      const response = await this.generateRephrasingText(
+        prompt.prompt,
+        undefined,
+        true,
       );
 
       if (response && response.trim()) {
@@ -426,7 +485,8 @@ export class AiRephrasingService {
         return {
           message: 'Test rephrasing generated successfully',
           rephrasedTitle: cleanedRephrasedTitle,
-          prompt,
+          prompt: prompt.prompt,
+          promptVersion: prompt.version,
         };
       } else {
         throw new Error('No response from AI model');
@@ -492,6 +552,7 @@ export class AiRephrasingService {
       where: { id: questionId },
       data: {
         aiRephrasedTitle: null,
+        rephrasingPromptVersion: null,
       },
     });
 
@@ -563,7 +624,7 @@ export class AiRephrasingService {
         );
 
         // Wait for AI generation to complete
-        await this.generateRephrasingForQuestion(question);
+        await this.generateRephrasingForQuestion(question, settings.model);
 
         // Update settings after successful generation (don't increment processedQuestions as it's calculated from actual data)
         await this.prisma.aiRephrasingSettings.update({
@@ -618,17 +679,20 @@ export class AiRephrasingService {
     }
   }
 
-  private async generateRephrasingForQuestion(question: any): Promise<void> {
-    const prompt = this.buildRephrasingPrompt(question);
+  private async generateRephrasingForQuestion(
+    question: any,
+    model: string,
+  ): Promise<void> {
+    const prompt = await this.buildRephrasingPrompt(question);
 
     this.addLog(`Generating rephrasing for question: ${question.id}`, 'DEBUG');
-    this.addLog(`Prompt length: ${prompt.length} characters`, 'DEBUG');
+    this.addLog(
+      `Prompt ${prompt.version} length: ${prompt.prompt.length} characters`,
+      'DEBUG',
+    );
 
     try {
-      const response = await this.ollamaService.generateMedicalExplanation(
-        prompt,
-        'llama3.1',
-      );
+      const response = await this.generateRephrasingText(prompt.prompt, model);
 
       this.addLog(
         `Raw response length: ${response?.length || 0} characters`,
@@ -649,7 +713,11 @@ export class AiRephrasingService {
 
           // Check if the rephrased title is appropriately sized (5-80 words, more flexible for clinical context)
           if (wordCount >= 5 && wordCount <= 80) {
-            await this.saveRephrasing(question, cleanedRephrasedTitle);
+            await this.saveRephrasing(
+              question,
+              cleanedRephrasedTitle,
+              prompt.version,
+            );
             this.addLog(
               `Successfully rephrased question: ${question.id} (${wordCount} words)`,
             );
@@ -674,7 +742,11 @@ export class AiRephrasingService {
             const truncatedWordCount = truncatedTitle.split(/\s+/).length;
 
             if (truncatedWordCount >= 5) {
-              await this.saveRephrasing(question, truncatedTitle);
+              await this.saveRephrasing(
+                question,
+                truncatedTitle,
+                prompt.version,
+              );
               this.addLog(
                 `Successfully rephrased and truncated question: ${question.id} (${truncatedWordCount} words)`,
               );
@@ -702,16 +774,20 @@ export class AiRephrasingService {
   private async saveRephrasing(
     question: any,
     rephrasedTitle: string,
+    promptVersion: string,
   ): Promise<void> {
     try {
       await this.prisma.question.update({
         where: { id: question.id },
         data: {
           aiRephrasedTitle: rephrasedTitle,
+          rephrasingPromptVersion: promptVersion,
         },
       });
 
-      this.addLog(`Saved rephrased title for question: ${question.id}`);
+      this.addLog(
+        `Saved rephrased title for question: ${question.id} (${promptVersion})`,
+      );
     } catch (error) {
       this.logger.error(
         `Failed to save rephrasing for question ${question.id}:`,
@@ -721,69 +797,41 @@ export class AiRephrasingService {
     }
   }
 
-  private buildRephrasingPrompt(question: any): string {
-    return `You are an AI assistant specialized in rephrasing medical exam questions for MRCS (Membership of the Royal Colleges of Surgeons) examinations.
-
-TASK: Rephrase the following MRCS exam question to make it more professional, clear, and suitable for a formal surgical examination while maintaining appropriate clinical context and detail.
-
-ORIGINAL QUESTION:
-${question.question}
-
-ORIGINAL OPTIONS (for reference only - DO NOT include these in your response):
-${question.options || 'No options provided'}
-
-CORRECT ANSWER:
-${question.correctAnswer}
-
-CRITICAL REQUIREMENTS:
-1. Maintain ALL important clinical context and details from the original
-2. Preserve the clinical scenario, patient demographics, and key findings
-3. Use proper medical terminology but avoid unnecessary complexity
-4. Make it suitable for a professional surgical examination
-5. Ensure clarity and precision
-6. Do NOT change the core medical concept being tested
-7. The rephrased question MUST lead to the same correct answer: ${question.correctAnswer}
-8. Use standard MRCS exam question format
-9. Maintain the clinical reasoning required to answer the question
-10. Keep relevant diagnostic information (e.g., imaging results, physical exam findings)
-11. Preserve patient presentation details that are clinically significant
-12. STRICT WORD LIMIT: Keep the rephrased question between 5-80 words
-13. Be concise and avoid unnecessary verbosity
-14. Focus on essential clinical information only
-15. Make the question concise but comprehensive - avoid being overly verbose
-16. Ensure the question flows naturally and reads like a professional exam question
-17. DO NOT include any multiple choice options (A, B, C, D, E) in your response
-18. DO NOT include any answer choices or options in your response
-19. Return ONLY the question stem/stem question
-
-EXAMPLES OF GOOD REPHRASING:
-- "A 24-year-old footballer lands awkwardly after a tackle. He has lateral ankle pain but plain films show no fracture. On inversion stress, he has marked tenderness over the anterolateral capsule. Which ligament is most likely injured?" → "A 24-year-old footballer sustains lateral ankle pain after a tackle with no fracture on plain films but marked tenderness over the anterolateral capsule on inversion stress. Which ligament is most likely injured?"
-- "What causes appendicitis?" → "What is the most common cause of acute appendicitis?"
-- "Heart attack symptoms?" → "What is the most common presenting symptom of myocardial infarction?"
-- "Blood pressure high" → "What is the most likely diagnosis in a patient with elevated blood pressure?"
-
-EXAMPLES OF BAD REPHRASING (TOO SHORT - LOST CONTEXT):
-- "A 24-year-old footballer lands awkwardly after a tackle. He has lateral ankle pain but plain films show no fracture. On inversion stress, he has marked tenderness over the anterolateral capsule. Which ligament is most likely injured?" → "A footballer has ankle pain; which ligament is injured?"
-- "A 45-year-old patient presents with chest pain and ST elevation on ECG. What is the diagnosis?" → "What causes chest pain?"
-
-EXAMPLES OF BAD REPHRASING (TOO LONG - EXCEEDS 80 WORD LIMIT):
-- "What causes appendicitis?" → "In the context of acute abdominal pain in adults, what is the most common underlying pathological process that leads to inflammation of the vermiform appendix requiring surgical intervention?"
-
-EXAMPLES OF BAD REPHRASING (INCLUDING OPTIONS - DO NOT DO THIS):
-- "What causes appendicitis?" → "What causes appendicitis? A) Infection B) Trauma C) Cancer D) Autoimmune disease"
-
-EXAMPLES OF BAD REPHRASING (TOO VERBOSE):
-- "A patient has chest pain" → "A patient presents to the emergency department with acute onset of severe, crushing chest pain that radiates to the left arm and jaw, accompanied by shortness of breath, diaphoresis, and a sense of impending doom, which is most characteristic of what cardiovascular emergency?"
-
-IMPORTANT: 
-- Return ONLY the rephrased question text (the stem question)
-- Do NOT include any explanations, notes, or additional text
-- Do NOT include any multiple choice options (A, B, C, D, E)
-- Do NOT include any answer choices
-- The response should be a clean, professional exam question stem that could appear in an MRCS examination
-- Ensure the rephrased question leads to the same correct answer: ${question.correctAnswer}
-- STRICT: Keep the rephrased question between 5-80 words maximum
-- Be concise and professional - avoid unnecessary verbosity`;
+  /**
+   * Higher temperature and top_p than extraction, for more varied wording
+   * @param model Model chosen when processing was started; the task's configured model when omitted
+   */
+  private async generateRephrasingText(
+    prompt: string,
+    model?: string,
+    bypassCache = false,
+  ): Promise<string> {
+    const response = await this.llmService.generate(
+      LlmTask.REPHRASING,
+      prompt,
+      {
+        model,
+        temperature: 0.4,
+        topP: 0.95,
+        maxTokens: 2048,
+        bypassCache,
+      },
+    );
+    return response.text;
+  }
+
+  private buildRephrasingPrompt(question: any): Promise<RenderedPrompt> {
+    const options = question.options
+      ? ['A', 'B', 'C', 'D', 'E']
+          .map((option) => `${option}: ${question.options[option]}`)
+          .join('\n')
+      : 'No options provided';
+
+    return this.promptTemplatesService.render(PromptTemplateName.REPHRASING, {
+      question: question.question,
+      options,
+      correctAnswer: question.correctAnswer,
+    });
   }
 
   private cleanRephrasedTitle(rephrasedTitle: string): string {
@@ -1,6 +1,7 @@
 export interface AiRephrasingStatusDto {
   isActive: boolean;
-  status: 'idle' | 'processing' | 'completed' | 'stopped' | 'failed';
+  status:
+    'idle' | 'processing' | 'completed' | 'stopped' | 'failed' | 'interrupted';
   model: string;
   totalQuestions: number;
   processedQuestions: number;
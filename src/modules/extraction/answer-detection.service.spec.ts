@@ -0,0 +1,129 @@
+import { ConfigService } from '@nestjs/config';
+import { AnswerDetectionMode } from '../../common/CONSTANTS';
+import { AnswerDetectionService } from './answer-detection.service';
+import { ExtractedQuestion } from './ollama.service';
+import { EmphasisedSpan } from './pdf-emphasis.service';
+
+function detection(mode: AnswerDetectionMode): AnswerDetectionService {
+  return new AnswerDetectionService(
+    new ConfigService({ ANSWER_DETECTION_MODE: mode }),
+  );
+}
+
+function question(correctAnswer = 'A'): ExtractedQuestion {
+  return {
+    question: 'Which drug is given first for a pulmonary embolism?',
+    options: {
+      A: 'Aspirin',
+      B: 'Heparin',
+      C: 'Low molecular weight heparin',
+      D: 'Alteplase',
+      E: 'Clopidogrel',
+    },
+    correctAnswer,
+    categories: ['Cardiology'],
+    examYear: 2022,
+    intake: 'september',
+    confidence: 0.9,
+  };
+}
+
+// The detected answer for one question, in override mode
+function detect(spans: EmphasisedSpan[]): string | undefined {
+  const [detected] = detection(AnswerDetectionMode.OVERRIDE).apply(
+    [question()],
+    spans,
+  );
+  return detected.answerDetection?.detectedAnswer;
+}
+
+describe('AnswerDetectionService', () => {
+  describe('apply', () => {
+    it('matches an emphasised option with or without its marker', () => {
+      expect(detect([{ text: 'Heparin', signals: ['bold'] }])).toBe('B');
+      expect(detect([{ text: '(D) Alteplase.', signals: ['highlight'] }])).toBe(
+        'D',
+      );
+    });
+
+    it('matches emphasis covering most of an option', () => {
+      expect(
+        detect([{ text: 'molecular weight heparin', signals: ['underline'] }]),
+      ).toBe('C');
+    });
+
+    it('does not match a shorter option inside a longer one', () => {
+      // "heparin" is all of B but too little of C to count for it
+      expect(detect([{ text: 'heparin', signals: ['bold'] }])).toBe('B');
+      expect(detect([{ text: 'Low', signals: ['bold'] }])).toBeUndefined();
+    });
+
+    it('detects nothing when several options are emphasised', () => {
+      expect(
+        detect([
+          { text: 'Aspirin', signals: ['bold'] },
+          { text: 'Heparin', signals: ['bold'] },
+        ]),
+      ).toBeUndefined();
+    });
+
+    it('collects the signals of every span on the option', () => {
+      const [detected] = detection(AnswerDetectionMode.OVERRIDE).apply(
+        [question('B')],
+        [
+          { text: 'Heparin', signals: ['bold'] },
+          { text: 'B. Heparin', signals: ['highlight', 'bold'] },
+        ],
+      );
+
+      expect(detected.answerDetection).toEqual({
+        detectedAnswer: 'B',
+        modelAnswer: 'B',
+        signals: ['bold', 'highlight'],
+        agreed: true,
+        overridden: false,
+      });
+      expect(detected.confidence).toBe(0.9);
+    });
+
+    it('overrides a different model answer in override mode', () => {
+      const [detected] = detection(AnswerDetectionMode.OVERRIDE).apply(
+        [question('A')],
+        [{ text: 'Heparin', signals: ['fill-colour'] }],
+      );
+
+      expect(detected).toMatchObject({
+        correctAnswer: 'B',
+        confidence: 0.9,
+        answerDetection: { modelAnswer: 'A', agreed: false, overridden: true },
+      });
+    });
+
+    it('keeps a different model answer at capped confidence in cross-check mode', () => {
+      const [detected] = detection(AnswerDetectionMode.CROSS_CHECK).apply(
+        [question('A')],
+        [{ text: 'Heparin', signals: ['text-colour'] }],
+      );
+
+      expect(detected).toMatchObject({
+        correctAnswer: 'A',
+        confidence: 0.5,
+        answerDetection: {
+          detectedAnswer: 'B',
+          agreed: false,
+          overridden: false,
+        },
+      });
+    });
+
+    it('does nothing when turned off', () => {
+      const [detected] = detection(AnswerDetectionMode.OFF).apply(
+        [question('A')],
+        [{ text: 'Heparin', signals: ['bold'] }],
+      );
+
+      expect(detected.correctAnswer).toBe('A');
+      expect(detected.answerDetection).toBeUndefined();
+    });
+  });
+});
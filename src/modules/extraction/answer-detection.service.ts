@@ -0,0 +1,129 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AnswerDetectionMode,
+  QUESTION_ANSWER_OPTIONS,
+} from '../../common/CONSTANTS';
+import { AnswerDetection, ExtractedQuestion } from './ollama.service';
+import { EmphasisedSpan, EmphasisSignal } from './pdf-emphasis.service';
+
+// Confidence cap for questions whose emphasised option disagrees with the model
+const DISPUTED_CONFIDENCE = 0.5;
+
+@Injectable()
+export class AnswerDetectionService {
+  private readonly logger = new Logger(AnswerDetectionService.name);
+  private readonly mode: AnswerDetectionMode;
+
+  constructor(private configService: ConfigService) {
+    this.mode = this.configService.get<AnswerDetectionMode>(
+      'ANSWER_DETECTION_MODE',
+      AnswerDetectionMode.OVERRIDE,
+    );
+  }
+
+  isEnabled(): boolean {
+    return this.mode !== AnswerDetectionMode.OFF;
+  }
+
+  /**
+   * Compare each question's answer with the option that is visually
+   * emphasised on the page, and override or flag it depending on the mode
+   */
+  apply(
+    questions: ExtractedQuestion[],
+    spans: EmphasisedSpan[],
+  ): ExtractedQuestion[] {
+    if (!this.isEnabled() || spans.length === 0) {
+      return questions;
+    }
+
+    for (const question of questions) {
+      const detected = this.findEmphasisedOption(question, spans);
+      if (!detected) {
+        continue;
+      }
+
+      const modelAnswer = question.correctAnswer;
+      const agreed = detected.answer === modelAnswer?.toUpperCase();
+      const overridden = !agreed && this.mode === AnswerDetectionMode.OVERRIDE;
+
+      if (overridden) {
+        question.correctAnswer = detected.answer;
+        this.logger.log(
+          `Emphasised option ${detected.answer} overrides model answer ${modelAnswer}`,
+        );
+      } else if (!agreed) {
+        question.confidence = Math.min(
+          question.confidence,
+          DISPUTED_CONFIDENCE,
+        );
+      }
+
+      const answerDetection: AnswerDetection = {
+        detectedAnswer: detected.answer,
+        modelAnswer,
+        signals: detected.signals,
+        agreed,
+        overridden,
+      };
+      question.answerDetection = answerDetection;
+    }
+
+    return questions;
+  }
+
+  /**
+   * The single option whose text is emphasised; null when none or several are
+   */
+  private findEmphasisedOption(
+    question: ExtractedQuestion,
+    spans: EmphasisedSpan[],
+  ): { answer: string; signals: EmphasisSignal[] } | null {
+    const matches: Array<{ answer: string; signals: EmphasisSignal[] }> = [];
+
+    for (const letter of QUESTION_ANSWER_OPTIONS) {
+      const option = this.normalize(question.options?.[letter] ?? '');
+      if (option.length < 2) {
+        continue;
+      }
+
+      const signals = new Set<EmphasisSignal>();
+      for (const span of spans) {
+        if (this.matchesOption(this.normalize(span.text), option)) {
+          span.signals.forEach((signal) => signals.add(signal));
+        }
+      }
+      if (signals.size > 0) {
+        matches.push({ answer: letter, signals: [...signals] });
+      }
+    }
+
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  private matchesOption(span: string, option: string): boolean {
+    if (span.length < 2) {
+      return false;
+    }
+    if (span === option) {
+      return true;
+    }
+
+    // Emphasis may cover part of an option, or an option plus its marker
+    const [shorter, longer] =
+      span.length < option.length ? [span, option] : [option, span];
+    return (
+      shorter.length >= 4 &&
+      shorter.length >= longer.length * 0.7 &&
+      longer.includes(shorter)
+    );
+  }
+
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/^\s*\(?[a-e][.)]\s*/, '')
+      .replace(/[^a-z0-9]+/g, '');
+  }
+}
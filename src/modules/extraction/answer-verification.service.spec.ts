@@ -0,0 +1,114 @@
+import { AnswerVerificationService } from './answer-verification.service';
+import { ExtractedQuestion, OllamaService } from './ollama.service';
+
+function question(
+  correctAnswer: string,
+  overrides: Partial<ExtractedQuestion> = {},
+): ExtractedQuestion {
+  return {
+    question: 'Which drug is given first for a pulmonary embolism?',
+    options: {
+      A: 'Aspirin',
+      B: 'Heparin',
+      C: 'Warfarin',
+      D: 'Alteplase',
+      E: 'Clopidogrel',
+    },
+    correctAnswer,
+    categories: ['Cardiology'],
+    examYear: 2022,
+    intake: 'september',
+    confidence: 0.9,
+    promptVersions: ['extraction@v3'],
+    ...overrides,
+  };
+}
+
+describe('AnswerVerificationService', () => {
+  let answerBlind: jest.Mock;
+  let verification: AnswerVerificationService;
+
+  beforeEach(() => {
+    answerBlind = jest.fn().mockResolvedValue({
+      model: 'verifier',
+      answer: 'B',
+      confidence: 0.8,
+      promptVersion: 'verification@v1',
+    });
+    verification = new AnswerVerificationService({
+      answerBlind,
+    } as unknown as OllamaService);
+  });
+
+  describe('apply', () => {
+    it('records agreement without touching the confidence', async () => {
+      const agreed = question('b');
+
+      await expect(verification.apply([agreed])).resolves.toBe(0);
+
+      expect(agreed).toMatchObject({
+        confidence: 0.9,
+        answerDisputed: false,
+        answerVerification: {
+          model: 'verifier',
+          answer: 'B',
+          extractedAnswer: 'B',
+          agreed: true,
+          confidence: 0.8,
+        },
+        promptVersions: ['extraction@v3', 'verification@v1'],
+      });
+    });
+
+    it('flags a disputed answer and caps its confidence', async () => {
+      const disputed = question('C');
+      const unsure = question('D', { confidence: 0.4 });
+
+      await expect(verification.apply([disputed, unsure])).resolves.toBe(2);
+
+      expect(disputed).toMatchObject({
+        correctAnswer: 'C',
+        confidence: 0.5,
+        answerDisputed: true,
+        answerVerification: {
+          answer: 'B',
+          extractedAnswer: 'C',
+          agreed: false,
+        },
+      });
+      // Already below the cap
+      expect(unsure.confidence).toBe(0.4);
+    });
+
+    it('leaves answers read from the page to the page', async () => {
+      const detection = {
+        detectedAnswer: 'C',
+        modelAnswer: 'C',
+        signals: [],
+        agreed: true,
+        overridden: false,
+      };
+      const agreed = question('C', { answerDetection: detection });
+      const overridden = question('C', {
+        answerDetection: { ...detection, agreed: false, overridden: true },
+      });
+
+      await expect(verification.apply([agreed, overridden])).resolves.toBe(0);
+
+      expect(answerBlind).not.toHaveBeenCalled();
+      expect(agreed.answerDisputed).toBeUndefined();
+      expect(overridden.confidence).toBe(0.9);
+    });
+
+    it('leaves a question alone when the verifier gave no answer', async () => {
+      answerBlind.mockResolvedValue(null);
+      const unverified = question('C');
+
+      await expect(verification.apply([unverified], 'other')).resolves.toBe(0);
+
+      expect(answerBlind).toHaveBeenCalledWith(unverified, 'other', undefined);
+      expect(unverified).toMatchObject({ confidence: 0.9 });
+      expect(unverified.answerVerification).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CancellationToken } from './cancellation-token';
+import { ExtractedQuestion, OllamaService } from './ollama.service';
+
+// Confidence cap for questions the verifier answers differently
+const DISPUTED_CONFIDENCE = 0.5;
+
+@Injectable()
+export class AnswerVerificationService {
+  private readonly logger = new Logger(AnswerVerificationService.name);
+
+  constructor(private readonly ollamaService: OllamaService) {}
+
+  /**
+   * Have a model answer each question blind and flag the questions whose extracted
+   * answer it disagrees with. Answers read from emphasis on the page are left alone,
+   * since the page is a better witness than a second model.
+   * @param model Model to verify with instead of the verification task's default
+   * @returns How many answers the verifier disputed
+   */
+  async apply(
+    questions: ExtractedQuestion[],
+    model?: string,
+    cancellation?: CancellationToken,
+  ): Promise<number> {
+    let disputed = 0;
+
+    for (const question of questions) {
+      if (
+        question.answerDetection?.agreed ||
+        question.answerDetection?.overridden
+      ) {
+        continue;
+      }
+
+      const verdict = await this.ollamaService.answerBlind(
+        question,
+        model,
+        cancellation,
+      );
+      if (!verdict) {
+        continue;
+      }
+
+      const extractedAnswer = question.correctAnswer.toUpperCase();
+      const agreed = verdict.answer === extractedAnswer;
+      question.answerVerification = {
+        model: verdict.model,
+        answer: verdict.answer,
+        extractedAnswer,
+        agreed,
+        confidence: verdict.confidence,
+      };
+      question.answerDisputed = !agreed;
+      question.promptVersions = [
+        ...(question.promptVersions ?? []),
+        verdict.promptVersion,
+      ];
+
+      if (!agreed) {
+        question.confidence = Math.min(
+          question.confidence,
+          DISPUTED_CONFIDENCE,
+        );
+        disputed++;
+        this.logger.log(
+          `${verdict.model} answered ${verdict.answer} where ${extractedAnswer} was extracted`,
+        );
+      }
+    }
+
+    return disputed;
+  }
+}
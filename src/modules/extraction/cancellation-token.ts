@@ -0,0 +1,33 @@
+import { ExtractionRunStatus } from '@prisma/client';
+
+/**
+ * Thrown from a page job once its run has been stopped or paused, or its pages were
+ * queued again, so the page is abandoned without being recorded or retried
+ */
+export class ExtractionCancelledError extends Error {
+  constructor(
+    readonly runId: string,
+    readonly status: ExtractionRunStatus | null,
+    // The run carries on with a newer batch of page jobs
+    readonly superseded = false,
+  ) {
+    super(
+      superseded
+        ? `Page jobs of extraction run ${runId} were queued again`
+        : `Extraction run ${runId} is no longer processing (status: ${status ?? 'deleted'})`,
+    );
+    this.name = 'ExtractionCancelledError';
+  }
+}
+
+/**
+ * Checked between pages and before every model request of a run. The run's stored
+ * status is the signal, so a stop or pause reaches workers in any process.
+ */
+export interface CancellationToken {
+  /**
+   * @throws ExtractionCancelledError once the run has left PROCESSING or queued its
+   * pages again
+   */
+  throwIfCancelled(): Promise<void>;
+}
@@ -0,0 +1,32 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { ExtractionCandidateStatus } from '../../../common/CONSTANTS';
+import { PaginationDto } from '../../../common/dto';
+
+export class ExtractionCandidateFilterDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by extraction run ID',
+  })
+  @IsOptional()
+  @IsString()
+  runId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by review status',
+    enum: ExtractionCandidateStatus,
+  })
+  @IsOptional()
+  @IsEnum(ExtractionCandidateStatus)
+  status?: ExtractionCandidateStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by the page the candidate was extracted from',
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  pageNumber?: number;
+}
@@ -0,0 +1,72 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import {
+  ExtractionLogEvent,
+  ExtractionLogLevel,
+} from '../../../common/CONSTANTS';
+
+export class ExtractionLogFilterDto {
+  @ApiPropertyOptional({
+    description: 'Lowest level to include; WARN returns warnings and errors',
+    enum: ExtractionLogLevel,
+  })
+  @IsOptional()
+  @IsEnum(ExtractionLogLevel)
+  level?: ExtractionLogLevel;
+
+  @ApiPropertyOptional({
+    description: 'Filter by event type',
+    enum: ExtractionLogEvent,
+  })
+  @IsOptional()
+  @IsEnum(ExtractionLogEvent)
+  event?: ExtractionLogEvent;
+
+  @ApiPropertyOptional({
+    description: 'First page to include entries for',
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  fromPage?: number;
+
+  @ApiPropertyOptional({
+    description: 'Last page to include entries for',
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  toPage?: number;
+
+  @ApiPropertyOptional({
+    description: 'Text the message must contain (case-insensitive)',
+  })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'nextCursor from the previous response',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of entries to return',
+    minimum: 1,
+    maximum: 500,
+    default: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number = 100;
+}
@@ -0,0 +1,20 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ExtractionRunStatus } from '../../../common/CONSTANTS';
+
+export class ExtractionRunFilterDto {
+  @ApiPropertyOptional({
+    description: 'Filter by run status',
+    enum: ExtractionRunStatus,
+  })
+  @IsOptional()
+  @IsEnum(ExtractionRunStatus)
+  status?: ExtractionRunStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by PDF filename',
+  })
+  @IsOptional()
+  @IsString()
+  filename?: string;
+}
@@ -1,3 +1,9 @@
+export * from './extraction-candidate-filter.dto';
+export * from './extraction-log-filter.dto';
+export * from './extraction-run-filter.dto';
 export * from './extraction-status.dto';
+export * from './merge-candidate.dto';
+export * from './preview-extraction.dto';
+export * from './reprocess-pages.dto';
 export * from './return-types.dto';
 export * from './start-extraction.dto';
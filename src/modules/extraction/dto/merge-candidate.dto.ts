@@ -0,0 +1,24 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsArray, IsEnum, IsOptional, IsString } from 'class-validator';
+import { CandidateMergeField } from '../../../common/CONSTANTS';
+
+export class MergeCandidateDto {
+  @ApiPropertyOptional({
+    description:
+      'Question to merge into (default: the question the candidate was matched with)',
+  })
+  @IsOptional()
+  @IsString()
+  questionId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Fields to copy from the candidate (default: every field that differs)',
+    enum: CandidateMergeField,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(CandidateMergeField, { each: true })
+  fields?: CandidateMergeField[];
+}
@@ -0,0 +1,74 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { ExtractionParser, TextLayoutMode } from '../../../common/CONSTANTS';
+
+export class PreviewExtractionDto {
+  @ApiProperty({
+    description: 'PDF filename to preview',
+    example: 'mrcs-questions.pdf',
+  })
+  @IsString()
+  filename: string;
+
+  @ApiProperty({
+    description: 'First page to preview',
+    minimum: 1,
+    example: 1,
+  })
+  @IsNumber()
+  @Min(1)
+  startPage: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Last page to preview (default: startPage). At most 10 pages are previewed per request',
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  endPage?: number;
+
+  @ApiPropertyOptional({
+    description: 'Model to preview with (default: the extraction task model)',
+    example: 'llama3.1',
+  })
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @ApiPropertyOptional({
+    description: 'How page text is rebuilt before it is sent to the model',
+    enum: TextLayoutMode,
+    default: TextLayoutMode.FLAT,
+  })
+  @IsOptional()
+  @IsEnum(TextLayoutMode)
+  layoutMode?: TextLayoutMode;
+
+  @ApiPropertyOptional({
+    description:
+      'How questions are read from page text: llm sends every page to the model, rules parses numbered "stem / A.-E. / Answer:" layouts and only sends unparsed blocks to the model',
+    enum: ExtractionParser,
+    default: ExtractionParser.LLM,
+  })
+  @IsOptional()
+  @IsEnum(ExtractionParser)
+  parser?: ExtractionParser;
+
+  @ApiPropertyOptional({
+    description:
+      'Send every page to the model even if it was answered before with the same prompt and model; the new responses replace the cached ones',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  bypassLlmCache?: boolean;
+}
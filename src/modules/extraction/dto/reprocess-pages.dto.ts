@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class ReprocessPagesDto {
+  @ApiPropertyOptional({
+    description:
+      "Send the pages to the model again instead of replaying cached responses, whatever the run's own bypassLlmCache; the new responses replace the cached ones",
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  bypassLlmCache?: boolean;
+}
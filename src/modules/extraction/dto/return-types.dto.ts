@@ -1,53 +1,210 @@
-export type ListPdfsResponse = string[];
+import {
+  AnswerDetection,
+  AnswerVerification,
+  EnsembleConsensus,
+  ExtractionCandidateStatus,
+  ExtractionLogLevel,
+  ExtractionPageStatus,
+  ExtractionRunStatus,
+  QuestionOptions,
+  QuestionStatus,
+} from '@prisma/client';
+import {
+  CandidateMergeField,
+  ExtractionParser,
+  TextLayoutMode,
+} from '../../../common/CONSTANTS';
+import { PaginatedResponseDto } from '../../../common/dto';
+import { ExtractedQuestion } from '../ollama.service';
+
+export type SourceDocumentSummary = {
+  id: string;
+  filename: string;
+  originalName: string;
+  hash: string;
+  fileSize: number;
+  totalPages: number;
+  uploadedAt: string;
+  lastExtractionStatus: string | null;
+  lastExtractionAt: string | null;
+  questionsProduced: number;
+};
+
+export type ListPdfsResponse = SourceDocumentSummary[];
+
+export type UploadPdfResponse = SourceDocumentSummary;
 
 export type StartExtractionResponse = {
   message: string;
-  extractionId: string;
+  runId: string;
 };
 
 export type StopExtractionResponse = { message: string };
 
-export type ExtractionStatusResponse = {
-  status: 'idle' | 'processing' | 'completed' | 'failed' | 'stopped';
-  selectedPdf: string;
-  progress: number;
+export type PauseExtractionResponse = { message: string };
+
+export type ExtractionRunSummary = {
+  id: string;
+  status: ExtractionRunStatus;
+  filename: string;
+  model: string | null;
+  ensembleModels: string[];
+  startPage: number;
+  endPage: number | null;
+  maxPages: number | null;
+  overwrite: boolean;
+  layoutMode: TextLayoutMode;
+  parser: ExtractionParser;
+  bypassLlmCache: boolean;
+  verifyAnswers: boolean;
+  verificationModel: string | null;
   totalPages: number;
   processedPages: number;
-  failedPages: number[];
-  logs: string[];
-  startTime?: string;
-  endTime?: string;
-  error?: string;
+  lastProcessedPage: number;
+  progress: number;
   extractedQuestions: number;
-  questionsPerPage: Record<number, number>;
   verifiedQuestions: number;
   updatedQuestions: number;
   skippedQuestions: number;
+  failedPages: number[];
+  pendingPages: number;
+  error: string | null;
+  duration: number;
+  queuedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type ExtractionRunDetail = ExtractionRunSummary & {
+  questionsPerPage: Record<number, number>;
+  pageExtractionMethods: Record<number, string>;
+  logs: string[];
+};
+
+export type ListExtractionRunsResponse = ExtractionRunSummary[];
+
+export type ExtractionPageRecord = {
+  pageNumber: number;
+  status: ExtractionPageStatus;
+  textLength: number;
+  extractionMethod: string | null;
+  textConfidence: number | null;
+  llmLatencyMs: number | null;
+  rawResponse: string | null;
+  schemaViolations: string[];
+  responseRepaired: boolean;
+  parsedQuestions: number;
+  createdQuestions: number;
+  updatedQuestions: number;
+  verifiedQuestions: number;
+  skippedQuestions: number;
+  error: string | null;
+  attempts: number;
+  processedAt: string;
+};
+
+export type ListExtractionPagesResponse = ExtractionPageRecord[];
+
+export type ExtractionLogRecord = {
+  id: string;
+  level: ExtractionLogLevel;
+  event: string;
+  message: string;
+  pageNumber: number | null;
+  questionId: string | null;
+  payload: unknown;
+  createdAt: string;
 };
 
-export type GetLogsResponse = { logs: string[] };
+export type ListExtractionLogsResponse = {
+  data: ExtractionLogRecord[];
+  // Pass as cursor to get the entries after these; null once there are none
+  nextCursor: string | null;
+};
+
+export type PreviewQuestion = {
+  question: ExtractedQuestion;
+  valid: boolean;
+  issues: string[];
+};
+
+export type PreviewPage = {
+  pageNumber: number;
+  extractionMethod: string | null;
+  textConfidence: number | null;
+  text: string;
+  rawResponse: string | null;
+  llmLatencyMs: number | null;
+  schemaViolations: string[];
+  responseRepaired: boolean;
+  parsedQuestions: number;
+  questions: PreviewQuestion[];
+  error: string | null;
+};
+
+export type ExtractionPreviewResponse = {
+  filename: string;
+  model: string;
+  layoutMode: TextLayoutMode;
+  parser: ExtractionParser;
+  pages: PreviewPage[];
+};
+
+export type ExtractionCandidateRecord = {
+  id: string;
+  runId: string;
+  pageNumber: number;
+  status: ExtractionCandidateStatus;
+  question: string;
+  options: QuestionOptions;
+  correctAnswer: string;
+  explanation: string | null;
+  categories: string[];
+  year: number;
+  intake: string;
+  confidence: number;
+  sourceFile: string;
+  sourcePages: number[];
+  aiModel: string | null;
+  answerDetection: AnswerDetection | null;
+  consensus: EnsembleConsensus | null;
+  answerDisputed: boolean;
+  answerVerification: AnswerVerification | null;
+  imageIds: string[];
+  promptVersions: string[];
+  matchedQuestionId: string | null;
+  matchScore: number | null;
+  questionId: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+};
+
+export type ListExtractionCandidatesResponse =
+  PaginatedResponseDto<ExtractionCandidateRecord>;
+
+export type CandidateFieldDiff = {
+  field: CandidateMergeField;
+  candidate: unknown;
+  existing: unknown;
+};
+
+export type ExtractionCandidateDiffResponse = {
+  candidate: ExtractionCandidateRecord;
+  matchedQuestion: {
+    id: string;
+    status: QuestionStatus;
+    question: string;
+  } | null;
+  differences: CandidateFieldDiff[];
+};
+
+export type ReviewCandidateResponse = ExtractionCandidateRecord;
 
 export type QueueStatusResponse = {
   waiting: number;
   active: number;
+  // Page jobs waiting out their backoff before a retry
+  delayed: number;
   completed: number;
   failed: number;
 };
-
-export type StatisticsResponse = {
-  status: string;
-  selectedPdf: string;
-  progress: number;
-  processedPages: number;
-  totalPages: number;
-  failedPages: number[];
-  extractedQuestions: number;
-  verifiedQuestions: number;
-  updatedQuestions: number;
-  skippedQuestions: number;
-  questionsPerPage: Record<number, number>;
-  duration: number;
-  startTime: string | null;
-  endTime: string | null;
-  error: string | null;
-};
@@ -1,12 +1,17 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
   IsBoolean,
+  IsEnum,
   IsNumber,
   IsOptional,
   IsString,
   Max,
   Min,
 } from 'class-validator';
+import { ExtractionParser, TextLayoutMode } from '../../../common/CONSTANTS';
 
 export class StartExtractionDto {
   @ApiProperty({
@@ -49,13 +54,27 @@ export class StartExtractionDto {
   overwrite?: boolean;
 
   @ApiPropertyOptional({
-    description: 'Ollama model to use for extraction',
+    description:
+      'Model to use for extraction (default: the extraction task model)',
     default: 'llama3.1',
   })
   @IsOptional()
   @IsString()
   model?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Run every page through each of these models and settle answers and categories by vote, with confidence from how many models agreed; replaces model. Ties go to the earlier model. Only for the llm parser.',
+    type: [String],
+    example: ['llama3.1', 'mistral'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayUnique()
+  @IsString({ each: true })
+  ensembleModels?: string[];
+
   @ApiPropertyOptional({
     description: 'Starting page number',
     minimum: 1,
@@ -65,4 +84,51 @@ export class StartExtractionDto {
   @IsNumber()
   @Min(1)
   startPage?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'How page text is rebuilt before it is sent to the model: flat joins all text items, layout keeps lines, columns and option lines',
+    enum: TextLayoutMode,
+    default: TextLayoutMode.FLAT,
+  })
+  @IsOptional()
+  @IsEnum(TextLayoutMode)
+  layoutMode?: TextLayoutMode;
+
+  @ApiPropertyOptional({
+    description:
+      'How questions are read from page text: llm sends every page to the model, rules parses numbered "stem / A.-E. / Answer:" layouts and only sends unparsed blocks to the model',
+    enum: ExtractionParser,
+    default: ExtractionParser.LLM,
+  })
+  @IsOptional()
+  @IsEnum(ExtractionParser)
+  parser?: ExtractionParser;
+
+  @ApiPropertyOptional({
+    description:
+      'Send every page to the model even if it was answered before with the same prompt and model; the new responses replace the cached ones',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  bypassLlmCache?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Have a model answer each extracted question without seeing the extracted answer; questions it answers differently are flagged as disputed, get a lower confidence and are never auto-approved',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  verifyAnswers?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Model that answers the questions when verifyAnswers is set; a different model from the extraction one catches more of its mistakes. Defaults to the verification task model (LLM_VERIFICATION_MODEL).',
+    example: 'mistral',
+  })
+  @IsOptional()
+  @IsString()
+  verificationModel?: string;
 }
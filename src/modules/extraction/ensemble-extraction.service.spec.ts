@@ -0,0 +1,192 @@
+import { EnsembleExtractionService } from './ensemble-extraction.service';
+import {
+  ExtractedQuestion,
+  OllamaService,
+  QuestionExtractionResult,
+} from './ollama.service';
+
+const EMBOLISM = 'Which drug is given first for a pulmonary embolism?';
+const COX = 'Which drug is an irreversible COX inhibitor?';
+
+function question(
+  stem: string,
+  correctAnswer: string,
+  categories: string[] = ['Cardiology'],
+): ExtractedQuestion {
+  return {
+    question: stem,
+    options: {
+      A: 'Aspirin',
+      B: 'Heparin',
+      C: 'Warfarin',
+      D: 'Alteplase',
+      E: 'Clopidogrel',
+    },
+    correctAnswer,
+    categories,
+    examYear: 2022,
+    intake: 'september',
+    confidence: 0.9,
+  };
+}
+
+/**
+ * Extract a page with an ensemble whose models answer with the given questions
+ */
+function extract(
+  answers: Record<string, ExtractedQuestion[]>,
+): Promise<QuestionExtractionResult> {
+  const ollamaService = {
+    extractQuestionsWithDetails: (
+      _text: string,
+      _pageNumber: number,
+      _source: unknown,
+      model: string,
+    ): Promise<QuestionExtractionResult> =>
+      Promise.resolve({
+        questions: answers[model],
+        parsedCount: answers[model].length,
+        rawResponse: `{"model":"${model}"}`,
+        latencyMs: 100,
+        schemaViolations: [],
+        repaired: false,
+      }),
+  } as unknown as OllamaService;
+
+  return new EnsembleExtractionService(ollamaService).extract(
+    'page text',
+    1,
+    Object.keys(answers),
+  );
+}
+
+describe('EnsembleExtractionService', () => {
+  describe('extract', () => {
+    it('settles a question on the majority answer and categories', async () => {
+      const { questions } = await extract({
+        m1: [question(EMBOLISM, 'B')],
+        m2: [
+          question('Which drug is given first for pulmonary embolism?', 'b'),
+        ],
+        m3: [question(EMBOLISM, 'C', ['Pharmacology'])],
+      });
+
+      expect(questions).toHaveLength(1);
+      expect(questions[0]).toMatchObject({
+        question: EMBOLISM,
+        correctAnswer: 'B',
+        categories: ['Cardiology'],
+        confidence: 0.73,
+        consensus: {
+          models: ['m1', 'm2', 'm3'],
+          model: 'm1',
+          agreement: 0.67,
+          unanimous: false,
+        },
+      });
+      expect(questions[0].consensus?.votes).toEqual([
+        {
+          model: 'm1',
+          found: true,
+          correctAnswer: 'B',
+          categories: ['Cardiology'],
+          similarity: 1,
+        },
+        {
+          model: 'm2',
+          found: true,
+          correctAnswer: 'b',
+          categories: ['Cardiology'],
+          similarity: 0.89,
+        },
+        {
+          model: 'm3',
+          found: true,
+          correctAnswer: 'C',
+          categories: ['Pharmacology'],
+          similarity: 1,
+        },
+      ]);
+    });
+
+    it('keeps the wording of the first model that chose the settled answer', async () => {
+      const { questions } = await extract({
+        m1: [question(EMBOLISM, 'C')],
+        m2: [
+          question('Which drug is given first for pulmonary embolism?', 'B'),
+        ],
+        m3: [question(EMBOLISM, 'B')],
+      });
+
+      expect(questions[0]).toMatchObject({
+        question: 'Which drug is given first for pulmonary embolism?',
+        correctAnswer: 'B',
+        consensus: { model: 'm2' },
+      });
+    });
+
+    it('breaks a tied vote in favour of the earlier model', async () => {
+      const { questions } = await extract({
+        m1: [question(EMBOLISM, 'A')],
+        m2: [question(EMBOLISM, 'D')],
+      });
+
+      expect(questions[0]).toMatchObject({
+        correctAnswer: 'A',
+        consensus: { model: 'm1', agreement: 0.5 },
+      });
+    });
+
+    it('counts models that missed a question against it', async () => {
+      const { questions } = await extract({
+        m1: [question(EMBOLISM, 'B')],
+        m2: [question(EMBOLISM, 'B'), question(COX, 'A')],
+        m3: [question(EMBOLISM, 'B')],
+      });
+
+      expect(questions.map((q) => q.question)).toEqual([EMBOLISM, COX]);
+      expect(questions[0]).toMatchObject({
+        confidence: 0.95,
+        consensus: { agreement: 1, unanimous: true },
+      });
+      expect(questions[1]).toMatchObject({
+        confidence: 0.52,
+        consensus: { model: 'm2', agreement: 0.33, unanimous: false },
+      });
+      expect(questions[1].consensus?.votes[0]).toEqual({
+        model: 'm1',
+        found: false,
+        correctAnswer: null,
+        categories: [],
+        similarity: null,
+      });
+    });
+
+    it('puts at most one question of a model in a group, the earliest that matches', async () => {
+      const { questions } = await extract({
+        m1: [question(EMBOLISM, 'B'), question(EMBOLISM, 'C')],
+        m2: [question(EMBOLISM, 'B')],
+      });
+
+      expect(questions).toHaveLength(2);
+      expect(questions[0].consensus?.agreement).toBe(1);
+      expect(questions[1]).toMatchObject({
+        correctAnswer: 'C',
+        consensus: { agreement: 0.5 },
+      });
+    });
+
+    it("combines the models' responses for the page record", async () => {
+      const result = await extract({
+        m1: [question(EMBOLISM, 'B')],
+        m2: [question(EMBOLISM, 'B')],
+      });
+
+      expect(result).toMatchObject({
+        parsedCount: 2,
+        latencyMs: 200,
+        rawResponse: '=== m1 ===\n{"model":"m1"}\n\n=== m2 ===\n{"model":"m2"}',
+      });
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ResolvedSource } from '../source-profiles/source-profiles.service';
+import { CancellationToken } from './cancellation-token';
+import {
+  EnsembleVote,
+  ExtractedQuestion,
+  OllamaService,
+  QuestionExtractionResult,
+} from './ollama.service';
+
+// Stems at least this similar are taken to be the same question
+const ALIGNMENT_THRESHOLD = 0.6;
+
+// Confidence of a question no other model backs, and of a unanimous one
+const MIN_CONFIDENCE = 0.3;
+const MAX_CONFIDENCE = 0.95;
+
+// Share of the confidence that comes from the answer vote; the category vote makes up the rest
+const ANSWER_WEIGHT = 0.8;
+
+interface ModelQuestion {
+  model: string;
+  question: ExtractedQuestion;
+}
+
+@Injectable()
+export class EnsembleExtractionService {
+  private readonly logger = new Logger(EnsembleExtractionService.name);
+
+  constructor(private readonly ollamaService: OllamaService) {}
+
+  /**
+   * Extract a page with every model and settle each question's answer and categories
+   * by vote. The models run one after another, since Ollama answers one request at a
+   * time unless it has room to keep several models loaded.
+   * @param models Ensemble in order of preference; ties go to the earlier model
+   */
+  async extract(
+    text: string,
+    pageNumber: number,
+    models: string[],
+    source?: ResolvedSource,
+    bypassCache = false,
+    cancellation?: CancellationToken,
+  ): Promise<QuestionExtractionResult> {
+    const results: QuestionExtractionResult[] = [];
+    for (const model of models) {
+      results.push(
+        await this.ollamaService.extractQuestionsWithDetails(
+          text,
+          pageNumber,
+          source,
+          model,
+          bypassCache,
+          cancellation,
+        ),
+      );
+    }
+
+    const questions = this.align(
+      models,
+      results.map((result) => result.questions),
+    ).map((group) => this.settle(models, group));
+
+    const unanimous = questions.filter(
+      (question) => question.consensus?.unanimous,
+    ).length;
+    this.logger.log(
+      `Page ${pageNumber}: ${models.length} models agreed on ${unanimous} of ${questions.length} questions`,
+    );
+
+    return {
+      questions,
+      parsedCount: results.reduce((sum, result) => sum + result.parsedCount, 0),
+      rawResponse: results
+        .map(
+          (result, index) => `=== ${models[index]} ===\n${result.rawResponse}`,
+        )
+        .join('\n\n'),
+      latencyMs: results.reduce((sum, result) => sum + result.latencyMs, 0),
+      schemaViolations: results.flatMap((result, index) =>
+        result.schemaViolations.map(
+          (violation) => `${models[index]}: ${violation}`,
+        ),
+      ),
+      repaired: results.some((result) => result.repaired),
+    };
+  }
+
+  /**
+   * Group the models' questions by stem similarity, with at most one question per model
+   * in a group. Groups keep the order of the first model that found them.
+   */
+  private align(
+    models: string[],
+    extracted: ExtractedQuestion[][],
+  ): ModelQuestion[][] {
+    const groups: ModelQuestion[][] = [];
+
+    extracted.forEach((questions, index) => {
+      const model = models[index];
+      for (const question of questions) {
+        let bestGroup: ModelQuestion[] | null = null;
+        let bestScore = 0;
+        for (const group of groups) {
+          if (group.some((member) => member.model === model)) {
+            continue;
+          }
+          const score = this.similarity(
+            group[0].question.question,
+            question.question,
+          );
+          // Equally similar stems go to the earlier group
+          if (score >= ALIGNMENT_THRESHOLD && score > bestScore) {
+            bestGroup = group;
+            bestScore = score;
+          }
+        }
+
+        if (bestGroup) {
+          bestGroup.push({ model, question });
+        } else {
+          groups.push([{ model, question }]);
+        }
+      }
+    });
+
+    return groups;
+  }
+
+  /**
+   * One question from a group: the majority answer and categories, worded as the first
+   * model that chose that answer worded it, with a confidence from how many models agreed
+   */
+  private settle(models: string[], group: ModelQuestion[]): ExtractedQuestion {
+    const answer = this.majority(
+      group.map((member) => member.question.correctAnswer.toUpperCase()),
+    );
+    const backers = group.filter(
+      (member) => member.question.correctAnswer.toUpperCase() === answer,
+    );
+    const base = backers[0];
+    const categories = this.settleCategories(group, base);
+
+    const votes: EnsembleVote[] = models.map((model) => {
+      const member = group.find((entry) => entry.model === model);
+      return member
+        ? {
+            model,
+            found: true,
+            correctAnswer: member.question.correctAnswer,
+            categories: member.question.categories,
+            similarity: this.round(
+              this.similarity(base.question.question, member.question.question),
+            ),
+          }
+        : {
+            model,
+            found: false,
+            correctAnswer: null,
+            categories: [],
+            similarity: null,
+          };
+    });
+
+    // Models that missed the question count against it, like a different answer
+    const agreement = backers.length / models.length;
+    const categoryAgreement =
+      group.filter((member) =>
+        this.sameCategories(member.question.categories, categories),
+      ).length / models.length;
+
+    return {
+      ...base.question,
+      correctAnswer: answer,
+      categories,
+      confidence: this.round(
+        MIN_CONFIDENCE +
+          (MAX_CONFIDENCE - MIN_CONFIDENCE) *
+            (ANSWER_WEIGHT * agreement +
+              (1 - ANSWER_WEIGHT) * categoryAgreement),
+      ),
+      consensus: {
+        models,
+        model: base.model,
+        agreement: this.round(agreement),
+        unanimous: agreement === 1 && categoryAgreement === 1,
+        votes,
+      },
+    };
+  }
+
+  // Most common value; a tie goes to the value that appears first
+  private majority(values: string[]): string {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+
+    let winner = values[0];
+    for (const [value, count] of counts) {
+      if (count > (counts.get(winner) ?? 0)) {
+        winner = value;
+      }
+    }
+    return winner;
+  }
+
+  // Categories chosen by more than half of the models that found the question
+  private settleCategories(
+    group: ModelQuestion[],
+    base: ModelQuestion,
+  ): string[] {
+    const counts = new Map<string, number>();
+    for (const member of group) {
+      for (const category of new Set(member.question.categories)) {
+        counts.set(category, (counts.get(category) ?? 0) + 1);
+      }
+    }
+
+    const settled = [...counts]
+      .filter(([, count]) => count * 2 > group.length)
+      .map(([category]) => category);
+    return settled.length > 0 ? settled : base.question.categories;
+  }
+
+  private sameCategories(a: string[], b: string[]): boolean {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    return setA.size === setB.size && [...setA].every((item) => setB.has(item));
+  }
+
+  // Shared words over all words of the two stems
+  private similarity(a: string, b: string): number {
+    const wordsA = this.words(a);
+    const wordsB = this.words(b);
+    if (wordsA.size === 0 || wordsB.size === 0) {
+      return 0;
+    }
+
+    const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+    return shared / (wordsA.size + wordsB.size - shared);
+  }
+
+  private words(text: string): Set<string> {
+    return new Set(
+      text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean),
+    );
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,103 @@
+import { ExtractionCandidate, ExtractionCandidateStatus } from '@prisma/client';
+import { PrismaService } from '../../common/services/prisma.service';
+import { CategoriesService } from '../categories/categories.service';
+import { IntakesService } from '../intakes/intakes.service';
+import { QuestionImagesService } from '../questions/question-images.service';
+import { QuestionsService } from '../questions/questions.service';
+import { ExtractionCandidatesService } from './extraction-candidates.service';
+import { SourceDocumentsService } from './source-documents.service';
+
+// The real module loads pdfjs, which the unit tests cannot import
+jest.mock('./source-documents.service', () => ({
+  SourceDocumentsService: class {},
+}));
+
+const candidate = {
+  id: 'candidate-1',
+  status: ExtractionCandidateStatus.PENDING,
+  question: 'Which drug is given first for a pulmonary embolism?',
+  options: {
+    A: 'Aspirin',
+    B: 'Heparin',
+    C: 'Warfarin',
+    D: 'Alteplase',
+    E: 'Clopidogrel',
+  },
+  correctAnswer: 'B',
+  categories: ['pathology'],
+  year: 2022,
+  intake: 'september',
+  confidence: 0.9,
+  sourceFile: 'questions.pdf',
+  sourcePages: [1],
+  imageIds: ['image-1'],
+  promptVersions: [],
+  createdAt: new Date(),
+} as unknown as ExtractionCandidate;
+
+describe('ExtractionCandidatesService', () => {
+  let candidateUpdates: jest.Mock;
+  let imageUpdates: jest.Mock;
+  let removeQuestion: jest.Mock;
+  let attach: jest.Mock;
+  let candidates: ExtractionCandidatesService;
+
+  beforeEach(() => {
+    candidateUpdates = jest.fn().mockResolvedValue({ count: 1 });
+    imageUpdates = jest.fn().mockResolvedValue({ count: 1 });
+    removeQuestion = jest.fn().mockResolvedValue(true);
+    attach = jest.fn().mockResolvedValue(1);
+
+    candidates = new ExtractionCandidatesService(
+      {
+        extractionCandidate: {
+          findUnique: jest.fn().mockResolvedValue(candidate),
+          updateMany: candidateUpdates,
+          update: jest.fn(({ data }) =>
+            Promise.resolve({ ...candidate, ...data }),
+          ),
+        },
+        questionImage: { updateMany: imageUpdates },
+      } as unknown as PrismaService,
+      {
+        create: jest.fn().mockResolvedValue({ id: 'question-1' }),
+        remove: removeQuestion,
+      } as unknown as QuestionsService,
+      {
+        findByName: jest.fn().mockResolvedValue({ id: 'category-1' }),
+      } as unknown as CategoriesService,
+      {
+        findByName: jest.fn().mockResolvedValue({ id: 'intake-1' }),
+      } as unknown as IntakesService,
+      {
+        incrementQuestionsProduced: jest
+          .fn()
+          .mockRejectedValue(new Error('write conflict')),
+      } as unknown as SourceDocumentsService,
+      { attach } as unknown as QuestionImagesService,
+    );
+  });
+
+  describe('accept', () => {
+    it('removes the new question when the accept fails after creating it', async () => {
+      await expect(candidates.accept(candidate.id)).rejects.toThrow(
+        'write conflict',
+      );
+
+      expect(attach).toHaveBeenCalledWith(['image-1'], 'question-1');
+      // The images are free to attach again and the question is gone
+      expect(imageUpdates).toHaveBeenCalledWith({
+        where: { id: { in: ['image-1'] }, questionId: 'question-1' },
+        data: { questionId: null },
+      });
+      expect(removeQuestion).toHaveBeenCalledWith('question-1');
+      expect(candidateUpdates).toHaveBeenLastCalledWith({
+        where: {
+          id: candidate.id,
+          status: ExtractionCandidateStatus.ACCEPTED,
+        },
+        data: { status: ExtractionCandidateStatus.PENDING },
+      });
+    });
+  });
+});
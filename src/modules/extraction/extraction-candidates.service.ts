@@ -0,0 +1,609 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ExtractionCandidate,
+  ExtractionCandidateStatus,
+  ExtractionRun,
+  Question,
+} from '@prisma/client';
+import { CandidateMergeField, QuestionStatus } from '../../common/CONSTANTS';
+import { PaginatedResponseDto } from '../../common/dto';
+import { PrismaService } from '../../common/services/prisma.service';
+import { CategoriesService } from '../categories/categories.service';
+import { IntakesService } from '../intakes/intakes.service';
+import { UpdateQuestionDto } from '../questions/dto';
+import { QuestionWithRelations } from '../questions/dto/return-types.dto';
+import { QuestionImagesService } from '../questions/question-images.service';
+import { QuestionsService } from '../questions/questions.service';
+import {
+  CandidateFieldDiff,
+  ExtractionCandidateDiffResponse,
+  ExtractionCandidateFilterDto,
+  ExtractionCandidateRecord,
+  MergeCandidateDto,
+} from './dto';
+import { ExtractedQuestion } from './ollama.service';
+import { SourceDocumentsService } from './source-documents.service';
+
+export interface CandidateMatch {
+  questionId: string;
+  score: number;
+}
+
+@Injectable()
+export class ExtractionCandidatesService {
+  private readonly logger = new Logger(ExtractionCandidatesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly questionsService: QuestionsService,
+    private readonly categoriesService: CategoriesService,
+    private readonly intakesService: IntakesService,
+    private readonly sourceDocumentsService: SourceDocumentsService,
+    private readonly questionImagesService: QuestionImagesService,
+  ) {}
+
+  /**
+   * Store an extracted question for review
+   * @param match Existing question the candidate looks like, if any
+   */
+  async stage(
+    run: ExtractionRun,
+    pageNumber: number,
+    extractedQuestion: ExtractedQuestion,
+    aiModel: string,
+    match: CandidateMatch | null,
+  ): Promise<ExtractionCandidate> {
+    // Image records stay unattached until the candidate is reviewed
+    const imageIds: string[] = [];
+    for (const image of extractedQuestion.images ?? []) {
+      const record = await this.questionImagesService.create({
+        ...image,
+        sourceFile: run.filename,
+        pageNumber,
+      });
+      imageIds.push(record.id);
+    }
+
+    return this.prisma.extractionCandidate.create({
+      data: {
+        runId: run.id,
+        pageNumber,
+        question: extractedQuestion.question,
+        options: extractedQuestion.options,
+        correctAnswer: extractedQuestion.correctAnswer,
+        explanation: extractedQuestion.explanation,
+        categories: extractedQuestion.categories,
+        year: extractedQuestion.examYear,
+        intake: extractedQuestion.intake,
+        confidence: extractedQuestion.confidence,
+        sourceFile: run.filename,
+        sourcePages: extractedQuestion.sourcePages ?? [pageNumber],
+        aiModel,
+        answerDetection: extractedQuestion.answerDetection,
+        consensus: extractedQuestion.consensus,
+        answerDisputed: extractedQuestion.answerDisputed ?? false,
+        answerVerification: extractedQuestion.answerVerification,
+        imageIds,
+        promptVersions: extractedQuestion.promptVersions ?? [],
+        matchedQuestionId: match?.questionId,
+        matchScore: match?.score,
+      },
+    });
+  }
+
+  /**
+   * Drop unreviewed candidates of a page before it is extracted again
+   */
+  async clearPending(runId: string, pageNumber: number): Promise<number> {
+    const where = {
+      runId,
+      pageNumber,
+      status: ExtractionCandidateStatus.PENDING,
+    };
+    const pending = await this.prisma.extractionCandidate.findMany({
+      where,
+      select: { imageIds: true },
+    });
+    await this.questionImagesService.removeUnattached(
+      pending.flatMap((candidate) => candidate.imageIds),
+    );
+
+    const { count } = await this.prisma.extractionCandidate.deleteMany({
+      where,
+    });
+    return count;
+  }
+
+  async findAll(
+    filter: ExtractionCandidateFilterDto = {},
+  ): Promise<PaginatedResponseDto<ExtractionCandidateRecord>> {
+    const { page = 1, limit = 10, runId, status, pageNumber } = filter;
+    const where = {
+      ...(runId && { runId }),
+      ...(status && { status }),
+      ...(pageNumber && { pageNumber }),
+    };
+
+    const [candidates, total] = await Promise.all([
+      this.prisma.extractionCandidate.findMany({
+        where,
+        orderBy: [{ pageNumber: 'asc' }, { createdAt: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.extractionCandidate.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      success: true,
+      data: candidates.map((candidate) => this.toRecord(candidate)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  async findOne(id: string): Promise<ExtractionCandidate> {
+    const candidate = await this.prisma.extractionCandidate.findUnique({
+      where: { id },
+    });
+
+    if (!candidate) {
+      throw new NotFoundException(`Extraction candidate ${id} not found`);
+    }
+
+    return candidate;
+  }
+
+  /**
+   * Compare a candidate with the existing question it was matched with
+   */
+  async getDiff(id: string): Promise<ExtractionCandidateDiffResponse> {
+    const candidate = await this.findOne(id);
+    const matchedQuestion = candidate.matchedQuestionId
+      ? await this.questionsService.findOne(candidate.matchedQuestionId)
+      : null;
+
+    return {
+      candidate: this.toRecord(candidate),
+      matchedQuestion: matchedQuestion && {
+        id: matchedQuestion.id,
+        status: matchedQuestion.status,
+        question: matchedQuestion.question,
+      },
+      differences: matchedQuestion
+        ? this.buildDiff(candidate, matchedQuestion)
+        : [],
+    };
+  }
+
+  /**
+   * Add a candidate to the question bank as a new question
+   */
+  async accept(id: string): Promise<ExtractionCandidateRecord> {
+    const candidate = await this.findOne(id);
+    this.assertPending(candidate);
+
+    return this.review(
+      candidate,
+      ExtractionCandidateStatus.ACCEPTED,
+      async () => {
+        const question = await this.createNewQuestion(candidate);
+        try {
+          await this.questionImagesService.attach(
+            candidate.imageIds,
+            question.id,
+          );
+          await this.sourceDocumentsService.incrementQuestionsProduced(
+            candidate.sourceFile,
+          );
+        } catch (error) {
+          // The candidate goes back to pending, so its question must go too
+          await this.undoCreatedQuestion(question.id, candidate.imageIds);
+          throw error;
+        }
+        return question.id;
+      },
+    );
+  }
+
+  /**
+   * Copy fields of a candidate onto an existing question
+   */
+  async merge(
+    id: string,
+    mergeDto: MergeCandidateDto = {},
+  ): Promise<ExtractionCandidateRecord> {
+    const candidate = await this.findOne(id);
+    this.assertPending(candidate);
+
+    const questionId = mergeDto.questionId ?? candidate.matchedQuestionId;
+    if (!questionId) {
+      throw new BadRequestException(
+        `Extraction candidate ${id} has no matched question to merge into`,
+      );
+    }
+
+    const question = await this.questionsService.findOne(questionId);
+    if (!question) {
+      throw new NotFoundException(`Question with ID ${questionId} not found`);
+    }
+
+    const fields =
+      mergeDto.fields ??
+      this.buildDiff(candidate, question).map((diff) => diff.field);
+
+    return this.review(
+      candidate,
+      ExtractionCandidateStatus.MERGED,
+      async () => {
+        await this.updateExistingQuestion(question.id, candidate, fields);
+        await this.questionImagesService.attach(
+          candidate.imageIds,
+          question.id,
+        );
+        return question.id;
+      },
+    );
+  }
+
+  /**
+   * Reject a candidate without touching the question bank
+   */
+  async discard(id: string): Promise<ExtractionCandidateRecord> {
+    const candidate = await this.findOne(id);
+    this.assertPending(candidate);
+
+    return this.review(
+      candidate,
+      ExtractionCandidateStatus.DISCARDED,
+      async () => {
+        await this.questionImagesService.removeUnattached(candidate.imageIds);
+        return undefined;
+      },
+    );
+  }
+
+  toRecord(candidate: ExtractionCandidate): ExtractionCandidateRecord {
+    return {
+      id: candidate.id,
+      runId: candidate.runId,
+      pageNumber: candidate.pageNumber,
+      status: candidate.status,
+      question: candidate.question,
+      options: candidate.options,
+      correctAnswer: candidate.correctAnswer,
+      explanation: candidate.explanation,
+      categories: candidate.categories,
+      year: candidate.year,
+      intake: candidate.intake,
+      confidence: candidate.confidence,
+      sourceFile: candidate.sourceFile,
+      sourcePages: candidate.sourcePages,
+      aiModel: candidate.aiModel,
+      answerDetection: candidate.answerDetection,
+      consensus: candidate.consensus,
+      answerDisputed: candidate.answerDisputed,
+      answerVerification: candidate.answerVerification,
+      imageIds: candidate.imageIds,
+      promptVersions: candidate.promptVersions,
+      matchedQuestionId: candidate.matchedQuestionId,
+      matchScore: candidate.matchScore,
+      questionId: candidate.questionId,
+      reviewedAt: candidate.reviewedAt?.toISOString() ?? null,
+      createdAt: candidate.createdAt.toISOString(),
+    };
+  }
+
+  private assertPending(candidate: ExtractionCandidate): void {
+    if (candidate.status !== ExtractionCandidateStatus.PENDING) {
+      throw new BadRequestException(
+        `Extraction candidate ${candidate.id} has already been reviewed (${candidate.status})`,
+      );
+    }
+  }
+
+  /**
+   * Claim a pending candidate, then apply the review. Only one of two concurrent
+   * reviews gets the claim; a review that fails leaves the candidate pending again.
+   * @param apply Returns the question the candidate was added to, if any
+   */
+  private async review(
+    candidate: ExtractionCandidate,
+    status: ExtractionCandidateStatus,
+    apply: () => Promise<string | undefined>,
+  ): Promise<ExtractionCandidateRecord> {
+    const { count } = await this.prisma.extractionCandidate.updateMany({
+      where: { id: candidate.id, status: ExtractionCandidateStatus.PENDING },
+      data: { status },
+    });
+    if (count !== 1) {
+      throw new BadRequestException(
+        `Extraction candidate ${candidate.id} has already been reviewed`,
+      );
+    }
+
+    let questionId: string | undefined;
+    try {
+      questionId = await apply();
+    } catch (error) {
+      await this.prisma.extractionCandidate.updateMany({
+        where: { id: candidate.id, status },
+        data: { status: ExtractionCandidateStatus.PENDING },
+      });
+      throw error;
+    }
+
+    return this.markReviewed(candidate, status, questionId);
+  }
+
+  /**
+   * Release the images a failed accept attached to its new question, so a retry
+   * can attach them again, and delete the question
+   */
+  private async undoCreatedQuestion(
+    questionId: string,
+    imageIds: string[],
+  ): Promise<void> {
+    try {
+      await this.prisma.questionImage.updateMany({
+        where: { id: { in: imageIds }, questionId },
+        data: { questionId: null },
+      });
+      await this.questionsService.remove(questionId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to undo question ${questionId} of a failed accept:`,
+        error,
+      );
+    }
+  }
+
+  private async markReviewed(
+    candidate: ExtractionCandidate,
+    status: ExtractionCandidateStatus,
+    questionId?: string,
+  ): Promise<ExtractionCandidateRecord> {
+    const updated = await this.prisma.extractionCandidate.update({
+      where: { id: candidate.id },
+      data: { status, questionId, reviewedAt: new Date() },
+    });
+
+    this.logger.log(
+      `Candidate ${candidate.id} ${status.toLowerCase()}${questionId ? ` (question ${questionId})` : ''}`,
+    );
+
+    return this.toRecord(updated);
+  }
+
+  private buildDiff(
+    candidate: ExtractionCandidate,
+    question: QuestionWithRelations,
+  ): CandidateFieldDiff[] {
+    const pairs: CandidateFieldDiff[] = [
+      {
+        field: CandidateMergeField.QUESTION,
+        candidate: candidate.question,
+        existing: question.question,
+      },
+      {
+        field: CandidateMergeField.OPTIONS,
+        candidate: candidate.options,
+        existing: question.options,
+      },
+      {
+        field: CandidateMergeField.CORRECT_ANSWER,
+        candidate: candidate.correctAnswer,
+        existing: question.correctAnswer,
+      },
+      {
+        field: CandidateMergeField.EXPLANATION,
+        candidate: candidate.explanation,
+        existing: question.explanation,
+      },
+      {
+        field: CandidateMergeField.YEAR,
+        candidate: candidate.year,
+        existing: question.year,
+      },
+      {
+        field: CandidateMergeField.INTAKE,
+        candidate: candidate.intake,
+        existing: question.intake?.name ?? null,
+      },
+      {
+        field: CandidateMergeField.CATEGORIES,
+        candidate: [...candidate.categories].sort(),
+        existing: question.categories.map((category) => category.name).sort(),
+      },
+    ];
+
+    return pairs.filter(
+      (pair) =>
+        JSON.stringify(pair.candidate) !== JSON.stringify(pair.existing),
+    );
+  }
+
+  private async createNewQuestion(
+    candidate: ExtractionCandidate,
+  ): Promise<Question> {
+    try {
+      // Convert category names to IDs
+      const categoryIds = await this.convertCategoryNamesToIds(
+        candidate.categories,
+      );
+
+      // Convert intake name to ID
+      const intakeId = await this.convertIntakeNameToId(candidate.intake);
+
+      // Determine initial status based on confidence; a disputed answer always gets a second look
+      const initialStatus =
+        candidate.confidence >= 0.8 && !candidate.answerDisputed
+          ? QuestionStatus.APPROVED
+          : QuestionStatus.PENDING;
+
+      const question = await this.questionsService.create({
+        question: candidate.question,
+        options: candidate.options,
+        correctAnswer: candidate.correctAnswer,
+        categories: categoryIds,
+        year: candidate.year,
+        intake: intakeId,
+        explanation: candidate.explanation ?? undefined,
+        status: initialStatus,
+        aiMetadata: {
+          confidence: candidate.confidence,
+          extractedAt: candidate.createdAt,
+          sourceFile: candidate.sourceFile,
+          sourcePages: candidate.sourcePages,
+          aiModel: candidate.aiModel ?? undefined,
+          answerDetection: candidate.answerDetection ?? undefined,
+          promptVersions: candidate.promptVersions,
+          consensus: candidate.consensus ?? undefined,
+          answerDisputed: candidate.answerDisputed,
+          answerVerification: candidate.answerVerification ?? undefined,
+        },
+      });
+
+      // Log auto-approval if applicable
+      if (initialStatus === QuestionStatus.APPROVED) {
+        this.logger.log(
+          `Auto-approved question with confidence ${candidate.confidence} (>= 0.8)`,
+        );
+      }
+
+      return question;
+    } catch (error) {
+      this.logger.error('Error creating new question:', error);
+      throw error;
+    }
+  }
+
+  private async updateExistingQuestion(
+    questionId: string,
+    candidate: ExtractionCandidate,
+    fields: CandidateMergeField[],
+  ): Promise<void> {
+    try {
+      const update: UpdateQuestionDto = {};
+
+      for (const field of fields) {
+        switch (field) {
+          case CandidateMergeField.QUESTION:
+            update.question = candidate.question;
+            break;
+          case CandidateMergeField.OPTIONS:
+            update.options = candidate.options;
+            break;
+          case CandidateMergeField.CORRECT_ANSWER:
+            update.correctAnswer = candidate.correctAnswer;
+            break;
+          case CandidateMergeField.EXPLANATION:
+            update.explanation = candidate.explanation ?? undefined;
+            break;
+          case CandidateMergeField.YEAR:
+            update.year = candidate.year;
+            break;
+          case CandidateMergeField.INTAKE:
+            update.intake = await this.convertIntakeNameToId(candidate.intake);
+            break;
+          case CandidateMergeField.CATEGORIES:
+            update.categories = await this.convertCategoryNamesToIds(
+              candidate.categories,
+            );
+            break;
+        }
+      }
+
+      await this.questionsService.update(questionId, update);
+
+      // Keep the rest of the AI metadata, such as explanation details
+      const extraction = {
+        confidence: candidate.confidence,
+        extractedAt: candidate.createdAt,
+        sourceFile: candidate.sourceFile,
+        sourcePages: candidate.sourcePages,
+        aiModel: candidate.aiModel,
+        answerDetection: candidate.answerDetection,
+        promptVersions: candidate.promptVersions,
+        consensus: candidate.consensus,
+        answerDisputed: candidate.answerDisputed,
+        answerVerification: candidate.answerVerification,
+      };
+      await this.prisma.question.update({
+        where: { id: questionId },
+        data: {
+          aiMetadata: { upsert: { set: extraction, update: extraction } },
+        },
+      });
+    } catch (error) {
+      this.logger.error('Error updating existing question:', error);
+      throw error;
+    }
+  }
+
+  private async convertCategoryNamesToIds(
+    categoryNames: string[],
+  ): Promise<string[]> {
+    const categoryIds: string[] = [];
+
+    for (const categoryName of categoryNames) {
+      const category = await this.categoriesService.findByName(categoryName);
+      if (category) {
+        categoryIds.push(category.id);
+      } else {
+        this.logger.warn(`Category not found: ${categoryName}`);
+      }
+    }
+
+    // If no categories were found, use a default category
+    if (categoryIds.length === 0) {
+      const activeCategories = await this.categoriesService.findAllActive();
+      if (activeCategories.length > 0) {
+        this.logger.warn(
+          `No valid categories found, using default category: ${activeCategories[0].name}`,
+        );
+        categoryIds.push(activeCategories[0].id);
+      } else {
+        throw new Error('No active categories found in database');
+      }
+    }
+
+    return categoryIds;
+  }
+
+  private async convertIntakeNameToId(intakeName: string): Promise<string> {
+    // First try to find existing intake by name
+    const intake = await this.intakesService.findByName(intakeName);
+
+    if (intake) {
+      return intake.id;
+    }
+
+    // If intake doesn't exist, use the first active intake as fallback
+    const activeIntakes = await this.intakesService.findAllActive();
+    if (activeIntakes.length > 0) {
+      this.logger.warn(
+        `Intake "${intakeName}" not found, using fallback intake: ${activeIntakes[0].name}`,
+      );
+      return activeIntakes[0].id;
+    }
+
+    // If no active intakes exist, throw an error
+    throw new Error(
+      `No active intakes found in database. Cannot process question with intake: ${intakeName}`,
+    );
+  }
+}
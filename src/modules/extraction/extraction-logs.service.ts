@@ -0,0 +1,164 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExtractionLogEntry, Prisma } from '@prisma/client';
+import { ExtractionLogEvent, ExtractionLogLevel } from '../../common/CONSTANTS';
+import { PrismaService } from '../../common/services/prisma.service';
+import {
+  ExtractionLogFilterDto,
+  ExtractionLogRecord,
+  ListExtractionLogsResponse,
+} from './dto';
+
+export interface ExtractionLogContext {
+  level?: ExtractionLogLevel;
+  event?: ExtractionLogEvent;
+  pageNumber?: number;
+  questionId?: string;
+  payload?: Prisma.InputJsonValue;
+}
+
+// Least to most severe, for "this level and above" filters
+const LEVELS: ExtractionLogLevel[] = [
+  ExtractionLogLevel.DEBUG,
+  ExtractionLogLevel.INFO,
+  ExtractionLogLevel.WARN,
+  ExtractionLogLevel.ERROR,
+];
+
+/**
+ * Structured log of what happened during each extraction run, kept for
+ * EXTRACTION_LOG_RETENTION_DAYS and then removed by Mongo
+ */
+@Injectable()
+export class ExtractionLogsService implements OnModuleInit {
+  private readonly logger = new Logger(ExtractionLogsService.name);
+  private readonly retentionMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.retentionMs =
+      Number(
+        this.configService.get<string>('EXTRACTION_LOG_RETENTION_DAYS', '30'),
+      ) *
+      24 *
+      60 *
+      60 *
+      1000;
+  }
+
+  async onModuleInit() {
+    // Prisma cannot declare TTL indexes, so Mongo is asked for one directly
+    try {
+      await this.prisma.$runCommandRaw({
+        createIndexes: 'extraction_log_entries',
+        indexes: [
+          {
+            key: { expiresAt: 1 },
+            name: 'expiresAt_ttl',
+            expireAfterSeconds: 0,
+          },
+        ],
+      });
+    } catch (error) {
+      // Entries are still written, just kept until removed by hand
+      this.logger.warn('Failed to create extraction log TTL index:', error);
+    }
+  }
+
+  /**
+   * Add an entry to a run's log; failures are logged rather than thrown so a
+   * log write never fails the extraction itself
+   */
+  async append(
+    runId: string,
+    message: string,
+    context: ExtractionLogContext = {},
+  ): Promise<void> {
+    try {
+      await this.prisma.extractionLogEntry.create({
+        data: {
+          runId,
+          message,
+          level: context.level ?? ExtractionLogLevel.INFO,
+          event: context.event ?? ExtractionLogEvent.MESSAGE,
+          pageNumber: context.pageNumber,
+          questionId: context.questionId,
+          payload: context.payload,
+          expiresAt: new Date(Date.now() + this.retentionMs),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to write log for run ${runId}:`, error);
+    }
+  }
+
+  /**
+   * Entries of a run in the order they were written, a page at a time
+   */
+  async findAll(
+    runId: string,
+    filter: ExtractionLogFilterDto = {},
+  ): Promise<ListExtractionLogsResponse> {
+    const { level, event, fromPage, toPage, search, cursor } = filter;
+    const limit = filter.limit ?? 100;
+
+    const where: Prisma.ExtractionLogEntryWhereInput = {
+      runId,
+      ...(level && { level: { in: LEVELS.slice(LEVELS.indexOf(level)) } }),
+      ...(event && { event }),
+      ...((fromPage !== undefined || toPage !== undefined) && {
+        pageNumber: {
+          ...(fromPage !== undefined && { gte: fromPage }),
+          ...(toPage !== undefined && { lte: toPage }),
+        },
+      }),
+      ...(search && { message: { contains: search, mode: 'insensitive' } }),
+      // ObjectIds grow with insertion time, so they double as the cursor
+      ...(cursor && { id: { gt: cursor } }),
+    };
+
+    // One extra entry tells whether there is another page
+    const entries = await this.prisma.extractionLogEntry.findMany({
+      where,
+      orderBy: { id: 'asc' },
+      take: limit + 1,
+    });
+    const data = entries.slice(0, limit);
+
+    return {
+      data: data.map((entry) => this.toRecord(entry)),
+      nextCursor:
+        entries.length > limit ? (data[data.length - 1]?.id ?? null) : null,
+    };
+  }
+
+  /**
+   * The latest entries of a run as "[time] message" lines, oldest first
+   */
+  async findRecent(runId: string, limit: number): Promise<string[]> {
+    const entries = await this.prisma.extractionLogEntry.findMany({
+      where: { runId },
+      orderBy: { id: 'desc' },
+      take: limit,
+    });
+
+    return entries
+      .reverse()
+      .map((entry) => `[${entry.createdAt.toISOString()}] ${entry.message}`);
+  }
+
+  private toRecord(entry: ExtractionLogEntry): ExtractionLogRecord {
+    return {
+      id: entry.id,
+      level: entry.level,
+      event: entry.event,
+      message: entry.message,
+      pageNumber: entry.pageNumber,
+      questionId: entry.questionId,
+      payload: entry.payload,
+      createdAt: entry.createdAt.toISOString(),
+    };
+  }
+}
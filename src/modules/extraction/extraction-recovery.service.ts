@@ -0,0 +1,126 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExtractionRun, ExtractionRunStatus } from '@prisma/client';
+import { Queue } from 'bull';
+import { ExtractionLogEvent, ExtractionLogLevel } from '../../common/CONSTANTS';
+import { ExtractionRunsService } from './extraction-runs.service';
+import { ExtractionService } from './extraction.service';
+import { SourceDocumentsService } from './source-documents.service';
+
+/**
+ * Reconciles extraction runs with the queue on startup. A run left QUEUED or
+ * PROCESSING with no job in Bull is never picked up again, and would keep new runs
+ * of its PDF from starting.
+ */
+@Injectable()
+export class ExtractionRecoveryService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ExtractionRecoveryService.name);
+  private readonly autoResume: boolean;
+
+  constructor(
+    private readonly extractionService: ExtractionService,
+    private readonly extractionRunsService: ExtractionRunsService,
+    private readonly sourceDocumentsService: SourceDocumentsService,
+    private configService: ConfigService,
+    @InjectQueue('extraction') private readonly extractionQueue: Queue,
+  ) {
+    this.autoResume =
+      this.configService.get<string>('RESUME_INTERRUPTED_RUNS', 'false') ===
+      'true';
+  }
+
+  async onApplicationBootstrap() {
+    try {
+      await this.recoverInterruptedRuns();
+    } catch (error) {
+      // Mongo or Redis being unavailable must not keep the API from starting
+      this.logger.error(
+        'Failed to recover interrupted extraction runs:',
+        error,
+      );
+    }
+  }
+
+  async recoverInterruptedRuns(): Promise<void> {
+    const runs = await this.extractionRunsService.findByStatus([
+      ExtractionRunStatus.QUEUED,
+      ExtractionRunStatus.PROCESSING,
+    ]);
+    if (runs.length === 0) {
+      return;
+    }
+
+    // Active jobs of a crashed worker are stalled, and Bull hands them out again
+    const jobs = await this.extractionQueue.getJobs([
+      'waiting',
+      'active',
+      'delayed',
+      'paused',
+    ]);
+    const queuedRunIds = new Set(jobs.map((job) => job?.data?.runId));
+
+    for (const run of runs) {
+      if (!queuedRunIds.has(run.id)) {
+        await this.recoverRun(run);
+      }
+    }
+  }
+
+  private async recoverRun(run: ExtractionRun): Promise<void> {
+    // The last page was recorded but the run was never marked as finished
+    const unprocessed = run.endPage
+      ? await this.extractionRunsService.findUnprocessedPages(run)
+      : null;
+    if (
+      run.status === ExtractionRunStatus.PROCESSING &&
+      unprocessed?.length === 0
+    ) {
+      await this.extractionRunsService.aggregatePages(run.id);
+      await this.extractionRunsService.updateStatus(
+        run.id,
+        ExtractionRunStatus.COMPLETED,
+      );
+      await this.extractionRunsService.appendLog(
+        run.id,
+        'Marked completed after a restart: every page already had an outcome',
+        { event: ExtractionLogEvent.RUN_COMPLETED },
+      );
+      await this.sourceDocumentsService.recordExtractionStatus(
+        run.filename,
+        ExtractionRunStatus.COMPLETED,
+      );
+      return;
+    }
+
+    await this.extractionRunsService.updateStatus(
+      run.id,
+      ExtractionRunStatus.INTERRUPTED,
+      { error: 'Interrupted by a restart' },
+    );
+    await this.extractionRunsService.appendLog(
+      run.id,
+      `Interrupted: the run was ${run.status} with no job left in the queue after a restart`,
+      {
+        level: ExtractionLogLevel.WARN,
+        event: ExtractionLogEvent.RUN_INTERRUPTED,
+      },
+    );
+    await this.sourceDocumentsService.recordExtractionStatus(
+      run.filename,
+      ExtractionRunStatus.INTERRUPTED,
+    );
+    this.logger.warn(
+      `Extraction run ${run.id} for ${run.filename} was interrupted`,
+    );
+
+    if (!this.autoResume) {
+      return;
+    }
+    try {
+      await this.extractionService.continueRun(run.id);
+    } catch (error) {
+      this.logger.error(`Failed to resume extraction run ${run.id}:`, error);
+    }
+  }
+}
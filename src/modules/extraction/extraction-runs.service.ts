@@ -0,0 +1,581 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  ExtractionPage,
+  ExtractionPageStatus,
+  ExtractionRun,
+  ExtractionRunStatus,
+  Prisma,
+} from '@prisma/client';
+import {
+  ExtractionLogEvent,
+  ExtractionParser,
+  TextLayoutMode,
+} from '../../common/CONSTANTS';
+import { PrismaService } from '../../common/services/prisma.service';
+import {
+  CancellationToken,
+  ExtractionCancelledError,
+} from './cancellation-token';
+import {
+  ExtractionLogFilterDto,
+  ExtractionPageRecord,
+  ExtractionRunDetail,
+  ExtractionRunFilterDto,
+  ExtractionRunSummary,
+  ListExtractionLogsResponse,
+  StartExtractionDto,
+} from './dto';
+import {
+  ExtractionLogContext,
+  ExtractionLogsService,
+} from './extraction-logs.service';
+import { EmphasisSignal } from './pdf-emphasis.service';
+import { PageCarryOver } from './question-stitching.service';
+
+export interface ExtractionPageData {
+  status: ExtractionPageStatus;
+  textLength: number;
+  extractionMethod?: string;
+  textConfidence?: number;
+  llmLatencyMs?: number;
+  rawResponse?: string;
+  schemaViolations?: string[];
+  responseRepaired?: boolean;
+  parsedQuestions: number;
+  createdQuestions: number;
+  updatedQuestions: number;
+  verifiedQuestions: number;
+  skippedQuestions: number;
+  error?: string;
+  // Unfinished last question, read back by the next page's job
+  carryOver?: Omit<PageCarryOver, 'pageNumber'>;
+}
+
+// Runs in these states still hold a place in the extraction queue; a paused run
+// keeps its place so nothing else extracts the same PDF before it is resumed
+const ACTIVE_STATUSES: ExtractionRunStatus[] = [
+  ExtractionRunStatus.QUEUED,
+  ExtractionRunStatus.PROCESSING,
+  ExtractionRunStatus.PAUSED,
+];
+
+// Latest log lines included with a run's details; the rest are served by its logs endpoint
+const DETAIL_LOG_LIMIT = 200;
+
+@Injectable()
+export class ExtractionRunsService {
+  private readonly logger = new Logger(ExtractionRunsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly extractionLogsService: ExtractionLogsService,
+  ) {}
+
+  async create(extractionDto: StartExtractionDto): Promise<ExtractionRun> {
+    const run = await this.prisma.extractionRun.create({
+      data: {
+        filename: extractionDto.filename,
+        model: extractionDto.model,
+        startPage: extractionDto.startPage || 1,
+        maxPages: extractionDto.maxPages,
+        overwrite: extractionDto.overwrite || false,
+        layoutMode: extractionDto.layoutMode || TextLayoutMode.FLAT,
+        parser: extractionDto.parser || ExtractionParser.LLM,
+        bypassLlmCache: extractionDto.bypassLlmCache || false,
+        ensembleModels: extractionDto.ensembleModels ?? [],
+        verifyAnswers: extractionDto.verifyAnswers || false,
+        verificationModel: extractionDto.verificationModel,
+        failedPages: [],
+        questionsPerPage: {},
+        pageExtractionMethods: {},
+      },
+    });
+
+    await this.appendLog(
+      run.id,
+      `Queued extraction for ${extractionDto.filename}`,
+      { event: ExtractionLogEvent.RUN_QUEUED },
+    );
+    return run;
+  }
+
+  async findAll(
+    filter: ExtractionRunFilterDto = {},
+  ): Promise<ExtractionRunSummary[]> {
+    const runs = await this.prisma.extractionRun.findMany({
+      where: {
+        ...(filter.status && { status: filter.status }),
+        ...(filter.filename && { filename: filter.filename }),
+      },
+      orderBy: { queuedAt: 'desc' },
+    });
+
+    return runs.map((run) => this.toSummary(run));
+  }
+
+  async findOne(id: string): Promise<ExtractionRun> {
+    const run = await this.prisma.extractionRun.findUnique({
+      where: { id },
+    });
+
+    if (!run) {
+      throw new NotFoundException(`Extraction run ${id} not found`);
+    }
+
+    return run;
+  }
+
+  async findActiveByFilename(filename: string): Promise<ExtractionRun | null> {
+    return this.prisma.extractionRun.findFirst({
+      where: {
+        filename,
+        status: { in: ACTIVE_STATUSES },
+      },
+    });
+  }
+
+  async findByStatus(
+    statuses: ExtractionRunStatus[],
+  ): Promise<ExtractionRun[]> {
+    return this.prisma.extractionRun.findMany({
+      where: { status: { in: statuses } },
+      orderBy: { queuedAt: 'asc' },
+    });
+  }
+
+  async getStatus(id: string): Promise<ExtractionRunStatus | null> {
+    const run = await this.prisma.extractionRun.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+    return run?.status ?? null;
+  }
+
+  /**
+   * Token a page job checks before each step, cancelled once the run leaves PROCESSING
+   * or queues a newer batch of page jobs
+   * @param generation The run's pageGeneration when the job was queued
+   */
+  createCancellationToken(id: string, generation: number): CancellationToken {
+    return {
+      throwIfCancelled: async () => {
+        const run = await this.prisma.extractionRun.findUnique({
+          where: { id },
+          select: { status: true, pageGeneration: true },
+        });
+        const status = run?.status ?? null;
+        if (status !== ExtractionRunStatus.PROCESSING) {
+          throw new ExtractionCancelledError(id, status);
+        }
+        if (run?.pageGeneration !== generation) {
+          throw new ExtractionCancelledError(id, status, true);
+        }
+      },
+    };
+  }
+
+  isActive(run: ExtractionRun): boolean {
+    return ACTIVE_STATUSES.includes(run.status);
+  }
+
+  /**
+   * Persist the page range once the PDF has been opened. Counters are rebuilt from
+   * the page records and status and logs are written separately, so nothing a page
+   * job or stop request wrote is overwritten.
+   */
+  async savePageRange(run: ExtractionRun): Promise<void> {
+    try {
+      await this.prisma.extractionRun.update({
+        where: { id: run.id },
+        data: { totalPages: run.totalPages, endPage: run.endPage },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to save page range for run ${run.id}:`, error);
+    }
+  }
+
+  async updateStatus(
+    id: string,
+    status: ExtractionRunStatus,
+    data: Prisma.ExtractionRunUpdateInput = {},
+  ): Promise<ExtractionRun> {
+    return this.prisma.extractionRun.update({
+      where: { id },
+      data: { ...this.statusChange(status), ...data },
+    });
+  }
+
+  /**
+   * Move a run to a new status only while it is still in the expected one, so a
+   * stop request that lands between two page jobs is never overwritten
+   * @returns Whether the status was changed
+   */
+  async updateStatusFrom(
+    id: string,
+    expected: ExtractionRunStatus,
+    status: ExtractionRunStatus,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.extractionRun.updateMany({
+      where: { id, status: expected },
+      data: this.statusChange(status),
+    });
+    return count > 0;
+  }
+
+  /**
+   * Move a queued run to PROCESSING if fewer than `limit` runs are processing. The run
+   * is claimed first and handed back if that took it over the limit, so two runs
+   * racing for the last slot can both miss it but never both get it.
+   * @returns Whether the run got a slot
+   */
+  async claimProcessingSlot(id: string, limit: number): Promise<boolean> {
+    const claimed = await this.updateStatusFrom(
+      id,
+      ExtractionRunStatus.QUEUED,
+      ExtractionRunStatus.PROCESSING,
+    );
+    if (!claimed) {
+      return false;
+    }
+
+    const processing = await this.prisma.extractionRun.count({
+      where: { status: ExtractionRunStatus.PROCESSING },
+    });
+    if (processing <= limit) {
+      return true;
+    }
+
+    // Keeps its place in the queue, so only the status goes back
+    await this.prisma.extractionRun.updateMany({
+      where: { id, status: ExtractionRunStatus.PROCESSING },
+      data: { status: ExtractionRunStatus.QUEUED },
+    });
+    return false;
+  }
+
+  /**
+   * Start a new batch of page jobs for the run. Jobs of an earlier batch that are
+   * still running, e.g. past their last check when the run was paused and resumed,
+   * can then be told apart and no longer count towards finishing the run.
+   * @returns The batch's generation, to tag its page jobs with
+   */
+  async startPageBatch(id: string, count: number): Promise<number> {
+    const run = await this.prisma.extractionRun.update({
+      where: { id },
+      data: { pendingPages: count, pageGeneration: { increment: 1 } },
+      select: { pageGeneration: true },
+    });
+    return run.pageGeneration;
+  }
+
+  /**
+   * Count one page job of the current batch as finished
+   * @returns Page jobs still outstanding, where the job that sees 0 finishes the run;
+   * null for a job of an earlier batch
+   */
+  async completePendingPage(
+    id: string,
+    generation: number,
+  ): Promise<number | null> {
+    try {
+      const run = await this.prisma.extractionRun.update({
+        where: { id, pageGeneration: generation },
+        data: { pendingPages: { decrement: 1 } },
+        select: { pendingPages: true },
+      });
+      return run.pendingPages;
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild a run's counters from its page records. Page jobs finish in any order
+   * and may be retried, so totals are recomputed rather than incremented.
+   */
+  async aggregatePages(id: string): Promise<ExtractionRun> {
+    const run = await this.findOne(id);
+    const endPage = run.endPage ?? run.totalPages;
+    const pages = await this.prisma.extractionPage.findMany({
+      where: { runId: id, pageNumber: { gte: run.startPage, lte: endPage } },
+      orderBy: { pageNumber: 'asc' },
+    });
+
+    // Continuations pick up after the last page with every page before it done
+    const recorded = new Set(pages.map((page) => page.pageNumber));
+    let lastProcessedPage = run.startPage - 1;
+    while (recorded.has(lastProcessedPage + 1)) {
+      lastProcessedPage++;
+    }
+
+    const questionsPerPage: Record<number, number> = {};
+    const pageExtractionMethods: Record<number, string> = {};
+    for (const page of pages) {
+      if (page.createdQuestions > 0) {
+        questionsPerPage[page.pageNumber] = page.createdQuestions;
+      }
+      if (page.extractionMethod) {
+        pageExtractionMethods[page.pageNumber] = page.extractionMethod;
+      }
+    }
+
+    const sum = (
+      field:
+        | 'createdQuestions'
+        | 'updatedQuestions'
+        | 'verifiedQuestions'
+        | 'skippedQuestions',
+    ) => pages.reduce((total, page) => total + page[field], 0);
+    const pagesInRun = endPage - run.startPage + 1;
+
+    return this.prisma.extractionRun.update({
+      where: { id },
+      data: {
+        processedPages: pages.length,
+        lastProcessedPage,
+        progress:
+          pagesInRun > 0 ? Math.round((pages.length / pagesInRun) * 100) : 0,
+        extractedQuestions: sum('createdQuestions'),
+        updatedQuestions: sum('updatedQuestions'),
+        verifiedQuestions: sum('verifiedQuestions'),
+        skippedQuestions: sum('skippedQuestions'),
+        failedPages: pages
+          .filter((page) => page.status === ExtractionPageStatus.FAILED)
+          .map((page) => page.pageNumber),
+        questionsPerPage,
+        pageExtractionMethods,
+      },
+    });
+  }
+
+  async appendLog(
+    id: string,
+    message: string,
+    context: ExtractionLogContext = {},
+  ): Promise<void> {
+    await this.extractionLogsService.append(id, message, context);
+  }
+
+  async findLogs(
+    id: string,
+    filter: ExtractionLogFilterDto = {},
+  ): Promise<ListExtractionLogsResponse> {
+    await this.findOne(id);
+    return this.extractionLogsService.findAll(id, filter);
+  }
+
+  /**
+   * Store the outcome of processing one page, replacing the previous attempt
+   */
+  async recordPage(
+    runId: string,
+    pageNumber: number,
+    data: ExtractionPageData,
+  ): Promise<void> {
+    const fields = {
+      status: data.status,
+      textLength: data.textLength,
+      extractionMethod: data.extractionMethod ?? null,
+      textConfidence: data.textConfidence ?? null,
+      llmLatencyMs: data.llmLatencyMs ?? null,
+      rawResponse: data.rawResponse ?? null,
+      schemaViolations: data.schemaViolations ?? [],
+      responseRepaired: data.responseRepaired ?? false,
+      parsedQuestions: data.parsedQuestions,
+      createdQuestions: data.createdQuestions,
+      updatedQuestions: data.updatedQuestions,
+      verifiedQuestions: data.verifiedQuestions,
+      skippedQuestions: data.skippedQuestions,
+      error: data.error ?? null,
+      carryOver: data.carryOver
+        ? {
+            text: data.carryOver.text,
+            emphasis: data.carryOver.emphasis ?? [],
+            images: data.carryOver.images ?? [],
+          }
+        : null,
+      processedAt: new Date(),
+    };
+
+    try {
+      await this.prisma.extractionPage.upsert({
+        where: { runId_pageNumber: { runId, pageNumber } },
+        update: { ...fields, attempts: { increment: 1 } },
+        create: { ...fields, runId, pageNumber },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record page ${pageNumber} of run ${runId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Question a page held back for the next page, as recorded when it was processed
+   * @returns undefined when the page has no record yet
+   */
+  async findCarryOver(
+    runId: string,
+    pageNumber: number,
+  ): Promise<PageCarryOver | null | undefined> {
+    const page = await this.prisma.extractionPage.findUnique({
+      where: { runId_pageNumber: { runId, pageNumber } },
+      select: { carryOver: true },
+    });
+    if (!page) {
+      return undefined;
+    }
+    if (!page.carryOver) {
+      return null;
+    }
+
+    return {
+      pageNumber,
+      text: page.carryOver.text,
+      emphasis: page.carryOver.emphasis.map((span) => ({
+        text: span.text,
+        signals: span.signals as EmphasisSignal[],
+      })),
+      images: page.carryOver.images,
+    };
+  }
+
+  async findPages(runId: string): Promise<ExtractionPageRecord[]> {
+    const pages = await this.prisma.extractionPage.findMany({
+      where: { runId },
+      orderBy: { pageNumber: 'asc' },
+    });
+
+    return pages.map((page) => this.toPageRecord(page));
+  }
+
+  /**
+   * Pages of the run's range that have no outcome yet, in order; a stopped or paused
+   * run carries on from exactly these pages
+   */
+  async findUnprocessedPages(run: ExtractionRun): Promise<number[]> {
+    const endPage = run.endPage ?? run.totalPages;
+    const recorded = await this.prisma.extractionPage.findMany({
+      where: { runId: run.id },
+      select: { pageNumber: true },
+    });
+    const done = new Set(recorded.map((page) => page.pageNumber));
+
+    const pages: number[] = [];
+    for (let pageNumber = run.startPage; pageNumber <= endPage; pageNumber++) {
+      if (!done.has(pageNumber)) {
+        pages.push(pageNumber);
+      }
+    }
+    return pages;
+  }
+
+  toSummary(run: ExtractionRun): ExtractionRunSummary {
+    const duration =
+      run.startedAt && run.finishedAt
+        ? run.finishedAt.getTime() - run.startedAt.getTime()
+        : 0;
+
+    return {
+      id: run.id,
+      status: run.status,
+      filename: run.filename,
+      model: run.model,
+      ensembleModels: run.ensembleModels,
+      startPage: run.startPage,
+      endPage: run.endPage,
+      maxPages: run.maxPages,
+      overwrite: run.overwrite,
+      layoutMode: run.layoutMode as TextLayoutMode,
+      parser: run.parser as ExtractionParser,
+      bypassLlmCache: run.bypassLlmCache,
+      verifyAnswers: run.verifyAnswers,
+      verificationModel: run.verificationModel,
+      totalPages: run.totalPages,
+      processedPages: run.processedPages,
+      lastProcessedPage: run.lastProcessedPage,
+      progress: run.progress,
+      extractedQuestions: run.extractedQuestions,
+      verifiedQuestions: run.verifiedQuestions,
+      updatedQuestions: run.updatedQuestions,
+      skippedQuestions: run.skippedQuestions,
+      failedPages: run.failedPages,
+      pendingPages: run.pendingPages,
+      error: run.error,
+      duration,
+      queuedAt: run.queuedAt.toISOString(),
+      startedAt: run.startedAt?.toISOString() ?? null,
+      finishedAt: run.finishedAt?.toISOString() ?? null,
+    };
+  }
+
+  async toDetail(run: ExtractionRun): Promise<ExtractionRunDetail> {
+    return {
+      ...this.toSummary(run),
+      questionsPerPage: (run.questionsPerPage ?? {}) as Record<number, number>,
+      pageExtractionMethods: (run.pageExtractionMethods ?? {}) as Record<
+        number,
+        string
+      >,
+      logs: await this.extractionLogsService.findRecent(
+        run.id,
+        DETAIL_LOG_LIMIT,
+      ),
+    };
+  }
+
+  private toPageRecord(page: ExtractionPage): ExtractionPageRecord {
+    return {
+      pageNumber: page.pageNumber,
+      status: page.status,
+      textLength: page.textLength,
+      extractionMethod: page.extractionMethod,
+      textConfidence: page.textConfidence,
+      llmLatencyMs: page.llmLatencyMs,
+      rawResponse: page.rawResponse,
+      schemaViolations: page.schemaViolations,
+      responseRepaired: page.responseRepaired,
+      parsedQuestions: page.parsedQuestions,
+      createdQuestions: page.createdQuestions,
+      updatedQuestions: page.updatedQuestions,
+      verifiedQuestions: page.verifiedQuestions,
+      skippedQuestions: page.skippedQuestions,
+      error: page.error,
+      attempts: page.attempts,
+      processedAt: page.processedAt.toISOString(),
+    };
+  }
+
+  // Timestamps that go with entering a status
+  private statusChange(
+    status: ExtractionRunStatus,
+  ): Prisma.ExtractionRunUpdateInput {
+    const finished =
+      status === ExtractionRunStatus.COMPLETED ||
+      status === ExtractionRunStatus.FAILED ||
+      status === ExtractionRunStatus.STOPPED ||
+      status === ExtractionRunStatus.INTERRUPTED;
+
+    return {
+      status,
+      ...(status === ExtractionRunStatus.PROCESSING && {
+        startedAt: new Date(),
+        finishedAt: null,
+        error: null,
+      }),
+      ...(status === ExtractionRunStatus.QUEUED && {
+        queuedAt: new Date(),
+        finishedAt: null,
+        error: null,
+      }),
+      ...(finished && { finishedAt: new Date() }),
+    };
+  }
+}
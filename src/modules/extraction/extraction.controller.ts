@@ -1,14 +1,28 @@
-import { TypedBody, TypedRoute } from '@nestia/core';
-import { Controller } from '@nestjs/common';
+import { TypedBody, TypedParam, TypedQuery, TypedRoute } from '@nestia/core';
+import { Controller, UploadedFile, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
-  ExtractionStatusResponse,
-  GetLogsResponse,
+  ExtractionCandidateDiffResponse,
+  ExtractionCandidateFilterDto,
+  ExtractionLogFilterDto,
+  ExtractionPreviewResponse,
+  ExtractionRunDetail,
+  ExtractionRunFilterDto,
+  ListExtractionCandidatesResponse,
+  ListExtractionLogsResponse,
+  ListExtractionPagesResponse,
+  ListExtractionRunsResponse,
   ListPdfsResponse,
+  PauseExtractionResponse,
+  MergeCandidateDto,
+  PreviewExtractionDto,
   QueueStatusResponse,
+  ReprocessPagesDto,
+  ReviewCandidateResponse,
   StartExtractionDto,
   StartExtractionResponse,
-  StatisticsResponse,
   StopExtractionResponse,
+  UploadPdfResponse,
 } from './dto';
 import { ExtractionService } from './extraction.service';
 
@@ -26,6 +40,21 @@ export class ExtractionController {
     return await this.extractionService.listPdfs();
   }
 
+  /**
+   * Upload a PDF to the source-document catalog
+   * @summary Upload a PDF
+   * @tag extraction
+   */
+  @TypedRoute.Post('pdfs')
+  @UseInterceptors(
+    FileInterceptor('file', { dest: process.env.TEMP_DIR || './temp' }),
+  )
+  async uploadPdf(
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<UploadPdfResponse> {
+    return await this.extractionService.uploadPdf(file);
+  }
+
   /**
    * Start extraction for a selected PDF
    * @summary Start extraction for a selected PDF
@@ -39,73 +68,218 @@ export class ExtractionController {
   }
 
   /**
-   * Stop extraction
-   * @summary Stop extraction
+   * Run extraction on a few pages and return every intermediate result without saving any questions
+   * @summary Preview extraction on a page range
    * @tag extraction
    */
-  @TypedRoute.Delete('stop')
-  async stopExtraction(): Promise<StopExtractionResponse> {
-    return await this.extractionService.stopExtraction();
+  @TypedRoute.Post('preview')
+  async previewExtraction(
+    @TypedBody() body: PreviewExtractionDto,
+  ): Promise<ExtractionPreviewResponse> {
+    return await this.extractionService.previewExtraction(body);
   }
 
   /**
-   * Continue extraction from last processed page
-   * @summary Continue extraction from last processed page
+   * List extraction runs, newest first
+   * @summary List extraction runs
    * @tag extraction
    */
-  @TypedRoute.Post('continue')
-  async continueExtraction(): Promise<StartExtractionResponse> {
-    return await this.extractionService.continueExtraction();
+  @TypedRoute.Get('runs')
+  async findRuns(
+    @TypedQuery() query: ExtractionRunFilterDto,
+  ): Promise<ListExtractionRunsResponse> {
+    return await this.extractionService.findRuns(query);
   }
 
   /**
-   * Get current extraction status
-   * @summary Get current extraction status
+   * Get an extraction run with its progress and logs
+   * @summary Get an extraction run
    * @tag extraction
    */
-  @TypedRoute.Get('status')
-  async getStatus(): Promise<ExtractionStatusResponse> {
-    return await this.extractionService.getStatus();
+  @TypedRoute.Get('runs/:id')
+  async getRun(@TypedParam('id') id: string): Promise<ExtractionRunDetail> {
+    return await this.extractionService.getRun(id);
   }
 
   /**
-   * Get extraction logs
-   * @summary Get extraction logs
+   * Stop an extraction run
+   * @summary Stop an extraction run
    * @tag extraction
    */
-  @TypedRoute.Get('logs')
-  async getLogs(): Promise<GetLogsResponse> {
-    return await this.extractionService.getLogs();
+  @TypedRoute.Delete('runs/:id/stop')
+  async stopRun(@TypedParam('id') id: string): Promise<StopExtractionResponse> {
+    return await this.extractionService.stopRun(id);
   }
 
   /**
-   * Get extraction statistics
-   * @summary Get extraction statistics
+   * Pause a queued or processing extraction run, keeping its page cursor
+   * @summary Pause an extraction run
    * @tag extraction
    */
-  @TypedRoute.Get('statistics')
-  async getStatistics(): Promise<StatisticsResponse> {
-    return await this.extractionService.getStatistics();
+  @TypedRoute.Post('runs/:id/pause')
+  async pauseRun(
+    @TypedParam('id') id: string,
+  ): Promise<PauseExtractionResponse> {
+    return await this.extractionService.pauseRun(id);
   }
 
   /**
-   * Get queue status
-   * @summary Get queue status
+   * Resume a paused extraction run from its first unprocessed page
+   * @summary Resume an extraction run
    * @tag extraction
    */
-  @TypedRoute.Get('queue-status')
-  async getQueueStatus(): Promise<QueueStatusResponse> {
-    return await this.extractionService.getQueueStatus();
+  @TypedRoute.Post('runs/:id/resume')
+  async resumeRun(
+    @TypedParam('id') id: string,
+  ): Promise<StartExtractionResponse> {
+    return await this.extractionService.resumeRun(id);
+  }
+
+  /**
+   * Continue a stopped, failed or interrupted extraction run from its first unprocessed page
+   * @summary Continue an extraction run
+   * @tag extraction
+   */
+  @TypedRoute.Post('runs/:id/continue')
+  async continueRun(
+    @TypedParam('id') id: string,
+  ): Promise<StartExtractionResponse> {
+    return await this.extractionService.continueRun(id);
+  }
+
+  /**
+   * List the per-page records of an extraction run
+   * @summary List extraction run pages
+   * @tag extraction
+   */
+  @TypedRoute.Get('runs/:id/pages')
+  async getRunPages(
+    @TypedParam('id') id: string,
+  ): Promise<ListExtractionPagesResponse> {
+    return await this.extractionService.getRunPages(id);
+  }
+
+  /**
+   * List the log entries of an extraction run, oldest first, filtered by level,
+   * event, page range or message text; pass nextCursor back for the next page
+   * @summary List extraction run logs
+   * @tag extraction
+   */
+  @TypedRoute.Get('runs/:id/logs')
+  async getRunLogs(
+    @TypedParam('id') id: string,
+    @TypedQuery() query: ExtractionLogFilterDto,
+  ): Promise<ListExtractionLogsResponse> {
+    return await this.extractionService.getRunLogs(id, query);
+  }
+
+  /**
+   * Re-run every failed page of an extraction run
+   * @summary Retry failed pages
+   * @tag extraction
+   */
+  @TypedRoute.Post('runs/:id/retry-failed')
+  async retryFailedPages(
+    @TypedParam('id') id: string,
+    @TypedQuery() query: ReprocessPagesDto,
+  ): Promise<StartExtractionResponse> {
+    return await this.extractionService.retryFailedPages(id, query);
+  }
+
+  /**
+   * Re-run a single page of an extraction run
+   * @summary Reprocess a page
+   * @tag extraction
+   */
+  @TypedRoute.Post('runs/:id/pages/:page/reprocess')
+  async reprocessPage(
+    @TypedParam('id') id: string,
+    @TypedParam('page') page: number,
+    @TypedQuery() query: ReprocessPagesDto,
+  ): Promise<StartExtractionResponse> {
+    return await this.extractionService.reprocessPage(id, page, query);
+  }
+
+  /**
+   * List extracted questions staged for review
+   * @summary List extraction candidates
+   * @tag extraction
+   */
+  @TypedRoute.Get('candidates')
+  async findCandidates(
+    @TypedQuery() query: ExtractionCandidateFilterDto,
+  ): Promise<ListExtractionCandidatesResponse> {
+    return await this.extractionService.findCandidates(query);
   }
 
   /**
-   * Clear extraction state
-   * @summary Clear extraction state
+   * Get a single extraction candidate
+   * @summary Get extraction candidate
    * @tag extraction
    */
-  @TypedRoute.Delete('clear')
-  async clearExtractionState(): Promise<{ message: string }> {
-    await this.extractionService.clearExtractionState();
-    return { message: 'Extraction state cleared successfully' };
+  @TypedRoute.Get('candidates/:id')
+  async getCandidate(
+    @TypedParam('id') id: string,
+  ): Promise<ReviewCandidateResponse> {
+    return await this.extractionService.getCandidate(id);
+  }
+
+  /**
+   * Compare a candidate field by field with the existing question it was matched with
+   * @summary Diff extraction candidate
+   * @tag extraction
+   */
+  @TypedRoute.Get('candidates/:id/diff')
+  async getCandidateDiff(
+    @TypedParam('id') id: string,
+  ): Promise<ExtractionCandidateDiffResponse> {
+    return await this.extractionService.getCandidateDiff(id);
+  }
+
+  /**
+   * Add a candidate to the question bank as a new question
+   * @summary Accept extraction candidate
+   * @tag extraction
+   */
+  @TypedRoute.Post('candidates/:id/accept')
+  async acceptCandidate(
+    @TypedParam('id') id: string,
+  ): Promise<ReviewCandidateResponse> {
+    return await this.extractionService.acceptCandidate(id);
+  }
+
+  /**
+   * Copy fields of a candidate onto an existing question
+   * @summary Merge extraction candidate
+   * @tag extraction
+   */
+  @TypedRoute.Post('candidates/:id/merge')
+  async mergeCandidate(
+    @TypedParam('id') id: string,
+    @TypedBody() body: MergeCandidateDto,
+  ): Promise<ReviewCandidateResponse> {
+    return await this.extractionService.mergeCandidate(id, body);
+  }
+
+  /**
+   * Reject a candidate without changing the question bank
+   * @summary Discard extraction candidate
+   * @tag extraction
+   */
+  @TypedRoute.Post('candidates/:id/discard')
+  async discardCandidate(
+    @TypedParam('id') id: string,
+  ): Promise<ReviewCandidateResponse> {
+    return await this.extractionService.discardCandidate(id);
+  }
+
+  /**
+   * Get queue status
+   * @summary Get queue status
+   * @tag extraction
+   */
+  @TypedRoute.Get('queue-status')
+  async getQueueStatus(): Promise<QueueStatusResponse> {
+    return await this.extractionService.getQueueStatus();
   }
 }
@@ -1,14 +1,31 @@
 import { BullModule } from '@nestjs/bull';
 import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
 import { CategoriesModule } from '../categories/categories.module';
 import { IntakesModule } from '../intakes/intakes.module';
+import { LlmModule } from '../llm/llm.module';
+import { PromptTemplatesModule } from '../prompt-templates/prompt-templates.module';
 import { QuestionsModule } from '../questions/questions.module';
-import { SettingsModule } from '../settings/settings.module';
+import { SourceProfilesModule } from '../source-profiles/source-profiles.module';
+import { AnswerDetectionService } from './answer-detection.service';
+import { AnswerVerificationService } from './answer-verification.service';
+import { EnsembleExtractionService } from './ensemble-extraction.service';
+import { ExtractionCandidatesService } from './extraction-candidates.service';
+import { ExtractionLogsService } from './extraction-logs.service';
+import { ExtractionRecoveryService } from './extraction-recovery.service';
+import { ExtractionRunsService } from './extraction-runs.service';
 import { ExtractionController } from './extraction.controller';
 import { ExtractionProcessor } from './extraction.processor';
 import { ExtractionService } from './extraction.service';
 import { OllamaService } from './ollama.service';
+import { PdfEmphasisService } from './pdf-emphasis.service';
+import { PdfImageService } from './pdf-image.service';
+import { PdfLayoutService } from './pdf-layout.service';
 import { PdfService } from './pdf.service';
+import { QuestionStitchingService } from './question-stitching.service';
+import { QuestionValidationService } from './question-validation.service';
+import { RuleBasedParserService } from './rule-based-parser.service';
+import { SourceDocumentsService } from './source-documents.service';
 
 @Module({
   imports: [
@@ -17,16 +34,34 @@ import { PdfService } from './pdf.service';
     }),
     CategoriesModule,
     IntakesModule,
+    LlmModule,
+    PromptTemplatesModule,
     QuestionsModule,
-    SettingsModule,
+    SourceProfilesModule,
   ],
   controllers: [ExtractionController],
   providers: [
+    AnswerDetectionService,
+    AnswerVerificationService,
+    EnsembleExtractionService,
     ExtractionService,
     ExtractionProcessor,
+    ExtractionCandidatesService,
+    ExtractionLogsService,
+    ExtractionRecoveryService,
+    ExtractionRunsService,
     OllamaService,
+    PdfEmphasisService,
+    PdfImageService,
+    PdfLayoutService,
     PdfService,
+    PrismaService,
+    QuestionStitchingService,
+    QuestionValidationService,
+    RuleBasedParserService,
+    SourceDocumentsService,
   ],
-  exports: [ExtractionService, OllamaService],
+  // BullModule shares the extraction queue, e.g. for health checks
+  exports: [BullModule, ExtractionService, OllamaService],
 })
 export class ExtractionModule {}
@@ -1,353 +1,1010 @@
-import { Process, Processor } from '@nestjs/bull';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
-import { Job } from 'bull';
-import { QuestionStatus } from '../../common/CONSTANTS/questions.constants';
-import { CategoriesService } from '../categories/categories.service';
-import { IntakesService } from '../intakes/intakes.service';
+import { ConfigService } from '@nestjs/config';
+import {
+  ExtractionPageStatus,
+  ExtractionRun,
+  ExtractionRunStatus,
+} from '@prisma/client';
+import { Job, JobOptions, Queue } from 'bull';
+import {
+  ExtractionLogEvent,
+  ExtractionLogLevel,
+  ExtractionParser,
+  TextLayoutMode,
+} from '../../common/CONSTANTS';
 import { QuestionsService } from '../questions/questions.service';
-import { ExtractionStateDto, ExtractionStatus } from '../settings/dto';
-import { SettingsService } from '../settings/settings.service';
+import { SourceProfilesService } from '../source-profiles/source-profiles.service';
+import { AnswerDetectionService } from './answer-detection.service';
+import { AnswerVerificationService } from './answer-verification.service';
+import { EnsembleExtractionService } from './ensemble-extraction.service';
+import {
+  CancellationToken,
+  ExtractionCancelledError,
+} from './cancellation-token';
+import { ExtractionCandidatesService } from './extraction-candidates.service';
+import { ExtractionLogContext } from './extraction-logs.service';
+import {
+  ExtractionPageData,
+  ExtractionRunsService,
+} from './extraction-runs.service';
 import { ExtractedQuestion, OllamaService } from './ollama.service';
-import { PdfService } from './pdf.service';
+import { EmphasisedSpan } from './pdf-emphasis.service';
+import { PdfPageImage } from './pdf-image.service';
+import { PdfExtractionOptions, PdfService } from './pdf.service';
+import {
+  PageCarryOver,
+  QuestionStitchingService,
+} from './question-stitching.service';
+import { QuestionValidationService } from './question-validation.service';
+import { RuleBasedParserService } from './rule-based-parser.service';
+import { SourceDocumentsService } from './source-documents.service';
 
 export interface ExtractionJobData {
-  extractionId: string;
-  filename: string;
-  model?: string;
-  startPage?: number;
-  maxPages?: number;
-  overwrite?: boolean;
+  runId: string;
   isContinuation?: boolean;
+  // Set once the run has had to wait for a processing slot, so the wait is logged once
+  waitingForSlot?: boolean;
 }
 
+export interface ReprocessPagesJobData {
+  runId: string;
+  pages: number[];
+  // Status to return to once the pages are done
+  previousStatus: ExtractionRunStatus;
+  // Ask the model again for these pages, whatever the run's own setting
+  bypassLlmCache?: boolean;
+  waitingForSlot?: boolean;
+}
+
+export interface ExtractionPageJobData {
+  runId: string;
+  pageNumber: number;
+  // The run's pageGeneration when the job was queued
+  generation?: number;
+  // Set when reprocessing: status to return to once every page is done
+  previousStatus?: ExtractionRunStatus;
+  bypassLlmCache?: boolean;
+}
+
+// Stems that point at a figure, e.g. "the radiograph shown" or "see image"
+const FIGURE_REFERENCE =
+  /\b(image|figure|fig\.|picture|photograph|radiograph|x-ray|scan|diagram|shown)\b/i;
+
+// How many jobs, and so pages across all runs, may be processed at the same time.
+// Bull adds up the concurrency of every named handler on a queue, so all jobs go
+// through the one handler below.
+const EXTRACTION_PAGE_CONCURRENCY = parseInt(
+  process.env.EXTRACTION_PAGE_CONCURRENCY || '1',
+);
+
+/**
+ * A run is processed as one job that opens the PDF and queues a job per page. Page
+ * jobs are retried by Bull with exponential backoff, and the last one to finish
+ * rebuilds the run's counters and marks it completed. A run waits in QUEUED until
+ * one of the EXTRACTION_CONCURRENCY processing slots is free.
+ */
 @Processor('extraction')
 export class ExtractionProcessor {
   private readonly logger = new Logger(ExtractionProcessor.name);
+  private readonly pageJobOptions: JobOptions;
+  private readonly runConcurrency: number;
+  private readonly slotRetryDelayMs: number;
 
   constructor(
     private readonly ollamaService: OllamaService,
     private readonly pdfService: PdfService,
     private readonly questionsService: QuestionsService,
-    private readonly categoriesService: CategoriesService,
-    private readonly intakesService: IntakesService,
-    private readonly settingsService: SettingsService,
-  ) {}
-
-  @Process('extract')
-  async handleExtraction(job: Job<ExtractionJobData>) {
-    const {
-      extractionId,
-      filename,
-      model,
-      startPage,
-      maxPages,
-      overwrite,
-      isContinuation,
-    } = job.data;
-
-    this.logger.log(
-      `${isContinuation ? 'Continuing' : 'Starting'} extraction job ${extractionId} for ${filename}`,
+    private readonly extractionRunsService: ExtractionRunsService,
+    private readonly extractionCandidatesService: ExtractionCandidatesService,
+    private readonly sourceDocumentsService: SourceDocumentsService,
+    private readonly questionStitchingService: QuestionStitchingService,
+    private readonly questionValidationService: QuestionValidationService,
+    private readonly answerDetectionService: AnswerDetectionService,
+    private readonly answerVerificationService: AnswerVerificationService,
+    private readonly ruleBasedParserService: RuleBasedParserService,
+    private readonly ensembleExtractionService: EnsembleExtractionService,
+    private readonly sourceProfilesService: SourceProfilesService,
+    private configService: ConfigService,
+    @InjectQueue('extraction') private readonly extractionQueue: Queue,
+  ) {
+    this.pageJobOptions = {
+      attempts: Number(
+        this.configService.get<string>('EXTRACTION_PAGE_ATTEMPTS', '3'),
+      ),
+      backoff: {
+        type: 'exponential',
+        delay: Number(
+          this.configService.get<string>('EXTRACTION_PAGE_BACKOFF_MS', '5000'),
+        ),
+      },
+    };
+    this.runConcurrency = Number(
+      this.configService.get<string>('EXTRACTION_CONCURRENCY', '1'),
+    );
+    this.slotRetryDelayMs = Number(
+      this.configService.get<string>('EXTRACTION_SLOT_RETRY_MS', '5000'),
     );
+  }
 
-    try {
-      // Set the current PDF in the PDF service
-      this.pdfService.setCurrentPdf(filename);
+  @Process({ name: '*', concurrency: EXTRACTION_PAGE_CONCURRENCY })
+  async handleJob(job: Job) {
+    switch (job.name) {
+      case 'extract':
+        return this.handleExtraction(job as Job<ExtractionJobData>);
+      case 'reprocess-pages':
+        return this.handlePageReprocessing(job as Job<ReprocessPagesJobData>);
+      case 'extract-page':
+        return this.handlePageExtraction(job as Job<ExtractionPageJobData>);
+      default:
+        this.logger.warn(`Ignoring unknown extraction job ${job.name}`);
+    }
+  }
 
-      // Set the model in the Ollama service if provided
-      if (model) {
-        this.ollamaService.setModel(model);
-      }
+  private async handleExtraction(job: Job<ExtractionJobData>) {
+    const { runId, isContinuation } = job.data;
 
-      let currentState: ExtractionStateDto;
+    let run: ExtractionRun;
+    try {
+      run = await this.extractionRunsService.findOne(runId);
+    } catch (error) {
+      this.logger.error(`Extraction run ${runId} could not be loaded:`, error);
+      return;
+    }
 
-      if (isContinuation) {
-        // For continuation, get the existing state and verify it
-        const existingState = await this.settingsService.getExtractionState();
-        if (!existingState) {
-          throw new Error(
-            'No existing extraction state found for continuation',
-          );
-        }
+    // The run was stopped while it was waiting in the queue
+    if (run.status !== ExtractionRunStatus.QUEUED) {
+      this.logger.log(
+        `Skipping extraction run ${runId} with status ${run.status}`,
+      );
+      return;
+    }
 
-        // Update the extraction ID but preserve all other progress
-        currentState = {
-          ...existingState,
-          extractionId,
-          status: ExtractionStatus.PROCESSING,
-        };
+    if (!(await this.claimSlot(job))) {
+      return;
+    }
 
-        currentState.logs.push(
-          `[${new Date().toISOString()}] Continuing extraction from page ${startPage}`,
+    const { filename } = run;
+    this.logger.log(
+      `${isContinuation ? 'Continuing' : 'Starting'} extraction run ${runId} for ${filename}`,
+    );
+
+    try {
+      run = await this.extractionRunsService.findOne(runId);
+      await this.extractionRunsService.appendLog(
+        runId,
+        isContinuation
+          ? `Continuing extraction for ${filename}`
+          : `Starting extraction for ${filename}`,
+        { event: ExtractionLogEvent.RUN_STARTED },
+      );
+      if (run.ensembleModels.length > 1) {
+        await this.extractionRunsService.appendLog(
+          runId,
+          `Settling each page by vote of ${run.ensembleModels.join(', ')}`,
+          {
+            event: ExtractionLogEvent.RUN_STARTED,
+            payload: { ensembleModels: run.ensembleModels },
+          },
         );
-      } else {
-        // Initialize new extraction state
-        currentState = {
-          status: ExtractionStatus.PROCESSING,
-          selectedPdf: filename,
-          progress: 0,
-          totalPages: 0,
-          processedPages: 0,
-          failedPages: [],
-          logs: [
-            `[${new Date().toISOString()}] Starting extraction for ${filename}`,
-          ],
-          startTime: new Date().toISOString(),
-          extractedQuestions: 0,
-          questionsPerPage: {},
-          verifiedQuestions: 0,
-          updatedQuestions: 0,
-          skippedQuestions: 0,
-          extractionId,
-          model,
-          startPage,
-          maxPages,
-          overwrite,
-        };
       }
-
-      await this.settingsService.saveExtractionState(currentState);
-
-      // Get PDF information (only if not continuation or if totalPages is not set)
-      let pdfInfo: any;
-      if (!isContinuation || !currentState.totalPages) {
-        pdfInfo = await this.pdfService.getPdfInfo();
-        currentState = {
-          ...currentState,
-          totalPages: pdfInfo.totalPages,
-        };
-        currentState.logs.push(
-          `[${new Date().toISOString()}] PDF loaded: ${pdfInfo.totalPages} pages`,
+      if (run.verifyAnswers) {
+        await this.extractionRunsService.appendLog(
+          runId,
+          `Verifying answers with ${run.verificationModel ?? 'the verification task model'}`,
+          { event: ExtractionLogEvent.RUN_STARTED },
+        );
+      }
+      await this.sourceDocumentsService.recordExtractionStatus(
+        filename,
+        ExtractionRunStatus.PROCESSING,
+      );
+      await this.logSourceProfile(run);
+
+      // Get PDF information (a continued run already knows its page count)
+      if (!run.totalPages) {
+        const pdfInfo = await this.pdfService.getPdfInfo(filename);
+        run.totalPages = pdfInfo.totalPages;
+        await this.extractionRunsService.appendLog(
+          runId,
+          `PDF loaded: ${pdfInfo.totalPages} pages`,
         );
-        await this.settingsService.saveExtractionState(currentState);
-      } else {
-        // For continuation, create a mock pdfInfo object with the totalPages from state
-        pdfInfo = { totalPages: currentState.totalPages };
       }
 
       // Determine start and end pages
-      const actualStartPage = startPage || 1;
-      const actualMaxPages = maxPages || pdfInfo.totalPages;
-      const endPage = Math.min(
-        actualStartPage + actualMaxPages - 1,
-        pdfInfo.totalPages,
+      if (!run.endPage) {
+        run.endPage = Math.min(
+          run.startPage + (run.maxPages || run.totalPages) - 1,
+          run.totalPages,
+        );
+      }
+      await this.extractionRunsService.savePageRange(run);
+
+      // A continued or resumed run only queues the pages without an outcome
+      const pages = await this.extractionRunsService.findUnprocessedPages(run);
+      await this.extractionRunsService.appendLog(
+        runId,
+        pages.length > 0
+          ? `Queueing ${pages.length} page(s) from page ${pages[0]} (pages ${run.startPage}-${run.endPage} of ${run.totalPages})`
+          : 'Every page already has an outcome',
+        { event: ExtractionLogEvent.PAGES_QUEUED, payload: { pages } },
       );
+      await this.queuePages(run, pages);
+    } catch (error) {
+      this.logger.error(`Extraction run ${runId} failed:`, error);
 
-      currentState.logs.push(
-        `[${new Date().toISOString()}] Processing pages ${actualStartPage}-${endPage} of ${pdfInfo.totalPages}`,
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      await this.extractionRunsService.updateStatus(
+        runId,
+        ExtractionRunStatus.FAILED,
+        { error: errorMessage },
       );
-      await this.settingsService.saveExtractionState(currentState);
-
-      // Process pages sequentially
-      for (
-        let pageNumber = actualStartPage;
-        pageNumber <= endPage;
-        pageNumber++
-      ) {
-        await this.processPage(pageNumber, filename, currentState, overwrite);
-      }
+      await this.extractionRunsService.appendLog(
+        runId,
+        `Extraction failed: ${errorMessage}`,
+        {
+          level: ExtractionLogLevel.ERROR,
+          event: ExtractionLogEvent.RUN_FAILED,
+        },
+      );
+      await this.sourceDocumentsService.recordExtractionStatus(
+        filename,
+        ExtractionRunStatus.FAILED,
+      );
+    }
+  }
 
-      // Mark extraction as completed
-      await this.updateExtractionState({
-        ...currentState,
-        status: ExtractionStatus.COMPLETED,
-        endTime: new Date().toISOString(),
-        logs: [
-          ...currentState.logs,
-          `[${new Date().toISOString()}] Extraction completed successfully`,
-          `[${new Date().toISOString()}] Total questions extracted: ${currentState.extractedQuestions}`,
-          `[${new Date().toISOString()}] Verified questions skipped: ${currentState.verifiedQuestions}`,
-          `[${new Date().toISOString()}] Questions updated: ${currentState.updatedQuestions}`,
-          `[${new Date().toISOString()}] Questions skipped: ${currentState.skippedQuestions}`,
-        ],
-      });
+  /**
+   * Re-run selected pages of a finished, stopped or failed run
+   */
+  private async handlePageReprocessing(job: Job<ReprocessPagesJobData>) {
+    const { runId, pages, previousStatus, bypassLlmCache } = job.data;
+
+    let run: ExtractionRun;
+    try {
+      run = await this.extractionRunsService.findOne(runId);
+    } catch (error) {
+      this.logger.error(`Extraction run ${runId} could not be loaded:`, error);
+      return;
+    }
+
+    if (run.status !== ExtractionRunStatus.QUEUED) {
+      this.logger.log(
+        `Skipping page reprocessing for run ${runId} with status ${run.status}`,
+      );
+      return;
+    }
+
+    if (!(await this.claimSlot(job))) {
+      return;
+    }
+
+    try {
+      run = await this.extractionRunsService.findOne(runId);
+      await this.extractionRunsService.appendLog(
+        runId,
+        `Reprocessing page(s) ${pages.join(', ')}`,
+        { event: ExtractionLogEvent.RUN_STARTED, payload: { pages } },
+      );
+      await this.logSourceProfile(run);
 
-      this.logger.log(`Extraction job ${extractionId} completed successfully`);
+      await this.queuePages(run, pages, previousStatus, bypassLlmCache);
     } catch (error) {
-      this.logger.error(`Extraction job ${extractionId} failed:`, error);
+      this.logger.error(`Reprocessing pages of run ${runId} failed:`, error);
 
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
 
-      // Get current state to preserve progress in case of failure
-      const failedState = await this.settingsService.getExtractionState();
-      const stateToUpdate = failedState || {
-        status: ExtractionStatus.FAILED,
-        selectedPdf: filename,
-        progress: 0,
-        totalPages: 0,
-        processedPages: 0,
-        failedPages: [],
-        logs: [],
-        startTime: new Date().toISOString(),
-        extractedQuestions: 0,
-        questionsPerPage: {},
-        verifiedQuestions: 0,
-        updatedQuestions: 0,
-        skippedQuestions: 0,
-        extractionId,
-      };
+      await this.extractionRunsService.updateStatus(
+        runId,
+        ExtractionRunStatus.FAILED,
+        { error: errorMessage },
+      );
+      await this.extractionRunsService.appendLog(
+        runId,
+        `Reprocessing failed: ${errorMessage}`,
+        {
+          level: ExtractionLogLevel.ERROR,
+          event: ExtractionLogEvent.RUN_FAILED,
+        },
+      );
+    }
+  }
 
-      await this.updateExtractionState({
-        ...stateToUpdate,
-        status: ExtractionStatus.FAILED,
-        endTime: new Date().toISOString(),
-        error: errorMessage,
-        logs: [
-          ...stateToUpdate.logs,
-          `[${new Date().toISOString()}] Extraction failed: ${errorMessage}`,
-        ],
-      });
+  /**
+   * Process one page of a run. A failure is thrown back to Bull so the page is retried
+   * with backoff; once attempts run out the page is left recorded as failed.
+   */
+  private async handlePageExtraction(job: Job<ExtractionPageJobData>) {
+    const { runId, pageNumber } = job.data;
+
+    let run: ExtractionRun;
+    try {
+      run = await this.extractionRunsService.findOne(runId);
+    } catch (error) {
+      this.logger.error(`Extraction run ${runId} could not be loaded:`, error);
+      return;
+    }
+
+    // The run was stopped, paused or failed while the page was waiting in the queue
+    if (run.status !== ExtractionRunStatus.PROCESSING) {
+      this.logger.log(
+        `Skipping page ${pageNumber} of run ${runId} with status ${run.status}`,
+      );
+      return;
     }
+
+    // The run's pages were queued again, with a new job for this page
+    const generation = job.data.generation ?? 0;
+    if (generation !== run.pageGeneration) {
+      this.logger.log(
+        `Skipping page ${pageNumber} of run ${runId} from an earlier batch`,
+      );
+      return;
+    }
+
+    // Applies to this reprocessing only; the run keeps its own setting
+    if (job.data.bypassLlmCache) {
+      run = { ...run, bypassLlmCache: true };
+    }
+
+    const cancellation = this.extractionRunsService.createCancellationToken(
+      runId,
+      generation,
+    );
+    const attempts = job.opts.attempts ?? 1;
+    const attempt = job.attemptsMade + 1;
+    try {
+      const carryOver =
+        pageNumber > run.startPage
+          ? await this.readCarryOver(pageNumber - 1, run)
+          : null;
+      await this.processPage(
+        pageNumber,
+        run,
+        carryOver,
+        pageNumber === run.endPage,
+        cancellation,
+      );
+    } catch (error) {
+      // Left without an outcome, so continuing or resuming the run queues it again
+      if (error instanceof ExtractionCancelledError) {
+        await this.extractionRunsService.appendLog(
+          runId,
+          error.superseded
+            ? `Page ${pageNumber}: abandoned, the page was queued again`
+            : `Page ${pageNumber}: abandoned, run is ${error.status ?? 'gone'}`,
+          { event: ExtractionLogEvent.PAGE_CANCELLED, pageNumber },
+        );
+        return;
+      }
+      if (attempt < attempts) {
+        await this.extractionRunsService.appendLog(
+          runId,
+          `Page ${pageNumber}: attempt ${attempt}/${attempts} failed, retrying`,
+          {
+            level: ExtractionLogLevel.WARN,
+            event: ExtractionLogEvent.PAGE_RETRIED,
+            pageNumber,
+            payload: { attempt, attempts },
+          },
+        );
+        throw error;
+      }
+      await this.extractionRunsService.appendLog(
+        runId,
+        `Page ${pageNumber}: giving up after ${attempts} attempt(s)`,
+        {
+          level: ExtractionLogLevel.ERROR,
+          event: ExtractionLogEvent.PAGE_FAILED,
+          pageNumber,
+        },
+      );
+    }
+
+    await this.completePage(job.data);
+  }
+
+  /**
+   * Start processing the job's run if a slot is free, or queue the job again to try
+   * later. The run stays QUEUED while it waits, so it can still be stopped or paused.
+   * @returns Whether the run is now PROCESSING
+   */
+  private async claimSlot(
+    job: Job<ExtractionJobData | ReprocessPagesJobData>,
+  ): Promise<boolean> {
+    const { runId } = job.data;
+    if (
+      await this.extractionRunsService.claimProcessingSlot(
+        runId,
+        this.runConcurrency,
+      )
+    ) {
+      return true;
+    }
+
+    // Stopped or paused since the status was read
+    if (
+      (await this.extractionRunsService.getStatus(runId)) !==
+      ExtractionRunStatus.QUEUED
+    ) {
+      return false;
+    }
+
+    if (!job.data.waitingForSlot) {
+      await this.extractionRunsService.appendLog(
+        runId,
+        `Waiting for one of the ${this.runConcurrency} processing slot(s) to free up`,
+      );
+    }
+    await this.extractionQueue.add(
+      job.name,
+      { ...job.data, waitingForSlot: true },
+      { delay: this.slotRetryDelayMs },
+    );
+    return false;
+  }
+
+  /**
+   * Queue a job per page; with nothing to queue the run is finished straight away
+   */
+  private async queuePages(
+    run: ExtractionRun,
+    pages: number[],
+    previousStatus?: ExtractionRunStatus,
+    bypassLlmCache?: boolean,
+  ): Promise<void> {
+    if (pages.length === 0) {
+      await this.finishRun(
+        await this.extractionRunsService.aggregatePages(run.id),
+        previousStatus,
+      );
+      return;
+    }
+
+    const generation = await this.extractionRunsService.startPageBatch(
+      run.id,
+      pages.length,
+    );
+    await this.extractionQueue.addBulk(
+      pages.map((pageNumber) => ({
+        name: 'extract-page',
+        data: {
+          runId: run.id,
+          pageNumber,
+          generation,
+          previousStatus,
+          bypassLlmCache,
+        } satisfies ExtractionPageJobData,
+        opts: this.pageJobOptions,
+      })),
+    );
+  }
+
+  /**
+   * Fold a finished page into the run, and finish the run after its last page
+   */
+  private async completePage({
+    runId,
+    generation = 0,
+    previousStatus,
+  }: ExtractionPageJobData): Promise<void> {
+    const remaining = await this.extractionRunsService.completePendingPage(
+      runId,
+      generation,
+    );
+    // A job of an earlier batch; the newer batch finishes the run
+    if (remaining === null) {
+      return;
+    }
+    const run = await this.extractionRunsService.aggregatePages(runId);
+
+    if (remaining <= 0) {
+      await this.finishRun(run, previousStatus);
+    }
+  }
+
+  private async finishRun(
+    run: ExtractionRun,
+    previousStatus?: ExtractionRunStatus,
+  ): Promise<void> {
+    // Reprocessing goes back to where the run was, unless every page has now been covered
+    const finished =
+      run.endPage !== null && run.lastProcessedPage >= run.endPage;
+    const status =
+      previousStatus && !finished
+        ? previousStatus
+        : ExtractionRunStatus.COMPLETED;
+
+    // A run stopped while its last pages were processed stays stopped
+    const changed = await this.extractionRunsService.updateStatusFrom(
+      run.id,
+      ExtractionRunStatus.PROCESSING,
+      status,
+    );
+    if (!changed) {
+      return;
+    }
+
+    if (previousStatus) {
+      await this.extractionRunsService.appendLog(
+        run.id,
+        `Reprocessing finished - ${run.failedPages.length} page(s) still failing`,
+        {
+          event: ExtractionLogEvent.RUN_COMPLETED,
+          payload: { failedPages: run.failedPages },
+        },
+      );
+      return;
+    }
+
+    await this.extractionRunsService.appendLog(
+      run.id,
+      `Extraction completed successfully - ${run.extractedQuestions} created, ${run.updatedQuestions} updated, ${run.verifiedQuestions} verified skipped, ${run.skippedQuestions} skipped`,
+      { event: ExtractionLogEvent.RUN_COMPLETED },
+    );
+    await this.sourceDocumentsService.recordExtractionStatus(
+      run.filename,
+      ExtractionRunStatus.COMPLETED,
+    );
+
+    this.logger.log(`Extraction run ${run.id} completed successfully`);
+  }
+
+  /**
+   * Note the source profile for the run's PDF; edits to profiles apply from the next run or retry
+   */
+  private async logSourceProfile(run: ExtractionRun): Promise<void> {
+    const source = await this.sourceProfilesService.resolve(run.filename);
+    if (source.profileName) {
+      await this.extractionRunsService.appendLog(
+        run.id,
+        `Using source profile "${source.profileName}"`,
+      );
+    }
+  }
+
+  /**
+   * The unfinished question at the end of the previous page. Each page is its own job,
+   * so the fragment is read from the previous page's record, or from the PDF again
+   * when that page has not been recorded yet.
+   */
+  private async readCarryOver(
+    pageNumber: number,
+    run: ExtractionRun,
+  ): Promise<PageCarryOver | null> {
+    const recorded = await this.extractionRunsService.findCarryOver(
+      run.id,
+      pageNumber,
+    );
+    if (recorded !== undefined) {
+      return recorded;
+    }
+
+    try {
+      const pageContent = await this.pdfService.extractSinglePage(
+        pageNumber,
+        this.getPageOptions(run),
+      );
+      const { carryOver } = this.questionStitchingService.splitTrailingQuestion(
+        pageContent.text,
+      );
+      if (!carryOver) {
+        return null;
+      }
+
+      return {
+        pageNumber,
+        text: carryOver,
+        emphasis: pageContent.emphasis ?? [],
+        images: pageContent.images ?? [],
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Could not read the end of page ${pageNumber} for run ${run.id}:`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  private getPageOptions(run: ExtractionRun): PdfExtractionOptions {
+    return {
+      pdfFilename: run.filename,
+      layoutMode: run.layoutMode as TextLayoutMode,
+      detectEmphasis: this.answerDetectionService.isEnabled(),
+      extractImages: true,
+    };
   }
 
+  /**
+   * Extract, parse and stage one page, recording the outcome of every attempt
+   * @throws When the page failed and may be retried, or the run was cancelled
+   */
   private async processPage(
     pageNumber: number,
-    pdf: string,
-    state: any,
-    overwrite: boolean = false,
-  ) {
+    run: ExtractionRun,
+    carryOver: PageCarryOver | null,
+    isLastPage: boolean,
+    cancellation: CancellationToken,
+  ): Promise<void> {
+    const log = (message: string, context: ExtractionLogContext = {}) =>
+      this.extractionRunsService.appendLog(
+        run.id,
+        `Page ${pageNumber}: ${message}`,
+        { pageNumber, ...context },
+      );
+    const record: ExtractionPageData = {
+      status: ExtractionPageStatus.SKIPPED,
+      textLength: 0,
+      parsedQuestions: 0,
+      createdQuestions: 0,
+      updatedQuestions: 0,
+      verifiedQuestions: 0,
+      skippedQuestions: 0,
+    };
+
+    let cancelled = false;
+
     try {
-      state.logs.push(
-        `[${new Date().toISOString()}] Processing page ${pageNumber}/${state.totalPages}`,
+      await cancellation.throwIfCancelled();
+      await this.extractionRunsService.appendLog(
+        run.id,
+        `Processing page ${pageNumber}/${run.totalPages}`,
+        { event: ExtractionLogEvent.PAGE_STARTED, pageNumber },
       );
-      await this.settingsService.saveExtractionState(state);
+      const source = await this.sourceProfilesService.resolve(run.filename);
 
-      // Extract text from PDF page
+      // Extract text from PDF page, falling back to OCR for scanned pages
       let pageText: string;
+      let emphasis: EmphasisedSpan[] = [];
+      let images: PdfPageImage[] = [];
       try {
-        pageText = await this.pdfService.extractTextFromPage(pageNumber);
+        const pageContent = await this.pdfService.extractSinglePage(
+          pageNumber,
+          this.getPageOptions(run),
+        );
+        pageText = pageContent.text;
+        emphasis = pageContent.emphasis ?? [];
+        images = pageContent.images ?? [];
+        record.textLength = pageContent.text.length;
+        record.extractionMethod = pageContent.method;
+        record.textConfidence = pageContent.confidence;
+
+        if (pageContent.method === 'ocr') {
+          await log(
+            `No text layer, used OCR (confidence ${Math.round(pageContent.confidence * 100)}%)`,
+            {
+              event: ExtractionLogEvent.PAGE_TEXT,
+              payload: { confidence: pageContent.confidence },
+            },
+          );
+        }
       } catch (error) {
         const errorMessage =
           error instanceof Error ? error.message : 'Unknown error';
-        state.logs.push(
-          `[${new Date().toISOString()}] Page ${pageNumber}: Failed to extract text - ${errorMessage}`,
-        );
-        this.updateProgress(pageNumber, state);
+        await log(`Failed to extract text - ${errorMessage}`, {
+          level: ExtractionLogLevel.ERROR,
+          event: ExtractionLogEvent.PAGE_TEXT,
+        });
+        record.status = ExtractionPageStatus.FAILED;
+        record.error = `Text extraction failed: ${errorMessage}`;
         return;
       }
 
-      if (!pageText || pageText.trim().length === 0) {
-        state.logs.push(
-          `[${new Date().toISOString()}] Page ${pageNumber}: No text found, skipping`,
-        );
-        this.updateProgress(pageNumber, state);
+      // A question carried onto an empty page is still extracted on its own
+      if ((!pageText || pageText.trim().length === 0) && !carryOver) {
+        await log('No text found, skipping', {
+          level: ExtractionLogLevel.WARN,
+          event: ExtractionLogEvent.PAGE_TEXT,
+        });
         return;
       }
 
-      // Extract questions using Ollama
-      const extractedQuestions =
-        await this.ollamaService.extractQuestionsFromText(
-          pageText,
-          pageNumber,
-          pdf,
+      // Hold back a question that continues on the next page. Only this page's own
+      // text is split, and the fragment is recorded for the next page's job.
+      if (!isLastPage) {
+        const split =
+          this.questionStitchingService.splitTrailingQuestion(pageText);
+        if (split.carryOver) {
+          pageText = split.text;
+          record.carryOver = { text: split.carryOver, emphasis, images };
+          await log(
+            'Last question continues on the next page, carrying it over',
+            { event: ExtractionLogEvent.PAGE_TEXT },
+          );
+        }
+      }
+
+      // Prepend the unfinished question from the previous page
+      if (carryOver) {
+        pageText = `${carryOver.text}\n${pageText}`;
+        await log(`Continuing question from page ${carryOver.pageNumber}`, {
+          event: ExtractionLogEvent.PAGE_TEXT,
+        });
+      }
+
+      // Extract questions with the run's parser
+      let extractedQuestions: ExtractedQuestion[] = [];
+      if (pageText.trim().length > 0) {
+        const result =
+          (run.parser as ExtractionParser) === ExtractionParser.RULES
+            ? await this.ruleBasedParserService.extract(
+                pageText,
+                pageNumber,
+                source,
+                run.model ?? undefined,
+                run.bypassLlmCache,
+                cancellation,
+              )
+            : run.ensembleModels.length > 1
+              ? await this.ensembleExtractionService.extract(
+                  pageText,
+                  pageNumber,
+                  run.ensembleModels,
+                  source,
+                  run.bypassLlmCache,
+                  cancellation,
+                )
+              : await this.ollamaService.extractQuestionsWithDetails(
+                  pageText,
+                  pageNumber,
+                  source,
+                  run.model ?? undefined,
+                  run.bypassLlmCache,
+                  cancellation,
+                );
+        extractedQuestions = result.questions;
+        record.llmLatencyMs = result.latencyMs;
+        record.rawResponse = result.rawResponse;
+        record.schemaViolations = result.schemaViolations;
+        record.responseRepaired = result.repaired;
+        record.parsedQuestions = result.parsedCount;
+
+        if (result.schemaViolations.length > 0) {
+          await log(
+            `Response broke the extraction schema in ${result.schemaViolations.length} places${result.repaired ? ' and was repaired' : ''}: ${result.schemaViolations.slice(0, 5).join('; ')}`,
+            {
+              level: ExtractionLogLevel.WARN,
+              event: ExtractionLogEvent.PAGE_PARSED,
+              payload: {
+                schemaViolations: result.schemaViolations,
+                repaired: result.repaired,
+              },
+            },
+          );
+        }
+      }
+
+      // Record which pages each question came from
+      for (const question of extractedQuestions) {
+        question.sourcePages =
+          carryOver &&
+          this.questionStitchingService.startsInCarryOver(
+            question.question,
+            carryOver.text,
+          )
+            ? [carryOver.pageNumber, pageNumber]
+            : [pageNumber];
+      }
+
+      this.assignImages(extractedQuestions, images, carryOver);
+
+      // Check answers against highlighted, coloured or bold options
+      this.answerDetectionService.apply(extractedQuestions, [
+        ...(carryOver?.emphasis ?? []),
+        ...emphasis,
+      ]);
+
+      // Have a second model answer the rest blind
+      if (run.verifyAnswers && extractedQuestions.length > 0) {
+        const disputed = await this.answerVerificationService.apply(
+          extractedQuestions,
+          run.verificationModel ?? undefined,
+          cancellation,
         );
+        if (disputed > 0) {
+          await log(
+            `Verifier disputed the answer to ${disputed} of ${extractedQuestions.length} questions`,
+            {
+              level: ExtractionLogLevel.WARN,
+              event: ExtractionLogEvent.PAGE_VERIFIED,
+              payload: { disputed },
+            },
+          );
+        }
+      }
 
-      // Process and store questions
+      // Stage questions for review, unless a newer job for the page has taken over
+      await cancellation.throwIfCancelled();
       const processedQuestions = await this.processExtractedQuestions(
         extractedQuestions,
         pageNumber,
-        overwrite,
-        pdf,
+        run,
+        record,
       );
+      record.status = ExtractionPageStatus.SUCCEEDED;
+      record.createdQuestions = processedQuestions.length;
 
       // Log extraction results
+      const completed = {
+        event: ExtractionLogEvent.PAGE_COMPLETED,
+        payload: {
+          parsed: record.parsedQuestions,
+          created: record.createdQuestions,
+          updated: record.updatedQuestions,
+          verified: record.verifiedQuestions,
+          skipped: record.skippedQuestions,
+        },
+      };
       if (processedQuestions.length > 0) {
-        state.extractedQuestions += processedQuestions.length;
-        state.questionsPerPage[pageNumber] = processedQuestions.length;
-
-        state.logs.push(
-          `[${new Date().toISOString()}] Page ${pageNumber}: Processed ${processedQuestions.length} questions`,
+        await log(
+          `Staged ${processedQuestions.length} questions for review`,
+          completed,
         );
-
-        // Log details for each question
-        processedQuestions.forEach((question, index) => {
-          state.logs.push(
-            `[${new Date().toISOString()}] Page ${pageNumber}, Q${index + 1}: "${question.question.substring(0, 100)}..." (${question.categories.join(', ')})`,
-          );
-        });
       } else {
-        state.logs.push(
-          `[${new Date().toISOString()}] Page ${pageNumber}: No valid questions found`,
-        );
+        await log('No valid questions found', completed);
       }
-
-      this.updateProgress(pageNumber, state);
     } catch (error) {
-      state.failedPages.push(pageNumber);
+      if (error instanceof ExtractionCancelledError) {
+        cancelled = true;
+        throw error;
+      }
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
-      state.logs.push(
-        `[${new Date().toISOString()}] Page ${pageNumber}: Error - ${errorMessage}`,
-      );
+      record.status = ExtractionPageStatus.FAILED;
+      record.error = errorMessage;
+      await log(`Error - ${errorMessage}`, {
+        level: ExtractionLogLevel.ERROR,
+        event: ExtractionLogEvent.PAGE_FAILED,
+      });
       this.logger.error(`Failed to process page ${pageNumber}:`, error);
+      throw error;
+    } finally {
+      if (!cancelled) {
+        await this.extractionRunsService.recordPage(run.id, pageNumber, record);
+      }
+    }
+  }
+
+  /**
+   * Give figures to the questions that refer to one, or to the only question on the page;
+   * a question continued from the previous page also gets that page's figures
+   */
+  private assignImages(
+    questions: ExtractedQuestion[],
+    pageImages: PdfPageImage[],
+    carryOver: PageCarryOver | null,
+  ): void {
+    if (pageImages.length === 0 && !carryOver?.images?.length) {
+      return;
+    }
+
+    const referring = questions.filter((question) =>
+      FIGURE_REFERENCE.test(question.question),
+    );
+    const targets =
+      referring.length > 0
+        ? referring
+        : questions.length === 1
+          ? questions
+          : [];
+
+    for (const question of targets) {
+      const continued =
+        carryOver && question.sourcePages?.includes(carryOver.pageNumber);
+      question.images = [
+        ...(continued ? (carryOver.images ?? []) : []),
+        ...pageImages,
+      ];
     }
   }
 
+  /**
+   * Stage valid questions as candidates for review; nothing is written to the question bank here
+   */
   private async processExtractedQuestions(
     extractedQuestions: ExtractedQuestion[],
     pageNumber: number,
-    overwrite: boolean = false,
-    pdfFilename: string,
+    run: ExtractionRun,
+    record: ExtractionPageData,
   ): Promise<ExtractedQuestion[]> {
-    const processedQuestions: ExtractedQuestion[] = [];
+    const stagedQuestions: ExtractedQuestion[] = [];
+    const aiModel = run.model ?? this.ollamaService.getDefaultModel();
+
+    // A reprocessed page replaces its unreviewed candidates
+    const cleared = await this.extractionCandidatesService.clearPending(
+      run.id,
+      pageNumber,
+    );
+    if (cleared > 0) {
+      this.logger.log(
+        `Page ${pageNumber}: Replaced ${cleared} unreviewed candidates`,
+      );
+    }
+
+    const log = (message: string, context: ExtractionLogContext) =>
+      this.extractionRunsService.appendLog(
+        run.id,
+        `Page ${pageNumber}: ${message}`,
+        { pageNumber, ...context },
+      );
 
     for (const extractedQuestion of extractedQuestions) {
+      const preview = `"${extractedQuestion.question.substring(0, 100)}..."`;
       try {
         // Validate question quality
-        if (!this.isQuestionValid(extractedQuestion)) {
+        if (!this.questionValidationService.isValid(extractedQuestion)) {
           this.logger.log(`Page ${pageNumber}: Skipping invalid question`);
+          await log(`Skipped invalid question ${preview}`, {
+            level: ExtractionLogLevel.DEBUG,
+            event: ExtractionLogEvent.QUESTION_SKIPPED,
+          });
+          record.skippedQuestions++;
           continue;
         }
 
         // Check if question already exists and is verified
-        const existingQuestion =
-          await this.findExistingQuestion(extractedQuestion);
-
-        if (existingQuestion) {
-          // If overwrite is enabled, update regardless of status
-          if (overwrite) {
-            await this.updateExistingQuestion(
-              existingQuestion.id,
-              extractedQuestion,
-              pdfFilename,
-            );
-            this.logger.log(
-              `Page ${pageNumber}: Updated existing question (overwrite mode)`,
-            );
-            continue;
-          }
+        const match = await this.findExistingQuestion(extractedQuestion);
 
-          if (existingQuestion.status === 'APPROVED') {
+        if (match && !run.overwrite) {
+          if (match.question.status === 'APPROVED') {
             // Skip verified questions
             this.logger.log(`Page ${pageNumber}: Skipping verified question`);
+            await log(`Skipped ${preview}, already approved`, {
+              level: ExtractionLogLevel.DEBUG,
+              event: ExtractionLogEvent.QUESTION_SKIPPED,
+              questionId: match.question.id,
+            });
+            record.verifiedQuestions++;
             continue;
-          } else {
-            // Update existing unverified question if new one is better
-            const shouldUpdate = this.shouldUpdateQuestion(
-              existingQuestion,
-              extractedQuestion,
-            );
+          }
 
-            if (shouldUpdate) {
-              await this.updateExistingQuestion(
-                existingQuestion.id,
-                extractedQuestion,
-                pdfFilename,
-              );
-              this.logger.log(`Page ${pageNumber}: Updated existing question`);
-            } else {
-              this.logger.log(
-                `Page ${pageNumber}: Skipping - existing question is better`,
-              );
-            }
+          if (!this.shouldUpdateQuestion(match.question, extractedQuestion)) {
+            this.logger.log(
+              `Page ${pageNumber}: Skipping - existing question is better`,
+            );
+            await log(`Skipped ${preview}, existing question is better`, {
+              level: ExtractionLogLevel.DEBUG,
+              event: ExtractionLogEvent.QUESTION_SKIPPED,
+              questionId: match.question.id,
+            });
+            record.skippedQuestions++;
             continue;
           }
         }
 
-        // Create new question
-        await this.createNewQuestion(extractedQuestion, pdfFilename);
-        processedQuestions.push(extractedQuestion);
-        this.logger.log(`Page ${pageNumber}: Created new question`);
+        const candidate = await this.extractionCandidatesService.stage(
+          run,
+          pageNumber,
+          extractedQuestion,
+          // An ensemble keeps the wording, and so credits the model, it settled on
+          extractedQuestion.consensus?.model ?? aiModel,
+          match && { questionId: match.question.id, score: match.score },
+        );
+        stagedQuestions.push(extractedQuestion);
+        await log(
+          `${match ? 'Staged update' : 'Staged'} ${preview} (${extractedQuestion.categories.join(', ')})`,
+          {
+            event: ExtractionLogEvent.QUESTION_STAGED,
+            questionId: match?.question.id,
+            payload: {
+              candidateId: candidate.id,
+              ...(match && { matchScore: match.score }),
+            },
+          },
+        );
+
+        if (match) {
+          this.logger.log(
+            `Page ${pageNumber}: Staged update for question ${match.question.id}`,
+          );
+          record.updatedQuestions++;
+        } else {
+          this.logger.log(`Page ${pageNumber}: Staged new question`);
+        }
       } catch (error) {
         this.logger.error(
           `Page ${pageNumber}: Error processing question:`,
@@ -356,69 +1013,12 @@ export class ExtractionProcessor {
       }
     }
 
-    return processedQuestions;
-  }
-
-  private isQuestionValid(question: ExtractedQuestion): boolean {
-    // Check if question text is meaningful
-    if (
-      !question.question ||
-      question.question.length < 20 ||
-      question.question.length > 2000 ||
-      question.question.includes('...') ||
-      question.question.includes('???')
-    ) {
-      return false;
-    }
-
-    // Check if all options are meaningful
-    const options = ['A', 'B', 'C', 'D', 'E'];
-    for (const option of options) {
-      const optionText = question.options[option];
-      if (
-        !optionText ||
-        optionText.length < 3 ||
-        optionText.length > 1000 ||
-        optionText.includes('...') ||
-        optionText.includes('???')
-      ) {
-        return false;
-      }
-    }
-
-    // Check if correct answer is valid
-    if (
-      !question.correctAnswer ||
-      !['A', 'B', 'C', 'D', 'E'].includes(question.correctAnswer)
-    ) {
-      return false;
-    }
-
-    // Check if categories are valid
-    if (!question.categories || question.categories.length === 0) {
-      return false;
-    }
-
-    // Check if year is reasonable
-    if (
-      !question.examYear ||
-      question.examYear < 2000 ||
-      question.examYear > 2030
-    ) {
-      return false;
-    }
-
-    // Check if intake is valid
-    if (!question.intake) {
-      return false;
-    }
-
-    return true;
+    return stagedQuestions;
   }
 
   private async findExistingQuestion(
     extractedQuestion: ExtractedQuestion,
-  ): Promise<any> {
+  ): Promise<{ question: any; score: number } | null> {
     try {
       // Simple similarity check - could be improved with more sophisticated matching
       const similarQuestions = await this.questionsService.findAll({
@@ -427,13 +1027,12 @@ export class ExtractionProcessor {
       });
 
       for (const question of similarQuestions.data) {
-        if (
-          this.calculateSimilarity(
-            question.question,
-            extractedQuestion.question,
-          ) > 0.8
-        ) {
-          return question;
+        const score = this.calculateSimilarity(
+          question.question,
+          extractedQuestion.question,
+        );
+        if (score > 0.8) {
+          return { question, score };
         }
       }
 
@@ -478,165 +1077,4 @@ export class ExtractionProcessor {
 
     return false;
   }
-
-  private async updateExistingQuestion(
-    questionId: string,
-    extractedQuestion: any,
-    pdfFilename: string,
-  ): Promise<void> {
-    try {
-      // Convert category names to IDs
-      const categoryIds = await this.convertCategoryNamesToIds(
-        extractedQuestion.categories,
-      );
-
-      // Convert intake name to ID
-      const intakeId = await this.convertIntakeNameToId(
-        extractedQuestion.intake,
-      );
-
-      // Determine status based on confidence for updates
-      const updatedStatus =
-        extractedQuestion.confidence >= 0.8
-          ? QuestionStatus.APPROVED
-          : QuestionStatus.PENDING;
-
-      await this.questionsService.update(questionId, {
-        question: extractedQuestion.question,
-        options: extractedQuestion.options,
-        correctAnswer: extractedQuestion.correctAnswer,
-        categories: categoryIds,
-        year: extractedQuestion.examYear,
-        intake: intakeId,
-        explanation: extractedQuestion.explanation,
-        status: updatedStatus,
-        aiMetadata: {
-          confidence: extractedQuestion.confidence,
-          extractedAt: new Date(),
-          sourceFile: pdfFilename,
-        },
-      });
-
-      // Log auto-approval if applicable
-      if (updatedStatus === QuestionStatus.APPROVED) {
-        this.logger.log(
-          `Auto-approved updated question with confidence ${extractedQuestion.confidence} (>= 0.8)`,
-        );
-      }
-    } catch (error) {
-      this.logger.error('Error updating existing question:', error);
-      throw error;
-    }
-  }
-
-  private async createNewQuestion(
-    extractedQuestion: any,
-    pdfFilename: string,
-  ): Promise<void> {
-    try {
-      // Convert category names to IDs
-      const categoryIds = await this.convertCategoryNamesToIds(
-        extractedQuestion.categories,
-      );
-
-      // Convert intake name to ID
-      const intakeId = await this.convertIntakeNameToId(
-        extractedQuestion.intake,
-      );
-
-      // Determine initial status based on confidence
-      const initialStatus =
-        extractedQuestion.confidence >= 0.8
-          ? QuestionStatus.APPROVED
-          : QuestionStatus.PENDING;
-
-      await this.questionsService.create({
-        question: extractedQuestion.question,
-        options: extractedQuestion.options,
-        correctAnswer: extractedQuestion.correctAnswer,
-        categories: categoryIds,
-        year: extractedQuestion.examYear,
-        intake: intakeId,
-        explanation: extractedQuestion.explanation,
-        status: initialStatus,
-        aiMetadata: {
-          confidence: extractedQuestion.confidence,
-          extractedAt: new Date(),
-          sourceFile: pdfFilename,
-        },
-      });
-
-      // Log auto-approval if applicable
-      if (initialStatus === QuestionStatus.APPROVED) {
-        this.logger.log(
-          `Auto-approved question with confidence ${extractedQuestion.confidence} (>= 0.8)`,
-        );
-      }
-    } catch (error) {
-      this.logger.error('Error creating new question:', error);
-      throw error;
-    }
-  }
-
-  private async convertCategoryNamesToIds(
-    categoryNames: string[],
-  ): Promise<string[]> {
-    const categoryIds: string[] = [];
-
-    for (const categoryName of categoryNames) {
-      const category = await this.categoriesService.findByName(categoryName);
-      if (category) {
-        categoryIds.push(category.id);
-      } else {
-        this.logger.warn(`Category not found: ${categoryName}`);
-      }
-    }
-
-    // If no categories were found, use a default category
-    if (categoryIds.length === 0) {
-      const activeCategories = await this.categoriesService.findAllActive();
-      if (activeCategories.length > 0) {
-        this.logger.warn(
-          `No valid categories found, using default category: ${activeCategories[0].name}`,
-        );
-        categoryIds.push(activeCategories[0].id);
-      } else {
-        throw new Error('No active categories found in database');
-      }
-    }
-
-    return categoryIds;
-  }
-
-  private async convertIntakeNameToId(intakeName: string): Promise<string> {
-    // First try to find existing intake by name
-    const intake = await this.intakesService.findByName(intakeName);
-
-    if (intake) {
-      return intake.id;
-    }
-
-    // If intake doesn't exist, use the first active intake as fallback
-    const activeIntakes = await this.intakesService.findAllActive();
-    if (activeIntakes.length > 0) {
-      this.logger.warn(
-        `Intake "${intakeName}" not found, using fallback intake: ${activeIntakes[0].name}`,
-      );
-      return activeIntakes[0].id;
-    }
-
-    // If no active intakes exist, throw an error
-    throw new Error(
-      `No active intakes found in database. Cannot process question with intake: ${intakeName}`,
-    );
-  }
-
-  private updateProgress(pageNumber: number, state: any): void {
-    state.processedPages = pageNumber;
-    state.progress = Math.round((pageNumber / state.totalPages) * 100);
-  }
-
-  private async updateExtractionState(state: any): Promise<void> {
-    await this.settingsService.saveExtractionState(state);
-  }
 }
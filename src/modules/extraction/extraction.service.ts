@@ -1,23 +1,68 @@
 import { InjectQueue } from '@nestjs/bull';
-import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ExtractionRun, ExtractionRunStatus } from '@prisma/client';
 import { Queue } from 'bull';
-import { readdir } from 'fs/promises';
-import { join } from 'path';
+import {
+  ExtractionLogEvent,
+  ExtractionParser,
+  LlmTask,
+  TextLayoutMode,
+} from '../../common/CONSTANTS';
 import { CategoriesService } from '../categories/categories.service';
 import { QuestionsService } from '../questions/questions.service';
-import { ExtractionStateDto, ExtractionStatus } from '../settings/dto';
-import { SettingsService } from '../settings/settings.service';
-import { StartExtractionDto } from './dto';
+import { LlmModelsService } from '../llm/llm-models.service';
+import { SourceProfilesService } from '../source-profiles/source-profiles.service';
+import {
+  ExtractionCandidateDiffResponse,
+  ExtractionCandidateFilterDto,
+  ExtractionCandidateRecord,
+  ExtractionLogFilterDto,
+  ExtractionPageRecord,
+  ExtractionPreviewResponse,
+  ExtractionRunDetail,
+  ExtractionRunFilterDto,
+  ExtractionRunSummary,
+  ListExtractionCandidatesResponse,
+  ListExtractionLogsResponse,
+  MergeCandidateDto,
+  PauseExtractionResponse,
+  PreviewExtractionDto,
+  PreviewPage,
+  ReprocessPagesDto,
+  SourceDocumentSummary,
+  StartExtractionDto,
+  StartExtractionResponse,
+  StopExtractionResponse,
+} from './dto';
+import { AnswerDetectionService } from './answer-detection.service';
+import { ExtractionCandidatesService } from './extraction-candidates.service';
+import { ExtractionRunsService } from './extraction-runs.service';
 import { OllamaService } from './ollama.service';
 import { PdfService } from './pdf.service';
+import {
+  PageCarryOver,
+  QuestionStitchingService,
+} from './question-stitching.service';
+import { QuestionValidationService } from './question-validation.service';
+import { RuleBasedParserService } from './rule-based-parser.service';
+import { SourceDocumentsService } from './source-documents.service';
 
 export interface ExtractionEvent {
-  type: 'start' | 'progress' | 'complete' | 'error' | 'stop';
+  type:
+    'start' | 'progress' | 'complete' | 'error' | 'stop' | 'pause' | 'resume';
   data: any;
   timestamp: Date;
 }
 
+// Previews run synchronously, so keep the range small enough to answer in one request
+const MAX_PREVIEW_PAGES = 10;
+
 @Injectable()
 export class ExtractionService {
   private readonly logger = new Logger(ExtractionService.name);
@@ -28,282 +73,596 @@ export class ExtractionService {
     private readonly pdfService: PdfService,
     private readonly questionsService: QuestionsService,
     private readonly categoriesService: CategoriesService,
-    private readonly settingsService: SettingsService,
+    private readonly extractionRunsService: ExtractionRunsService,
+    private readonly extractionCandidatesService: ExtractionCandidatesService,
+    private readonly sourceDocumentsService: SourceDocumentsService,
+    private readonly questionStitchingService: QuestionStitchingService,
+    private readonly questionValidationService: QuestionValidationService,
+    private readonly answerDetectionService: AnswerDetectionService,
+    private readonly ruleBasedParserService: RuleBasedParserService,
+    private readonly sourceProfilesService: SourceProfilesService,
+    private readonly llmModelsService: LlmModelsService,
     @InjectQueue('extraction') private readonly extractionQueue: Queue,
   ) {}
 
-  // List all PDFs in the data folder
-  async listPdfs(): Promise<string[]> {
-    const dataDir = join(process.cwd(), 'data');
-    const files = await readdir(dataDir);
-    return files.filter((f) => f.toLowerCase().endsWith('.pdf'));
+  // List all PDFs in the source-document catalog
+  async listPdfs(): Promise<SourceDocumentSummary[]> {
+    return await this.sourceDocumentsService.findAll();
+  }
+
+  // Store an uploaded PDF and add it to the catalog
+  async uploadPdf(file: Express.Multer.File): Promise<SourceDocumentSummary> {
+    return await this.sourceDocumentsService.upload(file);
   }
 
-  // Start extraction for a selected PDF (non-blocking)
-  async startExtraction(extractionDto: StartExtractionDto): Promise<{
-    message: string;
-    extractionId: string;
-  }> {
-    // Check if there's already an active extraction
-    const currentState = await this.settingsService.getExtractionState();
-    if (currentState && currentState.status === ExtractionStatus.PROCESSING) {
-      throw new BadRequestException('Extraction already in progress');
+  // Queue an extraction run for a selected PDF (non-blocking)
+  async startExtraction(
+    extractionDto: StartExtractionDto,
+  ): Promise<StartExtractionResponse> {
+    const sourceDocument = await this.sourceDocumentsService.findByFilename(
+      extractionDto.filename,
+    );
+    if (!sourceDocument) {
+      throw new NotFoundException(
+        `PDF ${extractionDto.filename} is not in the catalog`,
+      );
     }
 
-    // Generate unique extraction ID
-    const extractionId = `extraction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    // Initialize extraction state
-    const initialState: ExtractionStateDto = {
-      status: ExtractionStatus.PROCESSING,
-      selectedPdf: extractionDto.filename,
-      progress: 0,
-      totalPages: 0,
-      processedPages: 0,
-      failedPages: [],
-      logs: [
-        `[${new Date().toISOString()}] Starting extraction for ${extractionDto.filename}`,
-      ],
-      startTime: new Date().toISOString(),
-      extractedQuestions: 0,
-      questionsPerPage: {},
-      verifiedQuestions: 0,
-      updatedQuestions: 0,
-      skippedQuestions: 0,
-      extractionId,
-      model: extractionDto.model,
-      startPage: extractionDto.startPage,
-      maxPages: extractionDto.maxPages,
-      overwrite: extractionDto.overwrite,
-    };
+    // Two runs over the same PDF would race each other on the same questions
+    const activeRun = await this.extractionRunsService.findActiveByFilename(
+      extractionDto.filename,
+    );
+    if (activeRun) {
+      throw new BadRequestException(
+        `Extraction for ${extractionDto.filename} is already in progress (run ${activeRun.id})`,
+      );
+    }
 
-    // Save initial state to database
-    await this.settingsService.saveExtractionState(initialState);
+    // A profile can pick the parser for PDFs it matches
+    const source = await this.sourceProfilesService.resolve(
+      extractionDto.filename,
+    );
+    const parser =
+      extractionDto.parser ?? source.parser ?? ExtractionParser.LLM;
+
+    const ensembleModels = [...new Set(extractionDto.ensembleModels ?? [])];
+    if (extractionDto.ensembleModels) {
+      if (ensembleModels.length < 2) {
+        throw new BadRequestException(
+          'ensembleModels needs at least two different models',
+        );
+      }
+      // The rules parser only sends the blocks it cannot parse to a model
+      if (parser !== ExtractionParser.LLM) {
+        throw new BadRequestException(
+          `ensembleModels needs the ${ExtractionParser.LLM} parser, not ${parser}`,
+        );
+      }
+    }
 
-    // Add job to Bull queue
-    await this.extractionQueue.add('extract', {
-      extractionId,
-      filename: extractionDto.filename,
-      model: extractionDto.model,
-      startPage: extractionDto.startPage,
-      maxPages: extractionDto.maxPages,
-      overwrite: extractionDto.overwrite,
+    // Every page would fail on a model that is not there
+    for (const model of [
+      ...(extractionDto.model ? [extractionDto.model] : []),
+      ...ensembleModels,
+    ]) {
+      await this.llmModelsService.assertInstalled(LlmTask.EXTRACTION, model);
+    }
+    if (extractionDto.verificationModel) {
+      if (!extractionDto.verifyAnswers) {
+        throw new BadRequestException(
+          'verificationModel is only used with verifyAnswers',
+        );
+      }
+      await this.llmModelsService.assertInstalled(
+        LlmTask.VERIFICATION,
+        extractionDto.verificationModel,
+      );
+    }
+
+    const run = await this.extractionRunsService.create({
+      ...extractionDto,
+      parser,
+      ensembleModels,
     });
 
+    // Add job to Bull queue; it waits there until a processing slot is free
+    await this.extractionQueue.add('extract', { runId: run.id });
+    await this.sourceDocumentsService.recordExtractionStatus(
+      run.filename,
+      ExtractionRunStatus.QUEUED,
+    );
+
     this.logger.log(
-      `Started extraction job ${extractionId} for ${extractionDto.filename}`,
+      `Queued extraction run ${run.id} for ${extractionDto.filename}`,
     );
 
     // Emit start event
     this.eventEmitter.emit('extraction.started', {
       pdf: extractionDto.filename,
-      extractionId,
+      runId: run.id,
       timestamp: new Date(),
     });
 
     return {
       message: `Extraction started for ${extractionDto.filename}`,
-      extractionId,
+      runId: run.id,
     };
   }
 
-  // Stop extraction
-  async stopExtraction(): Promise<{ message: string }> {
-    const currentState = await this.settingsService.getExtractionState();
+  // Run extraction on a few pages without saving anything, to try out a model or prompt
+  async previewExtraction(
+    previewDto: PreviewExtractionDto,
+  ): Promise<ExtractionPreviewResponse> {
+    const { filename, startPage } = previewDto;
+    const endPage = previewDto.endPage ?? startPage;
+    const model = previewDto.model ?? this.ollamaService.getDefaultModel();
+    const layoutMode = previewDto.layoutMode ?? TextLayoutMode.FLAT;
+
+    const sourceDocument =
+      await this.sourceDocumentsService.findByFilename(filename);
+    if (!sourceDocument) {
+      throw new NotFoundException(`PDF ${filename} is not in the catalog`);
+    }
+    const source = await this.sourceProfilesService.resolve(filename);
+    const parser = previewDto.parser ?? source.parser ?? ExtractionParser.LLM;
+    if (endPage < startPage) {
+      throw new BadRequestException('endPage must not be before startPage');
+    }
+    if (endPage - startPage + 1 > MAX_PREVIEW_PAGES) {
+      throw new BadRequestException(
+        `At most ${MAX_PREVIEW_PAGES} pages can be previewed at once`,
+      );
+    }
+    if (endPage > sourceDocument.totalPages) {
+      throw new BadRequestException(
+        `${filename} only has ${sourceDocument.totalPages} pages`,
+      );
+    }
+    if (previewDto.model) {
+      await this.llmModelsService.assertInstalled(
+        LlmTask.EXTRACTION,
+        previewDto.model,
+      );
+    }
 
-    if (!currentState || currentState.status !== ExtractionStatus.PROCESSING) {
-      return { message: 'No extraction in progress' };
+    const pages: PreviewPage[] = [];
+    let carryOver: PageCarryOver | null = null;
+
+    // Same steps as an extraction run, including page-break stitching
+    for (let pageNumber = startPage; pageNumber <= endPage; pageNumber++) {
+      const page: PreviewPage = {
+        pageNumber,
+        extractionMethod: null,
+        textConfidence: null,
+        text: '',
+        rawResponse: null,
+        llmLatencyMs: null,
+        schemaViolations: [],
+        responseRepaired: false,
+        parsedQuestions: 0,
+        questions: [],
+        error: null,
+      };
+      pages.push(page);
+
+      try {
+        const pageContent = await this.pdfService.extractSinglePage(
+          pageNumber,
+          {
+            pdfFilename: filename,
+            layoutMode,
+            detectEmphasis: this.answerDetectionService.isEnabled(),
+          },
+        );
+        const emphasis = [
+          ...(carryOver?.emphasis ?? []),
+          ...(pageContent.emphasis ?? []),
+        ];
+        page.extractionMethod = pageContent.method;
+        page.textConfidence = pageContent.confidence;
+
+        let pageText = carryOver
+          ? `${carryOver.text}\n${pageContent.text}`
+          : pageContent.text;
+        carryOver = null;
+
+        if (pageNumber < endPage) {
+          const split =
+            this.questionStitchingService.splitTrailingQuestion(pageText);
+          if (split.carryOver) {
+            pageText = split.text;
+            carryOver = {
+              pageNumber,
+              text: split.carryOver,
+              emphasis: pageContent.emphasis,
+            };
+          }
+        }
+        page.text = pageText;
+
+        if (pageText.trim().length === 0) {
+          continue;
+        }
+
+        const result =
+          parser === ExtractionParser.RULES
+            ? await this.ruleBasedParserService.extract(
+                pageText,
+                pageNumber,
+                source,
+                model,
+                previewDto.bypassLlmCache,
+              )
+            : await this.ollamaService.extractQuestionsWithDetails(
+                pageText,
+                pageNumber,
+                source,
+                model,
+                previewDto.bypassLlmCache,
+              );
+        page.rawResponse = result.rawResponse;
+        page.llmLatencyMs = result.latencyMs;
+        page.schemaViolations = result.schemaViolations;
+        page.responseRepaired = result.repaired;
+        page.parsedQuestions = result.parsedCount;
+        this.answerDetectionService.apply(result.questions, emphasis);
+        page.questions = result.questions.map((question) => {
+          const issues = this.questionValidationService.validate(question);
+          return { question, valid: issues.length === 0, issues };
+        });
+      } catch (error) {
+        page.error = error instanceof Error ? error.message : 'Unknown error';
+        carryOver = null;
+      }
     }
 
-    // Remove all jobs from the queue
-    await this.extractionQueue.empty();
+    return { filename, model, layoutMode, parser, pages };
+  }
 
-    // Update state to stopped
-    const updatedState: ExtractionStateDto = {
-      ...currentState,
-      status: ExtractionStatus.STOPPED,
-      endTime: new Date().toISOString(),
-    };
-    updatedState.logs.push(
-      `[${new Date().toISOString()}] Extraction stopped by user`,
-    );
+  // List extraction runs, newest first
+  async findRuns(
+    filter: ExtractionRunFilterDto = {},
+  ): Promise<ExtractionRunSummary[]> {
+    return await this.extractionRunsService.findAll(filter);
+  }
 
-    await this.settingsService.saveExtractionState(updatedState);
+  // Get a single run with its per-page details and logs
+  async getRun(id: string): Promise<ExtractionRunDetail> {
+    const run = await this.extractionRunsService.findOne(id);
+    return await this.extractionRunsService.toDetail(run);
+  }
+
+  // Get a page of a run's log entries, oldest first
+  async getRunLogs(
+    id: string,
+    filter: ExtractionLogFilterDto = {},
+  ): Promise<ListExtractionLogsResponse> {
+    return await this.extractionRunsService.findLogs(id, filter);
+  }
 
-    this.logger.log('Extraction stopped');
+  // Stop a queued or processing run; a page already being processed is finished
+  async stopRun(id: string): Promise<StopExtractionResponse> {
+    const run = await this.extractionRunsService.findOne(id);
+
+    if (!this.extractionRunsService.isActive(run)) {
+      throw new BadRequestException(
+        `Extraction run ${id} is not in progress (status: ${run.status})`,
+      );
+    }
+
+    await this.extractionRunsService.updateStatus(
+      id,
+      ExtractionRunStatus.STOPPED,
+    );
+    await this.removeQueuedJobs(id);
+    await this.extractionRunsService.appendLog(
+      id,
+      'Extraction stopped by user',
+      { event: ExtractionLogEvent.RUN_STOPPED },
+    );
+    await this.sourceDocumentsService.recordExtractionStatus(
+      run.filename,
+      ExtractionRunStatus.STOPPED,
+    );
+
+    this.logger.log(`Extraction run ${id} stopped`);
 
     // Emit stop event
     this.eventEmitter.emit('extraction.stopped', {
-      pdf: currentState.selectedPdf,
-      processedPages: currentState.processedPages,
-      totalQuestions: currentState.extractedQuestions,
+      pdf: run.filename,
+      runId: id,
+      processedPages: run.processedPages,
+      totalQuestions: run.extractedQuestions,
       timestamp: new Date(),
     });
 
     return { message: 'Extraction stopped successfully' };
   }
 
-  // Continue extraction from last processed page
-  async continueExtraction(): Promise<{
-    message: string;
-    extractionId: string;
-  }> {
-    const currentState = await this.settingsService.getExtractionState();
+  // Pause a queued or processing run; resuming it picks up at its first unprocessed page
+  async pauseRun(id: string): Promise<PauseExtractionResponse> {
+    const run = await this.extractionRunsService.findOne(id);
+
+    if (
+      run.status !== ExtractionRunStatus.QUEUED &&
+      run.status !== ExtractionRunStatus.PROCESSING
+    ) {
+      throw new BadRequestException(
+        `Only queued or processing runs can be paused (status: ${run.status})`,
+      );
+    }
+
+    await this.extractionRunsService.updateStatus(
+      id,
+      ExtractionRunStatus.PAUSED,
+    );
+    await this.removeQueuedJobs(id);
+    await this.extractionRunsService.appendLog(
+      id,
+      'Extraction paused by user',
+      {
+        event: ExtractionLogEvent.RUN_PAUSED,
+      },
+    );
+    await this.sourceDocumentsService.recordExtractionStatus(
+      run.filename,
+      ExtractionRunStatus.PAUSED,
+    );
+
+    this.logger.log(`Extraction run ${id} paused`);
+
+    this.eventEmitter.emit('extraction.paused', {
+      pdf: run.filename,
+      runId: id,
+      timestamp: new Date(),
+    });
+
+    return { message: 'Extraction paused successfully' };
+  }
+
+  // Resume a paused run from its first unprocessed page
+  async resumeRun(id: string): Promise<StartExtractionResponse> {
+    const run = await this.extractionRunsService.findOne(id);
 
-    if (!currentState || currentState.status !== ExtractionStatus.STOPPED) {
-      throw new BadRequestException('No stopped extraction to continue');
+    if (run.status !== ExtractionRunStatus.PAUSED) {
+      throw new BadRequestException(
+        `Only paused runs can be resumed (status: ${run.status})`,
+      );
     }
 
-    // Generate new extraction ID for the continuation
-    const extractionId = `extraction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const [nextPage] =
+      await this.extractionRunsService.findUnprocessedPages(run);
+    const fromPage = nextPage ?? run.startPage;
+    await this.requeueRun(run, `Queued resume from page ${fromPage}`);
+
+    this.logger.log(
+      `Resumed extraction run ${id} for ${run.filename} from page ${fromPage}`,
+    );
+
+    this.eventEmitter.emit('extraction.resumed', {
+      pdf: run.filename,
+      runId: id,
+      fromPage,
+      timestamp: new Date(),
+    });
 
-    // Calculate the next page to start from
-    const nextStartPage = currentState.processedPages + 1;
+    return {
+      message: `Extraction resumed for ${run.filename} from page ${fromPage}`,
+      runId: id,
+    };
+  }
+
+  // Continue a stopped, failed or interrupted run from its first unprocessed page
+  async continueRun(id: string): Promise<StartExtractionResponse> {
+    const run = await this.extractionRunsService.findOne(id);
+
+    if (
+      run.status !== ExtractionRunStatus.STOPPED &&
+      run.status !== ExtractionRunStatus.FAILED &&
+      run.status !== ExtractionRunStatus.INTERRUPTED
+    ) {
+      throw new BadRequestException(
+        `Only stopped, failed or interrupted runs can be continued (status: ${run.status})`,
+      );
+    }
+
+    // Pages with an outcome are kept, wherever they are in the range
+    const [nextPage] =
+      await this.extractionRunsService.findUnprocessedPages(run);
 
     // Check if there are more pages to process
-    if (nextStartPage > currentState.totalPages) {
+    if (run.endPage && nextPage === undefined) {
       throw new BadRequestException('All pages have been processed');
     }
+    const nextStartPage = nextPage ?? run.startPage;
 
-    // Calculate remaining pages to process
-    const originalMaxPages = currentState.maxPages || currentState.totalPages;
-    const originalStartPage = currentState.startPage || 1;
-    const remainingPagesToProcess =
-      originalMaxPages -
-      (currentState.processedPages - (originalStartPage - 1));
-
-    // Update state to processing for continuation
-    const updatedState: ExtractionStateDto = {
-      ...currentState,
-      status: ExtractionStatus.PROCESSING,
-      extractionId,
-      endTime: undefined, // Clear endTime since we're resuming
-    };
-    updatedState.logs.push(
-      `[${new Date().toISOString()}] Continuing extraction from page ${nextStartPage}`,
+    const activeRun = await this.extractionRunsService.findActiveByFilename(
+      run.filename,
     );
+    if (activeRun) {
+      throw new BadRequestException(
+        `Extraction for ${run.filename} is already in progress (run ${activeRun.id})`,
+      );
+    }
 
-    await this.settingsService.saveExtractionState(updatedState);
-
-    // Add job to Bull queue with updated parameters
-    await this.extractionQueue.add('extract', {
-      extractionId,
-      filename: currentState.selectedPdf,
-      model: currentState.model,
-      startPage: nextStartPage,
-      maxPages: remainingPagesToProcess,
-      overwrite: currentState.overwrite,
-      isContinuation: true, // Flag to indicate this is a continuation
-    });
+    await this.requeueRun(
+      run,
+      `Queued continuation from page ${nextStartPage}`,
+    );
 
     this.logger.log(
-      `Continued extraction job ${extractionId} for ${currentState.selectedPdf} from page ${nextStartPage}`,
+      `Continued extraction run ${id} for ${run.filename} from page ${nextStartPage}`,
     );
 
     // Emit continuation event
     this.eventEmitter.emit('extraction.continued', {
-      pdf: currentState.selectedPdf,
-      extractionId,
+      pdf: run.filename,
+      runId: id,
       fromPage: nextStartPage,
       timestamp: new Date(),
     });
 
     return {
-      message: `Extraction continued for ${currentState.selectedPdf} from page ${nextStartPage}`,
-      extractionId,
+      message: `Extraction continued for ${run.filename} from page ${nextStartPage}`,
+      runId: id,
     };
   }
 
-  // Get current extraction status
-  async getStatus(): Promise<ExtractionStateDto> {
-    const state = await this.settingsService.getExtractionState();
-
-    if (!state) {
-      // Return default idle state
-      return {
-        status: ExtractionStatus.IDLE,
-        selectedPdf: '',
-        progress: 0,
-        totalPages: 0,
-        processedPages: 0,
-        failedPages: [],
-        logs: [],
-        extractedQuestions: 0,
-        questionsPerPage: {},
-        verifiedQuestions: 0,
-        updatedQuestions: 0,
-        skippedQuestions: 0,
-      };
+  // Put a run back in the queue; the processor queues the pages without an outcome
+  private async requeueRun(run: ExtractionRun, message: string): Promise<void> {
+    await this.extractionRunsService.updateStatus(
+      run.id,
+      ExtractionRunStatus.QUEUED,
+    );
+    await this.extractionRunsService.appendLog(run.id, message, {
+      event: ExtractionLogEvent.RUN_QUEUED,
+    });
+
+    await this.extractionQueue.add('extract', {
+      runId: run.id,
+      isContinuation: true,
+    });
+    await this.sourceDocumentsService.recordExtractionStatus(
+      run.filename,
+      ExtractionRunStatus.QUEUED,
+    );
+  }
+
+  // Drop a run's jobs that are waiting for a slot or for a retry; any left behind
+  // would see the run is no longer processing and skip themselves
+  private async removeQueuedJobs(runId: string): Promise<void> {
+    const jobs = await this.extractionQueue.getJobs(['waiting', 'delayed']);
+    const queued = jobs.filter((job) => job?.data?.runId === runId);
+
+    await Promise.all(queued.map((job) => job.remove()));
+    if (queued.length > 0) {
+      this.logger.log(`Removed ${queued.length} queued jobs of run ${runId}`);
+    }
+  }
+
+  // List the per-page records of a run
+  async getRunPages(id: string): Promise<ExtractionPageRecord[]> {
+    await this.extractionRunsService.findOne(id);
+    return await this.extractionRunsService.findPages(id);
+  }
+
+  // Re-run every failed page of a run
+  async retryFailedPages(
+    id: string,
+    options: ReprocessPagesDto = {},
+  ): Promise<StartExtractionResponse> {
+    const run = await this.extractionRunsService.findOne(id);
+
+    if (run.failedPages.length === 0) {
+      throw new BadRequestException(`Extraction run ${id} has no failed pages`);
     }
 
-    return state;
+    const pages = [...run.failedPages].sort((a, b) => a - b);
+    return await this.queuePageReprocessing(run, pages, options);
   }
 
-  // Get current logs
-  async getLogs(): Promise<{ logs: string[] }> {
-    const state = await this.settingsService.getExtractionState();
-    return { logs: state?.logs || [] };
+  // Re-run a single page of a run
+  async reprocessPage(
+    id: string,
+    pageNumber: number,
+    options: ReprocessPagesDto = {},
+  ): Promise<StartExtractionResponse> {
+    const run = await this.extractionRunsService.findOne(id);
+
+    if (!run.endPage) {
+      throw new BadRequestException(
+        `Extraction run ${id} has not processed any pages yet`,
+      );
+    }
+    if (pageNumber < run.startPage || pageNumber > run.endPage) {
+      throw new BadRequestException(
+        `Page ${pageNumber} is outside this run (pages ${run.startPage}-${run.endPage})`,
+      );
+    }
+
+    return await this.queuePageReprocessing(run, [pageNumber], options);
   }
 
-  // Get extraction statistics
-  async getStatistics() {
-    const state = await this.settingsService.getExtractionState();
-
-    if (!state) {
-      return {
-        status: 'idle',
-        selectedPdf: '',
-        progress: 0,
-        processedPages: 0,
-        totalPages: 0,
-        failedPages: [],
-        extractedQuestions: 0,
-        verifiedQuestions: 0,
-        updatedQuestions: 0,
-        skippedQuestions: 0,
-        questionsPerPage: {},
-        duration: 0,
-        startTime: null,
-        endTime: null,
-        error: null,
-      };
+  private async queuePageReprocessing(
+    run: ExtractionRun,
+    pages: number[],
+    options: ReprocessPagesDto,
+  ): Promise<StartExtractionResponse> {
+    if (this.extractionRunsService.isActive(run)) {
+      throw new BadRequestException(
+        `Extraction run ${run.id} is already in progress`,
+      );
     }
 
-    const duration =
-      state.startTime && state.endTime
-        ? new Date(state.endTime).getTime() -
-          new Date(state.startTime).getTime()
-        : 0;
+    await this.extractionRunsService.updateStatus(
+      run.id,
+      ExtractionRunStatus.QUEUED,
+    );
+    await this.extractionRunsService.appendLog(
+      run.id,
+      `Queued reprocessing of page(s) ${pages.join(', ')}`,
+      { event: ExtractionLogEvent.RUN_QUEUED, payload: { pages } },
+    );
+
+    await this.extractionQueue.add('reprocess-pages', {
+      runId: run.id,
+      pages,
+      previousStatus: run.status,
+      bypassLlmCache: options.bypassLlmCache,
+    });
+
+    this.logger.log(
+      `Queued reprocessing of page(s) ${pages.join(', ')} for run ${run.id}`,
+    );
 
     return {
-      status: state.status,
-      selectedPdf: state.selectedPdf,
-      progress: state.progress,
-      processedPages: state.processedPages,
-      totalPages: state.totalPages,
-      failedPages: state.failedPages,
-      extractedQuestions: state.extractedQuestions,
-      verifiedQuestions: state.verifiedQuestions,
-      updatedQuestions: state.updatedQuestions,
-      skippedQuestions: state.skippedQuestions,
-      questionsPerPage: state.questionsPerPage,
-      duration: duration,
-      startTime: state.startTime || null,
-      endTime: state.endTime || null,
-      error: state.error || null,
+      message: `Reprocessing ${pages.length} page(s) of ${run.filename}`,
+      runId: run.id,
     };
   }
 
-  // Clear extraction state (for cleanup)
-  async clearExtractionState(): Promise<void> {
-    await this.settingsService.clearExtractionState();
+  // List staged candidates awaiting or past review
+  async findCandidates(
+    filter: ExtractionCandidateFilterDto = {},
+  ): Promise<ListExtractionCandidatesResponse> {
+    return await this.extractionCandidatesService.findAll(filter);
+  }
+
+  // Get a single staged candidate
+  async getCandidate(id: string): Promise<ExtractionCandidateRecord> {
+    const candidate = await this.extractionCandidatesService.findOne(id);
+    return this.extractionCandidatesService.toRecord(candidate);
+  }
+
+  // Compare a candidate with the question it was matched with
+  async getCandidateDiff(id: string): Promise<ExtractionCandidateDiffResponse> {
+    return await this.extractionCandidatesService.getDiff(id);
+  }
+
+  // Add a candidate to the question bank
+  async acceptCandidate(id: string): Promise<ExtractionCandidateRecord> {
+    return await this.extractionCandidatesService.accept(id);
+  }
+
+  // Merge a candidate into an existing question
+  async mergeCandidate(
+    id: string,
+    mergeDto: MergeCandidateDto,
+  ): Promise<ExtractionCandidateRecord> {
+    return await this.extractionCandidatesService.merge(id, mergeDto);
+  }
+
+  // Discard a candidate
+  async discardCandidate(id: string): Promise<ExtractionCandidateRecord> {
+    return await this.extractionCandidatesService.discard(id);
   }
 
   // Get queue status
   async getQueueStatus() {
-    const [waiting, active, completed, failed] = await Promise.all([
+    const [waiting, active, delayed, completed, failed] = await Promise.all([
       this.extractionQueue.getWaiting(),
       this.extractionQueue.getActive(),
+      this.extractionQueue.getDelayed(),
       this.extractionQueue.getCompleted(),
       this.extractionQueue.getFailed(),
     ]);
@@ -311,6 +670,7 @@ export class ExtractionService {
     return {
       waiting: waiting.length,
       active: active.length,
+      delayed: delayed.length,
       completed: completed.length,
       failed: failed.length,
     };
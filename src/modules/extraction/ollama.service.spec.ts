@@ -0,0 +1,63 @@
+import { PromptTemplateName } from '../../common/CONSTANTS';
+import { LlmService } from '../llm/llm.service';
+import { PromptTemplatesService } from '../prompt-templates/prompt-templates.service';
+import { OllamaService } from './ollama.service';
+
+const STEM = 'Which drug is given first for a pulmonary embolism?';
+
+describe('OllamaService', () => {
+  let generate: jest.Mock;
+  let ollama: OllamaService;
+
+  beforeEach(() => {
+    generate = jest.fn();
+    ollama = new OllamaService(
+      { generate } as unknown as LlmService,
+      {
+        render: (name: PromptTemplateName) =>
+          Promise.resolve({ prompt: name, version: `${name}@v1` }),
+      } as unknown as PromptTemplatesService,
+    );
+  });
+
+  function respond(...responses: object[]): void {
+    responses.forEach((response) =>
+      generate.mockResolvedValueOnce({ text: JSON.stringify(response) }),
+    );
+  }
+
+  describe('extractQuestionsWithDetails', () => {
+    it('generates the options a question was returned without', async () => {
+      respond(
+        {
+          questions: [
+            {
+              question: STEM,
+              options: {
+                A: 'Aspirin',
+                B: 'Heparin',
+                C: 'Warfarin',
+                D: 'Alteplase',
+              },
+              correctAnswer: 'B',
+              categories: ['pathology'],
+              examYear: 2022,
+              intake: 'september',
+              confidence: 0.9,
+            },
+          ],
+        },
+        { E: 'Clopidogrel' },
+      );
+
+      const result = await ollama.extractQuestionsWithDetails(STEM, 1);
+
+      expect(result.schemaViolations).toEqual([]);
+      expect(result.questions).toHaveLength(1);
+      expect(result.questions[0]).toMatchObject({
+        options: { D: 'Alteplase', E: 'Clopidogrel' },
+        promptVersions: ['extraction@v1', 'missing-options@v1'],
+      });
+    });
+  });
+});
@@ -1,8 +1,29 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { DEFAULT_CATEGORIES } from '../../common/CONSTANTS/categories.constants';
-import { DEFAULT_INTAKES } from '../../common/CONSTANTS/intakes.constants';
+import typia, { IValidation, tags } from 'typia';
+import {
+  CategoryName,
+  DEFAULT_CATEGORIES,
+} from '../../common/CONSTANTS/categories.constants';
+import {
+  DEFAULT_INTAKES,
+  IntakeName,
+} from '../../common/CONSTANTS/intakes.constants';
+import { LlmTask } from '../../common/CONSTANTS/llm.constants';
+import { PromptTemplateName } from '../../common/CONSTANTS/prompt-templates.constants';
+import { QuestionAnswerOption } from '../../common/CONSTANTS/questions.constants';
+import { SourcePromptVariant } from '../../common/CONSTANTS/source-profiles.constants';
+import { LlmService } from '../llm/llm.service';
+import {
+  PromptTemplatesService,
+  RenderedPrompt,
+} from '../prompt-templates/prompt-templates.service';
+import { ResolvedSource } from '../source-profiles/source-profiles.service';
+import {
+  CancellationToken,
+  ExtractionCancelledError,
+} from './cancellation-token';
+import { EmphasisSignal } from './pdf-emphasis.service';
+import { PdfPageImage } from './pdf-image.service';
 
 export interface ExtractedQuestion {
   question: string;
@@ -19,43 +40,132 @@ export interface ExtractedQuestion {
   intake: string;
   explanation?: string;
   confidence: number;
+  sourcePages?: number[];
+  answerDetection?: AnswerDetection;
+  // Figures from the question's pages that it refers to
+  images?: PdfPageImage[];
+  // Prompt template versions that produced the question, e.g. "extraction@v3"
+  promptVersions?: string[];
+  // How the models voted, for questions from an ensemble run
+  consensus?: EnsembleConsensus;
+  answerVerification?: AnswerVerification;
+  // Whether the verifier answered differently from the extraction
+  answerDisputed?: boolean;
 }
 
-interface OllamaGenerateRequest {
+// Correct answer read from highlights, colours and bold text on the page
+export interface AnswerDetection {
+  detectedAnswer: string;
+  modelAnswer: string;
+  signals: EmphasisSignal[];
+  agreed: boolean;
+  overridden: boolean;
+}
+
+// How the models of an ensemble run voted on a question
+export interface EnsembleConsensus {
+  models: string[];
+  // Model whose wording of the question was kept
   model: string;
-  prompt: string;
-  stream: boolean;
-  options: {
-    temperature: number;
-    top_p: number;
-    num_predict: number;
-  };
+  // Share of the models that chose the settled answer
+  agreement: number;
+  unanimous: boolean;
+  votes: EnsembleVote[];
+}
+
+export interface EnsembleVote {
+  model: string;
+  found: boolean;
+  correctAnswer: string | null;
+  categories: string[];
+  // Stem similarity to the kept wording
+  similarity: number | null;
+}
+
+// Answer a model gave to a question without seeing the extracted answer
+export interface AnswerVerification {
+  model: string;
+  answer: string;
+  extractedAnswer: string;
+  agreed: boolean;
+  confidence: number | null;
 }
 
-interface OllamaGenerateResponse {
-  response: string;
-  done: boolean;
-  context?: number[];
-  total_duration?: number;
-  load_duration?: number;
-  prompt_eval_count?: number;
+export interface QuestionExtractionResult {
+  questions: ExtractedQuestion[];
+  // Questions parsed from the response before validation
+  parsedCount: number;
+  rawResponse: string;
+  latencyMs: number;
+  // Where the response broke the extraction schema, one "path: expected ..., got ..." per entry
+  schemaViolations: string[];
+  // Whether the JSON repair heuristics had to run because the response was not usable JSON
+  repaired: boolean;
 }
 
-interface OllamaTagsResponse {
-  models: Array<{
-    name: string;
-    modified_at: string;
-    size: number;
-  }>;
+/**
+ * One question as the model must return it: ExtractedQuestion without the
+ * fields filled in after parsing, narrowed to the values the prompt allows.
+ * Options may be missing, as cleanQuestion() generates the missing ones.
+ */
+export interface LlmExtractedQuestion extends Pick<
+  ExtractedQuestion,
+  'explanation'
+> {
+  question: string & tags.MinLength<11>;
+  options: Partial<QuestionOptions>;
+  correctAnswer: QuestionAnswerOption;
+  categories: CategoryName[] & tags.MinItems<1>;
+  examYear: number &
+    tags.Type<'int32'> &
+    tags.Minimum<2000> &
+    tags.Maximum<2030>;
+  intake: IntakeName;
+  confidence: number & tags.Minimum<0> & tags.Maximum<1>;
 }
 
+export interface LlmExtractionOutput {
+  questions: LlmExtractedQuestion[];
+}
+
+export interface LlmCategorizationOutput {
+  categories: CategoryName[] & tags.MinItems<1>;
+  confidence: number & tags.Minimum<0> & tags.Maximum<1>;
+}
+
+export interface LlmVerificationOutput {
+  correctAnswer: QuestionAnswerOption;
+  confidence: number & tags.Minimum<0> & tags.Maximum<1>;
+}
+
+type QuestionOptions = ExtractedQuestion['options'];
+
+// Response formats sent with each request, so the model can only produce these shapes
+const EXTRACTION_FORMAT = typia.llm.parameters<LlmExtractionOutput, '3.0'>();
+const CATEGORIZATION_FORMAT = typia.llm.parameters<
+  LlmCategorizationOutput,
+  '3.0'
+>();
+const OPTIONS_FORMAT = typia.llm.parameters<QuestionOptions, '3.0'>();
+const VERIFICATION_FORMAT = typia.llm.parameters<
+  LlmVerificationOutput,
+  '3.0'
+>();
+
+const validateExtractionOutput = typia.createValidate<LlmExtractionOutput>();
+const validateExtractedQuestion = typia.createValidate<LlmExtractedQuestion>();
+const validateCategorizationOutput =
+  typia.createValidate<LlmCategorizationOutput>();
+const validateOptions = typia.createValidate<Partial<QuestionOptions>>();
+const validateVerificationOutput =
+  typia.createValidate<LlmVerificationOutput>();
+
+// Keeps page records readable when a response breaks the schema everywhere
+const MAX_SCHEMA_VIOLATIONS = 50;
+
 @Injectable()
 export class OllamaService {
   private readonly logger = new Logger(OllamaService.name);
-  private readonly axiosInstance: AxiosInstance;
-  private readonly baseUrl: string;
-  private model: string;
-  private readonly timeout: number;
 
   // Use preseeded categories and intakes
   private readonly categories: string[] = DEFAULT_CATEGORIES.map(
@@ -65,485 +175,418 @@ export class OllamaService {
     (intake) => intake.name,
   );
 
-  constructor(private configService: ConfigService) {
-    this.baseUrl = this.configService.get<string>(
-      'OLLAMA_BASE_URL',
-      'http://localhost:11434',
-    );
-    this.model = this.configService.get<string>('OLLAMA_MODEL', 'llama3.1');
-    this.timeout = this.configService.get<number>('OLLAMA_TIMEOUT', 300000);
+  constructor(
+    private readonly llmService: LlmService,
+    private readonly promptTemplatesService: PromptTemplatesService,
+  ) {}
 
-    this.axiosInstance = axios.create({
-      baseURL: this.baseUrl,
-      timeout: this.timeout,
-    });
+  // Model used when a request does not name one
+  getDefaultModel(): string {
+    return this.llmService.getModel(LlmTask.EXTRACTION);
   }
 
   /**
-   * Set the model to use for extraction
-   * @param model The model name
+   * Extract questions and keep the raw model response and latency for the page record.
+   * A failed model request is thrown rather than swallowed.
+   * @param source The PDF's resolved source profile, for forced and fallback year/intake values
+   * @param bypassCache Ask the model again even if this page was answered before
+   * @param cancellation Checked before every model request of the page
    */
-  setModel(model: string): void {
-    this.model = model;
-    this.logger.log(`Ollama model set to: ${model}`);
-  }
-
-  async extractQuestionsFromText(
+  async extractQuestionsWithDetails(
     text: string,
     pageNumber: number,
-    pdfName?: string,
-  ): Promise<ExtractedQuestion[]> {
-    try {
-      const prompt = this.buildExtractionPrompt(text, pageNumber, pdfName);
-      const response = await this.generateResponse(prompt);
-      const questions = await this.parseQuestionResponse(response, pdfName);
+    source?: ResolvedSource,
+    model?: string,
+    bypassCache = false,
+    cancellation?: CancellationToken,
+  ): Promise<QuestionExtractionResult> {
+    const prompt = await this.buildExtractionPrompt(text, pageNumber, source);
+
+    const startedAt = Date.now();
+    const response = await this.generateResponse(
+      LlmTask.EXTRACTION,
+      prompt.prompt,
+      model,
+      EXTRACTION_FORMAT,
+      bypassCache,
+      cancellation,
+      validateExtractionOutput,
+    );
+    const latencyMs = Date.now() - startedAt;
 
-      // Filter and validate questions
-      return questions.filter((question) => this.isQuestionValid(question));
-    } catch (error) {
-      this.logger.error(
-        `Failed to extract questions from page ${pageNumber}:`,
-        error,
+    const { items, schemaViolations, repaired } =
+      this.readQuestionItems(response);
+    const { questions, violations } = this.validateQuestionItems(items);
+    schemaViolations.push(...violations);
+
+    if (schemaViolations.length > 0) {
+      this.logger.warn(
+        `Page ${pageNumber}: response broke the extraction schema in ${schemaViolations.length} places${repaired ? ' (JSON repaired)' : ''}: ${schemaViolations.slice(0, 5).join('; ')}`,
       );
-      return [];
     }
+
+    const cleanedQuestions = await Promise.all(
+      questions.map((question) =>
+        this.cleanQuestion(
+          question,
+          prompt.version,
+          source,
+          model,
+          cancellation,
+        ),
+      ),
+    );
+
+    return {
+      // Filter and validate questions
+      questions: cleanedQuestions.filter((question) =>
+        this.isQuestionValid(question),
+      ),
+      parsedCount: items.length,
+      rawResponse: response,
+      latencyMs,
+      schemaViolations: schemaViolations.slice(0, MAX_SCHEMA_VIOLATIONS),
+      repaired,
+    };
   }
 
   async categorizeQuestion(
     questionText: string,
-  ): Promise<{ categories: string[]; confidence: number }> {
+    cancellation?: CancellationToken,
+  ): Promise<{
+    categories: string[];
+    confidence: number;
+    promptVersion?: string;
+  }> {
     try {
-      const prompt = this.buildCategorizationPrompt(questionText);
-      const response = await this.generateResponse(prompt);
-      return this.parseCategorizationResponse(response);
+      const prompt = await this.buildCategorizationPrompt(questionText);
+      const response = await this.generateResponse(
+        LlmTask.CATEGORIZATION,
+        prompt.prompt,
+        undefined,
+        CATEGORIZATION_FORMAT,
+        false,
+        cancellation,
+        validateCategorizationOutput,
+      );
+      return {
+        ...this.parseCategorizationResponse(response),
+        promptVersion: prompt.version,
+      };
     } catch (error) {
+      if (error instanceof ExtractionCancelledError) {
+        throw error;
+      }
       this.logger.error('Failed to categorize question:', error);
       return { categories: [], confidence: 0 };
     }
   }
 
-  private buildExtractionPrompt(
-    text: string,
-    pageNumber: number,
-    pdfName?: string,
-  ): string {
-    // Extract year from PDF name if available
-    const yearFromPdf = pdfName ? this.extractYearFromPdfName(pdfName) : null;
-    const intakeFromPdf = pdfName
-      ? this.extractIntakeFromPdfName(pdfName)
-      : null;
-
-    return `You are an AI assistant specialized in extracting medical exam questions from PDF text.
-
-TASK: Extract all multiple-choice questions from the following text from page ${pageNumber} of an MRCS exam document.
-
-CRITICAL REQUIREMENTS:
-1. EVERY question MUST have exactly 5 options (A, B, C, D, E)
-2. If a question has fewer than 5 options, add appropriate WRONG answer options based on the topic/subject
-3. DO NOT add random options - make them plausible but incorrect
-4. Ensure all options are relevant to the question topic
-5. DO NOT extract incomplete or meaningless questions
-6. Questions must be complete and well-formed
-7. Options must be meaningful and relevant to the question
-
-CORRECT ANSWER DETECTION:
-- Look for correct answers marked with: ✓, ✅, (correct), (CORRECT), green color, yellow highlight, bold text, or any other indication
-- The correct answer can be indicated by:
-  * A checkmark (✓ or ✅) next to an option
-  * Text like "(correct)" or "(CORRECT)" after an option
-  * Green or yellow highlighting/marking
-  * Bold text or special formatting
-  * Any other clear indication of the correct answer
-- If no clear indication is found, use your medical knowledge to determine the most likely correct answer
-- Always return a single letter (A, B, C, D, or E) as the correctAnswer
-
-QUALITY REQUIREMENTS:
-- Questions must be complete sentences (not fragments)
-- Questions must be medically relevant and meaningful
-- Options must be distinct and plausible
-- Avoid questions with unclear or ambiguous wording
-- Skip incomplete or poorly formatted questions
-- Ensure all text is properly extracted (no "..." or "???")
-
-CATEGORIES (use only these preseeded categories - you can assign multiple categories if the question covers multiple topics):
-${this.categories.map((cat) => `   - ${cat}`).join('\n')}
-
-CATEGORY GUIDELINES:
-- Anatomy questions: Use specific anatomy categories (thorax, abdomen, superior extremity, inferior extremity, head-neck-brain)
-- Physiology questions: Use "physiology"
-- Pathology questions: Use "pathology"
-- Microbiology questions: Use "microbiology"
-- Biostatistics questions: Use "biostatistics"
-- Clinical questions: Use appropriate clinical categories based on the medical specialty
-- If a question covers multiple topics, assign multiple categories
-- Be specific and accurate in categorization
-
-INTAKES (use only these preseeded intakes):
-${this.intakes.map((intake) => `   - ${intake}`).join('\n')}
-
-YEAR DETECTION - PRIORITY ORDER:
-1. FIRST: Look for year patterns in the PDF text content (e.g., "2023", "2024", "September 2022", "January 2016", etc.)
-2. SECOND: If no year found in content, use PDF filename year: ${yearFromPdf ? `${yearFromPdf}` : 'None detected'}
-3. THIRD: If neither available, use reasonable estimate based on content context
-- Common year patterns to look for: "2024", "2023", "2022", "January 2025", "April 2024", etc.
-- Year should be between 2000-2030
+  /**
+   * Ask a model to answer a question without showing it the extracted answer
+   * @param model Overrides the verification task's configured model
+   * @returns null when the model could not be asked or gave no usable answer
+   */
+  async answerBlind(
+    question: ExtractedQuestion,
+    model?: string,
+    cancellation?: CancellationToken,
+  ): Promise<{
+    model: string;
+    answer: string;
+    confidence: number;
+    promptVersion: string;
+  } | null> {
+    try {
+      const prompt = await this.buildVerificationPrompt(question);
+      const response = await this.generateResponse(
+        LlmTask.VERIFICATION,
+        prompt.prompt,
+        model,
+        VERIFICATION_FORMAT,
+        false,
+        cancellation,
+        validateVerificationOutput,
+      );
 
-INTAKE DETECTION - PRIORITY ORDER:
-1. FIRST: Look for intake patterns in the PDF text content (e.g., "September 2022", "January 2016", "April 2024", "May exam", etc.)
-2. SECOND: If no intake found in content, use PDF filename intake: ${intakeFromPdf ? `${intakeFromPdf}` : 'None detected'}
-3. THIRD: If neither available, use reasonable estimate based on content context
-- Common intake patterns to look for: "January", "Jan", "April", "May", "September", "Sept", etc.
-- Map patterns to valid intakes: January/Jan → "january", April/May → "april-may", September/Sept → "september"
-- Valid intakes are: january, april-may, september
-
-SPECIAL PDF NAMES - HARDCODED VALUES:
-- For PDF name containing "RECALL APRIL 2025 Dr Hedaiyat BD": Use intake="april-may" and year=2025
-- For PDF name containing "Recall January 2025": Use intake="january" and year=2025  
-- For PDF name containing "Sept 2024": Use intake="september" and year=2024
-- For PDF name containing "mrcs-question-bank": Extract intake and year from PDF content
-
-OUTPUT FORMAT: Return a JSON array with this exact structure:
-[
-  {
-    "question": "The complete question text here",
-    "options": {
-      "A": "Complete option A text",
-      "B": "Complete option B text", 
-      "C": "Complete option C text",
-      "D": "Complete option D text",
-      "E": "Complete option E text"
-    },
-    "correctAnswer": "A",
-    "categories": ["anatomy-thorax", "physiology"],
-    "examYear": 2023,
-    "intake": "january",
-    "explanation": "Explanation if available",
-    "confidence": 0.85
+      const validation = validateVerificationOutput(JSON.parse(response));
+      if (!validation.success) {
+        this.logger.warn(
+          `Verification response broke the schema: ${this.describeViolations(validation.errors).join('; ')}`,
+        );
+        return null;
+      }
+      return {
+        model: model ?? this.llmService.getModel(LlmTask.VERIFICATION),
+        answer: validation.data.correctAnswer,
+        confidence: validation.data.confidence,
+        promptVersion: prompt.version,
+      };
+    } catch (error) {
+      if (error instanceof ExtractionCancelledError) {
+        throw error;
+      }
+      this.logger.error('Failed to verify answer:', error);
+      return null;
+    }
   }
-]
-
-CONFIDENCE SCORING GUIDELINES:
-- 0.9-0.95: Excellent quality, complete question with clear correct answer
-- 0.8-0.89: Very good quality, well-formed question with good options
-- 0.7-0.79: Good quality, complete question with minor issues
-- 0.6-0.69: Acceptable quality, some uncertainty in extraction
-- 0.5-0.59: Lower quality, incomplete or unclear elements
-- Below 0.5: Poor quality, should be rejected
-
-Always provide a confidence score between 0.5 and 0.95 based on question quality.
-
-TEXT TO ANALYZE:
-${text}
 
-Return only the JSON array, no additional text.`;
+  // Fall back to the source profile's categories when none were assigned
+  withDefaultCategories(
+    categories: string[],
+    source?: ResolvedSource,
+  ): string[] {
+    return categories.length > 0
+      ? categories
+      : [...(source?.defaultCategories ?? [])];
   }
 
-  private buildCategorizationPrompt(questionText: string): string {
-    return `Categorize this medical question into one or more of these preseeded categories:
-
-CATEGORIES:
-${this.categories.map((cat) => `- ${cat}`).join('\n')}
-
-CATEGORY GUIDELINES:
-- Anatomy questions: Use specific anatomy categories (thorax, abdomen, superior extremity, inferior extremity, head-neck-brain)
-- Physiology questions: Use "physiology"
-- Pathology questions: Use "pathology"
-- Microbiology questions: Use "microbiology"
-- Biostatistics questions: Use "biostatistics"
-- Clinical questions: Use appropriate clinical categories based on the medical specialty
-- If a question covers multiple topics, assign multiple categories
-- Be specific and accurate in categorization
-
-QUESTION:
-${questionText}
-
-Return JSON format:
-{
-  "categories": ["category1", "category2"],
-  "confidence": 0.85
-}
-
-Provide only the JSON response.`;
+  private buildExtractionPrompt(
+    text: string,
+    pageNumber: number,
+    source?: ResolvedSource,
+  ): Promise<RenderedPrompt> {
+    return this.promptTemplatesService.render(PromptTemplateName.EXTRACTION, {
+      pageNumber,
+      categories: this.categories.map((cat) => `   - ${cat}`).join('\n'),
+      intakes: this.intakes.map((intake) => `   - ${intake}`).join('\n'),
+      yearInstructions: this.buildYearInstructions(source),
+      intakeInstructions: this.buildIntakeInstructions(source),
+      sourceInstructions: this.buildSourceInstructions(source),
+      text,
+    });
   }
 
-  private extractYearFromPdfName(pdfName: string): number | null {
-    const lowerPdfName = pdfName.toLowerCase();
-
-    // If PDF name contains "mrcs-question-bank", return null to extract from PDF content
-    if (lowerPdfName.includes('mrcs-question-bank')) {
-      return null;
-    }
-
-    // Hardcode specific patterns
-    // Pattern: "Recall January 2025" -> year: 2025
-    if (lowerPdfName.includes('recall') && lowerPdfName.includes('january')) {
-      return 2025;
-    }
-
-    // Pattern: "RECALL APRIL 2025 Dr Hedaiyat BD" -> year: 2025
-    if (
-      lowerPdfName.includes('recall') &&
-      (lowerPdfName.includes('april') || lowerPdfName.includes('may'))
-    ) {
-      return 2025;
-    }
-
-    // Pattern: "Sept 2024" -> year: 2024
-    if (lowerPdfName.includes('sept') || lowerPdfName.includes('september')) {
-      return 2024;
-    }
-
-    // For other patterns, try to extract year from filename
-    const yearPatterns = [
-      /\b(20[0-3]\d)\b/, // 2000-2039
-      /\b(19[8-9]\d)\b/, // 1980-1999 (for older exams if any)
-    ];
-
-    for (const pattern of yearPatterns) {
-      const yearMatch = pdfName.match(pattern);
-      if (yearMatch) {
-        const year = parseInt(yearMatch[1]);
-        // Validate year is in reasonable range for MRCS exams
-        if (year >= 1990 && year <= 2030) {
-          return year;
-        }
-      }
-    }
-
-    return null;
+  private buildCategorizationPrompt(
+    questionText: string,
+  ): Promise<RenderedPrompt> {
+    return this.promptTemplatesService.render(
+      PromptTemplateName.CATEGORIZATION,
+      {
+        categories: this.categories.map((cat) => `- ${cat}`).join('\n'),
+        question: questionText,
+      },
+    );
   }
 
-  private extractIntakeFromPdfName(pdfName: string): string | null {
-    const lowerPdfName = pdfName.toLowerCase();
-
-    // If PDF name contains "mrcs-question-bank", return null to extract from PDF content
-    if (lowerPdfName.includes('mrcs-question-bank')) {
-      return null;
-    }
-
-    // Hardcode specific patterns
-    // Pattern: "Recall January 2025" -> intake: "january"
-    if (lowerPdfName.includes('recall') && lowerPdfName.includes('january')) {
-      return 'january';
-    }
-
-    // Pattern: "RECALL APRIL 2025 Dr Hedaiyat BD" -> intake: "april-may"
-    if (
-      lowerPdfName.includes('recall') &&
-      (lowerPdfName.includes('april') || lowerPdfName.includes('may'))
-    ) {
-      return 'april-may';
-    }
-
-    // Pattern: "Sept 2024" -> intake: "september"
-    if (lowerPdfName.includes('sept') || lowerPdfName.includes('september')) {
-      return 'september';
-    }
-
-    // For other patterns, try to extract intake from filename
-    // Check for January intake patterns
-    if (lowerPdfName.includes('january') || lowerPdfName.includes('jan')) {
-      return 'january';
-    }
-
-    // Check for April/May intake patterns
-    if (lowerPdfName.includes('april') || lowerPdfName.includes('may')) {
-      return 'april-may';
-    }
+  private buildVerificationPrompt(
+    question: ExtractedQuestion,
+  ): Promise<RenderedPrompt> {
+    return this.promptTemplatesService.render(
+      PromptTemplateName.ANSWER_VERIFICATION,
+      {
+        question: question.question,
+        options: Object.entries(question.options)
+          .map(([key, value]) => `${key}: ${value}`)
+          .join('\n'),
+      },
+    );
+  }
 
-    // Check for September intake patterns
-    if (lowerPdfName.includes('september') || lowerPdfName.includes('sept')) {
-      return 'september';
+  private buildYearInstructions(source?: ResolvedSource): string {
+    if (source?.forcedYear) {
+      return `YEAR: Every question in this document is from ${source.forcedYear}. Use examYear=${source.forcedYear}.`;
     }
 
-    // Additional pattern matching for edge cases
-    const intakePatterns = [
-      { pattern: /\b(january|jan)\b/i, intake: 'january' },
-      { pattern: /\b(april|may)\b/i, intake: 'april-may' },
-      { pattern: /\b(september|sept)\b/i, intake: 'september' },
-    ];
+    return `YEAR DETECTION - PRIORITY ORDER:
+1. FIRST: Look for year patterns in the PDF text content (e.g., "2023", "2024", "September 2022", "January 2016", etc.)
+2. SECOND: If no year found in content, use PDF filename year: ${source?.yearHint ?? 'None detected'}
+3. THIRD: If neither available, use reasonable estimate based on content context
+- Common year patterns to look for: "2024", "2023", "2022", "January 2025", "April 2024", etc.
+- Year should be between 2000-2030`;
+  }
 
-    for (const { pattern, intake } of intakePatterns) {
-      if (pattern.test(pdfName)) {
-        return intake;
-      }
+  private buildIntakeInstructions(source?: ResolvedSource): string {
+    if (source?.forcedIntake) {
+      return `INTAKE: Every question in this document is from the ${source.forcedIntake} intake. Use intake="${source.forcedIntake}".`;
     }
 
-    return null;
+    return `INTAKE DETECTION - PRIORITY ORDER:
+1. FIRST: Look for intake patterns in the PDF text content (e.g., "September 2022", "January 2016", "April 2024", "May exam", etc.)
+2. SECOND: If no intake found in content, use PDF filename intake: ${source?.intakeHint ?? 'None detected'}
+3. THIRD: If neither available, use reasonable estimate based on content context
+- Common intake patterns to look for: "January", "Jan", "April", "May", "September", "Sept", etc.
+- Map patterns to valid intakes: January/Jan → "january", April/May → "april-may", September/Sept → "september"
+- Valid intakes are: ${this.intakes.join(', ')}`;
   }
 
-  private async generateResponse(prompt: string): Promise<string> {
-    try {
-      const requestData: OllamaGenerateRequest = {
-        model: this.model,
-        prompt,
-        stream: false,
-        options: {
-          temperature: 0.1,
-          top_p: 0.9,
-          num_predict: 2048,
-        },
-      };
-
-      const response: AxiosResponse<OllamaGenerateResponse> =
-        await this.axiosInstance.post('/api/generate', requestData);
-
-      if (!response.data?.response) {
-        throw new Error('Invalid response from Ollama API');
-      }
-
-      return response.data.response;
-    } catch (error) {
-      this.logger.error('Ollama API request failed:', error);
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Ollama generation failed: ${errorMessage}`);
+  // Extra instructions for the kind of document, from the source profile
+  private buildSourceInstructions(source?: ResolvedSource): string {
+    switch (source?.promptVariant) {
+      case SourcePromptVariant.RECALL:
+        return `
+SOURCE NOTES:
+- This is a recall document: candidates wrote the questions down from memory after the exam
+- Stems may be shorter than the real exam and options may be missing or listed without letters
+- The correct answer is often given as text after the options rather than marked on an option
+`;
+      case SourcePromptVariant.QUESTION_BANK:
+        return `
+SOURCE NOTES:
+- This is a question bank with questions from many sittings
+- Take the year and intake of each question from the text around that question only
+- Do not reuse the year or intake of another question
+`;
+      default:
+        return '';
     }
   }
 
   /**
-   * Generate a completion using a specific model (for explanations, etc)
+   * Run a prompt through the provider configured for the task
+   * @param model Overrides the task's configured model
+   * @param format JSON schema the response is constrained to
+   * @param bypassCache Skip the LLM cache and replace its entry with the new response
+   * @param cancellation Checked first, so a stopped or paused run sends nothing more
+   * @param validate Responses that are not JSON passing this are left out of the cache
    */
-  public async generateCompletionWithModel(
+  private async generateResponse(
+    task: LlmTask,
     prompt: string,
-    model: string,
+    model?: string,
+    format?: object,
+    bypassCache = false,
+    cancellation?: CancellationToken,
+    validate?: (input: unknown) => IValidation<unknown>,
   ): Promise<string> {
+    await cancellation?.throwIfCancelled();
+    const response = await this.llmService.generate(task, prompt, {
+      model,
+      temperature: 0.1,
+      topP: 0.9,
+      maxTokens: 2048,
+      format,
+      bypassCache,
+      cacheIf: validate && ((text) => this.isSchemaValid(text, validate)),
+    });
+    return response.text;
+  }
+
+  private isSchemaValid(
+    response: string,
+    validate: (input: unknown) => IValidation<unknown>,
+  ): boolean {
     try {
-      const requestData: OllamaGenerateRequest = {
-        model,
-        prompt,
-        stream: false,
-        options: {
-          temperature: 0.2,
-          top_p: 0.9,
-          num_predict: 1024,
-        },
-      };
-      const response: AxiosResponse<OllamaGenerateResponse> =
-        await this.axiosInstance.post('/api/generate', requestData);
-      if (!response.data?.response) {
-        throw new Error('Invalid response from Ollama API');
-      }
-      return response.data.response;
-    } catch (error) {
-      this.logger.error('Ollama API request failed:', error);
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Ollama generation failed: ${errorMessage}`);
+      return validate(JSON.parse(response)).success;
+    } catch {
+      return false;
     }
   }
 
   /**
-   * Generate a detailed medical explanation with optimized parameters
+   * Read the question objects out of a response. A response that is not JSON, or
+   * has no questions array, is reported and only then run through the repair heuristics
    */
-  public async generateMedicalExplanation(
-    prompt: string,
-    model: string,
-  ): Promise<string> {
+  private readQuestionItems(response: string): {
+    items: unknown[];
+    schemaViolations: string[];
+    repaired: boolean;
+  } {
+    let parsed: unknown;
     try {
-      const requestData: OllamaGenerateRequest = {
-        model,
-        prompt,
-        stream: false,
-        options: {
-          temperature: 0.4, // Higher temperature for more creative explanations
-          top_p: 0.95, // Higher top_p for more diverse vocabulary
-          num_predict: 2048, // Longer responses for detailed explanations
-        },
-      };
-      const response: AxiosResponse<OllamaGenerateResponse> =
-        await this.axiosInstance.post('/api/generate', requestData);
-      if (!response.data?.response) {
-        throw new Error('Invalid response from Ollama API');
-      }
-      return response.data.response;
+      parsed = JSON.parse(response);
     } catch (error) {
-      this.logger.error('Ollama medical explanation generation failed:', error);
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Medical explanation generation failed: ${errorMessage}`);
+      const schemaViolations = [
+        `$input: expected JSON, got ${this.previewValue(response)} (${error.message})`,
+      ];
+      return {
+        items: this.tryAlternativeJsonParsing(response),
+        schemaViolations,
+        repaired: true,
+      };
     }
-  }
 
-  private async parseQuestionResponse(
-    response: string,
-    pdfName?: string,
-  ): Promise<ExtractedQuestion[]> {
-    try {
-      // Clean the response to extract JSON
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        this.logger.warn('No JSON array found in response', {
-          responseLength: response.length,
-          responsePreview: response.substring(0, 200),
-        });
-        return [];
-      }
-
-      let jsonString = jsonMatch[0];
-
-      // Log original JSON for debugging
-      this.logger.debug('Original JSON match:', {
-        length: jsonString.length,
-        preview: jsonString.substring(0, 300),
-      });
-
-      // Clean up common JSON formatting issues
-      jsonString = this.cleanJsonString(jsonString);
+    // Questions are validated one by one so one bad question does not drop the page
+    if (
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      Array.isArray((parsed as Record<string, unknown>).questions)
+    ) {
+      return {
+        items: (parsed as Record<string, unknown>).questions as unknown[],
+        schemaViolations: [],
+        repaired: false,
+      };
+    }
 
-      // Log the cleaned JSON for debugging
-      this.logger.debug('Cleaned JSON string:', {
-        length: jsonString.length,
-        preview: jsonString.substring(0, 300),
-      });
+    // Providers that ignore the format may still answer with a bare array
+    if (Array.isArray(parsed)) {
+      return {
+        items: parsed as unknown[],
+        schemaViolations: [
+          '$input: expected LlmExtractionOutput, got an array of questions',
+        ],
+        repaired: false,
+      };
+    }
 
-      const parsedResponse: unknown = JSON.parse(jsonString);
+    const validation = validateExtractionOutput(parsed);
+    return {
+      items: this.tryAlternativeJsonParsing(response),
+      schemaViolations: validation.success
+        ? []
+        : this.describeViolations(validation.errors),
+      repaired: true,
+    };
+  }
 
-      if (!Array.isArray(parsedResponse)) {
-        this.logger.warn('Parsed response is not an array', {
-          responseType: typeof parsedResponse,
-          response: parsedResponse,
-        });
-        return [];
+  private validateQuestionItems(items: unknown[]): {
+    questions: LlmExtractedQuestion[];
+    violations: string[];
+  } {
+    const questions: LlmExtractedQuestion[] = [];
+    const violations: string[] = [];
+
+    items.forEach((item, index) => {
+      const validation = validateExtractedQuestion(item);
+      if (validation.success) {
+        questions.push(validation.data);
+      } else {
+        violations.push(
+          ...this.describeViolations(
+            validation.errors,
+            `$input.questions[${index}]`,
+          ),
+        );
       }
+    });
 
-      this.logger.log(
-        `Successfully parsed ${parsedResponse.length} questions from response`,
-      );
-
-      // Validate and clean each question
-      const validQuestions = parsedResponse.filter((q: unknown) =>
-        this.validateQuestion(q),
-      );
-
-      this.logger.log(
-        `${validQuestions.length} questions passed validation out of ${parsedResponse.length} total`,
-      );
+    this.logger.log(
+      `${questions.length} questions passed schema validation out of ${items.length} total`,
+    );
 
-      const cleanedQuestions = await Promise.all(
-        validQuestions.map((q: unknown) => this.cleanQuestion(q, pdfName)),
-      );
+    return { questions, violations };
+  }
 
-      return cleanedQuestions;
-    } catch (error) {
-      this.logger.error('Failed to parse question response:', {
-        error: error.message,
-        errorType: error.constructor.name,
-        responseLength: response.length,
-        responseStart: response.substring(0, 500),
-        responseEnd: response.substring(Math.max(0, response.length - 500)),
-      });
+  // "$input.questions[2].correctAnswer: expected ("A" | ... | "E"), got "F""
+  private describeViolations(
+    errors: IValidation.IError[],
+    path: string = '$input',
+  ): string[] {
+    return errors.map(
+      (error) =>
+        `${error.path.replace(/^\$input/, path)}: expected ${error.expected}, got ${this.previewValue(error.value)}`,
+    );
+  }
 
-      // Try alternative parsing approaches
-      return this.tryAlternativeJsonParsing(response, pdfName);
-    }
+  private previewValue(value: unknown): string {
+    const text =
+      value === undefined
+        ? 'undefined'
+        : (JSON.stringify(value) ?? 'undefined');
+    return text.length > 80 ? `${text.substring(0, 80)}...` : text;
   }
 
-  private async tryAlternativeJsonParsing(
-    response: string,
-    pdfName?: string,
-  ): Promise<ExtractedQuestion[]> {
+  /**
+   * Last resort for responses that are not valid JSON: find an array in the
+   * text and patch up common formatting mistakes
+   */
+  private tryAlternativeJsonParsing(response: string): unknown[] {
     const parsingAttempts = [
+      {
+        name: 'Array extraction',
+        regex: /\[[\s\S]*\]/,
+      },
       {
         name: 'Code block extraction',
         regex: /```(?:json)?\s*(\[[\s\S]*?\])\s*```/,
@@ -570,31 +613,16 @@ Provide only the JSON response.`;
             preview: jsonString.substring(0, 200),
           });
 
-          const parsedResponse = JSON.parse(jsonString);
+          const parsedResponse: unknown = JSON.parse(jsonString);
 
-          if (Array.isArray(parsedResponse)) {
+          if (Array.isArray(parsedResponse) && parsedResponse.length > 0) {
             this.logger.log(
               `${attempt.name} successful - found ${parsedResponse.length} items`,
             );
-
-            const validQuestions = parsedResponse.filter((q: unknown) =>
-              this.validateQuestion(q),
-            );
-
-            this.logger.log(
-              `${validQuestions.length} questions passed validation from ${attempt.name}`,
-            );
-
-            const cleanedQuestions = await Promise.all(
-              validQuestions.map((q: unknown) =>
-                this.cleanQuestion(q, pdfName),
-              ),
-            );
-
-            return cleanedQuestions;
+            return parsedResponse as unknown[];
           } else {
             this.logger.warn(
-              `${attempt.name} - parsed response is not an array:`,
+              `${attempt.name} - parsed response is not a non-empty array:`,
               typeof parsedResponse,
             );
           }
@@ -772,6 +800,28 @@ Provide only the JSON response.`;
   private parseCategorizationResponse(response: string): {
     categories: string[];
     confidence: number;
+  } {
+    try {
+      const validation = validateCategorizationOutput(JSON.parse(response));
+      if (validation.success) {
+        return validation.data;
+      }
+      this.logger.warn(
+        `Categorization response broke the schema: ${this.describeViolations(validation.errors).join('; ')}`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Categorization response is not valid JSON: ${error.message}`,
+      );
+    }
+
+    return this.repairCategorizationResponse(response);
+  }
+
+  // Last resort: pull an object out of the text and keep the known categories
+  private repairCategorizationResponse(response: string): {
+    categories: string[];
+    confidence: number;
   } {
     try {
       const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -807,75 +857,25 @@ Provide only the JSON response.`;
     }
   }
 
-  private validateQuestion(
-    question: unknown,
-  ): question is Record<string, unknown> {
-    if (typeof question !== 'object' || question === null) {
-      return false;
-    }
-
-    const q = question as Record<string, unknown>;
-
-    return (
-      typeof q.question === 'string' &&
-      q.question.length > 10 &&
-      typeof q.options === 'object' &&
-      q.options !== null &&
-      typeof (q.options as Record<string, unknown>).A === 'string' &&
-      typeof (q.options as Record<string, unknown>).B === 'string' &&
-      typeof (q.options as Record<string, unknown>).C === 'string' &&
-      typeof (q.options as Record<string, unknown>).D === 'string' &&
-      typeof (q.options as Record<string, unknown>).E === 'string' &&
-      ['A', 'B', 'C', 'D', 'E'].includes(q.correctAnswer as string) &&
-      Array.isArray(q.categories) &&
-      q.categories.length > 0 &&
-      q.categories.every(
-        (cat: unknown) =>
-          typeof cat === 'string' && this.categories.includes(cat),
-      ) &&
-      typeof q.examYear === 'number' &&
-      q.examYear >= 2000 &&
-      q.examYear <= 2030 &&
-      typeof q.intake === 'string' &&
-      this.intakes.includes(q.intake)
-    );
-  }
-
   private async cleanQuestion(
     question: unknown,
-    pdfName?: string,
+    promptVersion: string,
+    source?: ResolvedSource,
+    model?: string,
+    cancellation?: CancellationToken,
   ): Promise<ExtractedQuestion> {
     const q = question as Record<string, unknown>;
     const options = q.options as Record<string, unknown>;
 
-    // Override intake and year based on specific PDF names
-    let intake = q.intake as string;
-    let examYear = q.examYear as number;
-
-    if (pdfName) {
-      const lowerPdfName = pdfName.toLowerCase();
-      console.log({ lowerPdfName });
-      // Hardcode specific PDF name patterns
-      if (lowerPdfName.includes('recall april 2025')) {
-        intake = 'april-may';
-        examYear = 2025;
-      } else if (lowerPdfName.includes('recall january 2025')) {
-        intake = 'january';
-        examYear = 2025;
-      } else if (lowerPdfName.includes('sept 2024')) {
-        intake = 'september';
-        examYear = 2024;
-      } else if (lowerPdfName.includes('mrcs-question-bank')) {
-        // For mrcs-question-bank.pdf, keep the AI's detection
-        // No override needed
-      }
-    }
-    console.log({ intake, examYear });
+    // The source profile's values win over what the model read
+    const intake = source?.forcedIntake ?? (q.intake as string);
+    const examYear = source?.forcedYear ?? (q.examYear as number);
 
     // Check for missing options and generate them if needed
     const questionText = String(q.question).trim();
     const correctAnswer = q.correctAnswer as string;
     const existingOptions = { ...options };
+    const promptVersions = [promptVersion];
 
     // Check which options are missing or invalid
     const requiredOptions = ['A', 'B', 'C', 'D', 'E'];
@@ -897,17 +897,22 @@ Provide only the JSON response.`;
       this.logger.log(
         `Generating missing options: ${missingOptions.join(', ')} for question: ${questionText.substring(0, 100)}...`,
       );
-      const generatedOptions = await this.generateMissingOptions(
+      const generated = await this.generateMissingOptions(
         questionText,
         existingOptions,
         correctAnswer,
         missingOptions,
+        model,
+        cancellation,
       );
 
       // Merge generated options with existing ones
-      for (const [key, value] of Object.entries(generatedOptions)) {
+      for (const [key, value] of Object.entries(generated.options)) {
         existingOptions[key] = value;
       }
+      if (generated.promptVersion) {
+        promptVersions.push(generated.promptVersion);
+      }
     }
 
     return {
@@ -935,8 +940,11 @@ Provide only the JSON response.`;
             : '',
       },
       correctAnswer: correctAnswer,
-      categories: (q.categories as string[]).filter((cat) =>
-        this.categories.includes(cat),
+      categories: this.withDefaultCategories(
+        (q.categories as string[]).filter((cat) =>
+          this.categories.includes(cat),
+        ),
+        source,
       ),
       examYear,
       intake,
@@ -945,6 +953,7 @@ Provide only the JSON response.`;
           ? q.explanation.trim()
           : '',
       confidence: this.calculateConfidence(q),
+      promptVersions,
     };
   }
 
@@ -953,25 +962,41 @@ Provide only the JSON response.`;
     existingOptions: Record<string, unknown>,
     correctAnswer: string,
     missingOptions: string[],
-  ): Promise<Record<string, string>> {
+    model?: string,
+    cancellation?: CancellationToken,
+  ): Promise<{ options: Record<string, string>; promptVersion?: string }> {
     try {
-      const prompt = this.buildMissingOptionsPrompt(
+      const prompt = await this.buildMissingOptionsPrompt(
         questionText,
         existingOptions,
         correctAnswer,
         missingOptions,
       );
 
-      const response = await this.generateResponse(prompt);
-      return this.parseMissingOptionsResponse(response, missingOptions);
+      const response = await this.generateResponse(
+        LlmTask.EXTRACTION,
+        prompt.prompt,
+        model,
+        { ...OPTIONS_FORMAT, required: missingOptions },
+        false,
+        cancellation,
+        validateOptions,
+      );
+      return {
+        options: this.parseMissingOptionsResponse(response, missingOptions),
+        promptVersion: prompt.version,
+      };
     } catch (error) {
+      if (error instanceof ExtractionCancelledError) {
+        throw error;
+      }
       this.logger.error('Failed to generate missing options:', error);
       // Return fallback options
       const fallbackOptions: Record<string, string> = {};
       missingOptions.forEach((option) => {
         fallbackOptions[option] = `Alternative option ${option}`;
       });
-      return fallbackOptions;
+      return { options: fallbackOptions };
     }
   }
 
@@ -980,7 +1005,7 @@ Provide only the JSON response.`;
     existingOptions: Record<string, unknown>,
     correctAnswer: string,
     missingOptions: string[],
-  ): string {
+  ): Promise<RenderedPrompt> {
     const existingOptionsText = Object.entries(existingOptions)
       .filter(([key, value]) => {
         return (
@@ -993,34 +1018,56 @@ Provide only the JSON response.`;
       .map(([key, value]) => `${key}: ${(value as string).trim()}`)
       .join('\n');
 
-    return `You are a medical AI assistant. Generate appropriate WRONG answer options for this MRCS exam question.
-
-QUESTION: ${questionText}
-
-EXISTING OPTIONS:
-${existingOptionsText}
-
-CORRECT ANSWER: ${correctAnswer}
-
-TASK: Generate ${missingOptions.length} plausible but INCORRECT medical options for: ${missingOptions.join(', ')}
-
-REQUIREMENTS:
-1. All generated options must be WRONG answers
-2. Options should be medically plausible but incorrect for this specific question
-3. Match the style and complexity of existing options
-4. Be specific to the medical topic (anatomy, physiology, pathology, etc.)
-5. Each option should be 2-15 words long
-6. Avoid obviously wrong or nonsensical options
+    return this.promptTemplatesService.render(
+      PromptTemplateName.MISSING_OPTIONS,
+      {
+        question: questionText,
+        existingOptions: existingOptionsText,
+        correctAnswer,
+        count: missingOptions.length,
+        missingOptions: missingOptions.join(', '),
+        optionsFormat: missingOptions
+          .map((opt) => `  "${opt}": "Your wrong option here"`)
+          .join(',\n'),
+      },
+    );
+  }
 
-Return ONLY a JSON object with the missing options:
-{
-${missingOptions.map((opt) => `  "${opt}": "Your wrong option here"`).join(',\n')}
-}
+  private parseMissingOptionsResponse(
+    response: string,
+    missingOptions: string[],
+  ): Record<string, string> {
+    try {
+      const validation = validateOptions(JSON.parse(response));
+      if (validation.success) {
+        const options: Partial<QuestionOptions> = validation.data;
+        const absent = missingOptions.filter(
+          (option) => !options[option]?.trim(),
+        );
+        if (absent.length === 0) {
+          return Object.fromEntries(
+            missingOptions.map((option) => [option, options[option].trim()]),
+          );
+        }
+        this.logger.warn(
+          `Missing options response left out ${absent.map((option) => `$input.${option}`).join(', ')}`,
+        );
+      } else {
+        this.logger.warn(
+          `Missing options response broke the schema: ${this.describeViolations(validation.errors).join('; ')}`,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Missing options response is not valid JSON: ${error.message}`,
+      );
+    }
 
-Generate options that a medical student might consider but are definitively incorrect for this question.`;
+    return this.repairMissingOptionsResponse(response, missingOptions);
   }
 
-  private parseMissingOptionsResponse(
+  // Last resort: pull an object out of the text and fill any gaps with placeholders
+  private repairMissingOptionsResponse(
     response: string,
     missingOptions: string[],
   ): Record<string, string> {
@@ -1200,15 +1247,4 @@ Generate options that a medical student might consider but are definitively inco
 
     return true;
   }
-
-  async isHealthy(): Promise<boolean> {
-    try {
-      const response: AxiosResponse<OllamaTagsResponse> =
-        await this.axiosInstance.get('/api/tags');
-      return response.status === 200;
-    } catch (error) {
-      this.logger.error('Ollama health check failed:', error);
-      return false;
-    }
-  }
 }
@@ -0,0 +1,385 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OPS, PDFPageProxy } from 'pdfjs-dist';
+import { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+export type EmphasisSignal =
+  'highlight' | 'underline' | 'fill-colour' | 'text-colour' | 'bold';
+
+export interface EmphasisedSpan {
+  text: string;
+  signals: EmphasisSignal[];
+}
+
+interface Box {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface MarkedBox extends Box {
+  signal: EmphasisSignal;
+}
+
+interface PageItem extends Box {
+  text: string;
+  fontName: string;
+  y: number;
+  fontSize: number;
+  signals: Set<EmphasisSignal>;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const FILL_OPS = new Set<number>([
+  OPS.fill,
+  OPS.eoFill,
+  OPS.fillStroke,
+  OPS.eoFillStroke,
+  OPS.closeFillStroke,
+  OPS.closeEOFillStroke,
+]);
+
+const BOLD_FONT_NAME = /bold|black|heavy|semibold|demi/i;
+
+@Injectable()
+export class PdfEmphasisService {
+  private readonly logger = new Logger(PdfEmphasisService.name);
+
+  /**
+   * Find text that is visually emphasised on a page: highlight/underline
+   * annotations, coloured boxes behind text, coloured text and bold fonts
+   * @param items Text items from page.getTextContent()
+   */
+  async detect(
+    page: PDFPageProxy,
+    items: unknown[],
+  ): Promise<EmphasisedSpan[]> {
+    const pageItems = this.toPageItems(items);
+    if (pageItems.length === 0) {
+      return [];
+    }
+
+    // The operator list also loads the page fonts into commonObjs
+    const opList = await page.getOperatorList();
+    const { fillBoxes, colouredText } = this.scanOperators(
+      opList.fnArray,
+      opList.argsArray,
+    );
+    const marks = [...fillBoxes, ...(await this.getAnnotationBoxes(page))];
+    const colouredChunks = colouredText
+      .map((text) => this.normalize(text))
+      .filter((text) => text.length >= 3);
+
+    for (const item of pageItems) {
+      if (this.isBoldFont(page, item.fontName)) {
+        item.signals.add('bold');
+      }
+
+      for (const mark of marks) {
+        if (this.overlaps(item, mark)) {
+          item.signals.add(mark.signal);
+        }
+      }
+
+      const text = this.normalize(item.text);
+      if (
+        text.length >= 3 &&
+        colouredChunks.some(
+          (chunk) => chunk.includes(text) || text.includes(chunk),
+        )
+      ) {
+        item.signals.add('text-colour');
+      }
+    }
+
+    return this.buildSpans(pageItems);
+  }
+
+  private toPageItems(items: unknown[]): PageItem[] {
+    return items
+      .filter((item) => this.isTextItem(item))
+      .map((item) => {
+        const [, , c, d, e, f] = item.transform as number[];
+        const fontSize = Math.abs(d) || Math.abs(c) || item.height || 10;
+        return {
+          text: item.str,
+          fontName: item.fontName,
+          y: f,
+          fontSize,
+          // Let the box reach a little below the baseline for underlines
+          x1: e,
+          y1: f - fontSize * 0.3,
+          x2: e + item.width,
+          y2: f + fontSize,
+          signals: new Set<EmphasisSignal>(),
+        };
+      });
+  }
+
+  private isTextItem(item: unknown): item is TextItem {
+    return (
+      typeof (item as TextItem)?.str === 'string' &&
+      Array.isArray((item as TextItem).transform)
+    );
+  }
+
+  /**
+   * Walk the operator list for filled boxes and text drawn in a colour
+   */
+  private scanOperators(
+    fnArray: number[],
+    argsArray: any[],
+  ): { fillBoxes: MarkedBox[]; colouredText: string[] } {
+    const fillBoxes: MarkedBox[] = [];
+    const colouredText: string[] = [];
+    const stack: Array<{ ctm: Matrix; fill: number[] }> = [];
+    let ctm: Matrix = IDENTITY;
+    let fill: number[] = [0, 0, 0];
+    let pathBoxes: Box[] = [];
+
+    for (let i = 0; i < fnArray.length; i++) {
+      const fn = fnArray[i];
+      const args = argsArray[i];
+
+      switch (fn) {
+        case OPS.save:
+          stack.push({ ctm, fill });
+          break;
+        case OPS.restore:
+        case OPS.paintFormXObjectEnd: {
+          const state = stack.pop();
+          if (state) {
+            ({ ctm, fill } = state);
+          }
+          break;
+        }
+        case OPS.paintFormXObjectBegin:
+          stack.push({ ctm, fill });
+          if (Array.isArray(args?.[0]) && args[0].length === 6) {
+            ctm = this.multiply(ctm, args[0] as Matrix);
+          }
+          break;
+        case OPS.transform:
+          ctm = this.multiply(ctm, args as Matrix);
+          break;
+        case OPS.setFillRGBColor:
+          fill = [args[0], args[1], args[2]];
+          break;
+        case OPS.constructPath:
+          pathBoxes = this.pathRectangles(args?.[0], args?.[1], ctm);
+          break;
+        case OPS.showText:
+          if (this.isEmphasisColour(fill)) {
+            colouredText.push(this.glyphText(args?.[0]));
+          }
+          break;
+        default:
+          if (FILL_OPS.has(fn)) {
+            if (this.isEmphasisColour(fill)) {
+              fillBoxes.push(
+                ...pathBoxes.map((box) => ({
+                  ...box,
+                  signal: 'fill-colour' as const,
+                })),
+              );
+            }
+            pathBoxes = [];
+          }
+      }
+    }
+
+    return { fillBoxes, colouredText };
+  }
+
+  private pathRectangles(ops: unknown, coords: unknown, ctm: Matrix): Box[] {
+    if (!Array.isArray(ops) || !Array.isArray(coords)) {
+      return [];
+    }
+
+    const boxes: Box[] = [];
+    let j = 0;
+    for (const op of ops) {
+      if (op === OPS.rectangle) {
+        const [x, y, width, height] = coords.slice(j, j + 4) as number[];
+        const [ax, ay] = this.apply(ctm, x, y);
+        const [bx, by] = this.apply(ctm, x + width, y + height);
+        boxes.push({
+          x1: Math.min(ax, bx),
+          y1: Math.min(ay, by),
+          x2: Math.max(ax, bx),
+          y2: Math.max(ay, by),
+        });
+        j += 4;
+      } else if (op === OPS.moveTo || op === OPS.lineTo) {
+        j += 2;
+      } else if (op === OPS.curveTo) {
+        j += 6;
+      } else if (op === OPS.curveTo2 || op === OPS.curveTo3) {
+        j += 4;
+      }
+    }
+    return boxes;
+  }
+
+  private async getAnnotationBoxes(page: PDFPageProxy): Promise<MarkedBox[]> {
+    try {
+      const annotations = await page.getAnnotations();
+      const boxes: MarkedBox[] = [];
+
+      for (const annotation of annotations) {
+        const signal: EmphasisSignal | null =
+          annotation.subtype === 'Highlight'
+            ? 'highlight'
+            : annotation.subtype === 'Underline'
+              ? 'underline'
+              : null;
+        if (!signal) {
+          continue;
+        }
+
+        // Each quad covers one marked line; fall back to the whole rect
+        const quads = annotation.quadPoints
+          ? Array.from(annotation.quadPoints as ArrayLike<number>)
+          : [];
+        if (quads.length >= 8) {
+          for (let i = 0; i + 8 <= quads.length; i += 8) {
+            const xs = [quads[i], quads[i + 2], quads[i + 4], quads[i + 6]];
+            const ys = [quads[i + 1], quads[i + 3], quads[i + 5], quads[i + 7]];
+            boxes.push({
+              x1: Math.min(...xs),
+              y1: Math.min(...ys),
+              x2: Math.max(...xs),
+              y2: Math.max(...ys),
+              signal,
+            });
+          }
+        } else if (Array.isArray(annotation.rect)) {
+          const [x1, y1, x2, y2] = annotation.rect as number[];
+          boxes.push({ x1, y1, x2, y2, signal });
+        }
+      }
+
+      return boxes;
+    } catch (error) {
+      this.logger.warn(
+        `Could not read annotations of page ${page.pageNumber}:`,
+        error,
+      );
+      return [];
+    }
+  }
+
+  private isBoldFont(page: PDFPageProxy, fontName: string): boolean {
+    try {
+      if (!fontName || !page.commonObjs.has(fontName)) {
+        return false;
+      }
+      const font = page.commonObjs.get(fontName) as {
+        name?: string;
+        bold?: boolean;
+        black?: boolean;
+      };
+      return (
+        font.bold === true ||
+        font.black === true ||
+        BOLD_FONT_NAME.test(font.name ?? '')
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Chromatic colours only; black, white and greys are ordinary text and table shading
+   */
+  private isEmphasisColour([r, g, b]: number[]): boolean {
+    return Math.max(r, g, b) - Math.min(r, g, b) > 60;
+  }
+
+  private glyphText(glyphs: unknown): string {
+    if (!Array.isArray(glyphs)) {
+      return '';
+    }
+    return glyphs
+      .map((glyph) =>
+        typeof glyph === 'object' && glyph !== null
+          ? ((glyph as { unicode?: string }).unicode ?? '')
+          : '',
+      )
+      .join('');
+  }
+
+  /**
+   * Join neighbouring emphasised items on the same row into spans
+   */
+  private buildSpans(items: PageItem[]): EmphasisedSpan[] {
+    const sorted = [...items].sort((a, b) => b.y - a.y || a.x1 - b.x1);
+    const rows: PageItem[][] = [];
+    for (const item of sorted) {
+      const row = rows[rows.length - 1];
+      if (row && Math.abs(row[0].y - item.y) <= item.fontSize * 0.5) {
+        row.push(item);
+      } else {
+        rows.push([item]);
+      }
+    }
+
+    const spans: EmphasisedSpan[] = [];
+    for (const row of rows) {
+      row.sort((a, b) => a.x1 - b.x1);
+      let current: PageItem[] = [];
+      const flush = () => {
+        const text = current
+          .map((item) => item.text)
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .trim();
+        if (text.length > 0) {
+          const signals = new Set(current.flatMap((item) => [...item.signals]));
+          spans.push({ text, signals: [...signals] });
+        }
+        current = [];
+      };
+
+      for (const item of row) {
+        if (item.signals.size > 0) {
+          current.push(item);
+        } else if (item.text.trim().length > 0) {
+          flush();
+        }
+      }
+      flush();
+    }
+
+    return spans;
+  }
+
+  private overlaps(item: Box, mark: Box): boolean {
+    const width = item.x2 - item.x1;
+    const horizontal = Math.min(item.x2, mark.x2) - Math.max(item.x1, mark.x1);
+    const vertical = Math.min(item.y2, mark.y2) - Math.max(item.y1, mark.y1);
+    return width > 0 && vertical > 0 && horizontal >= width * 0.5;
+  }
+
+  private multiply(m: Matrix, n: Matrix): Matrix {
+    return [
+      n[0] * m[0] + n[1] * m[2],
+      n[0] * m[1] + n[1] * m[3],
+      n[2] * m[0] + n[3] * m[2],
+      n[2] * m[1] + n[3] * m[3],
+      n[4] * m[0] + n[5] * m[2] + m[4],
+      n[4] * m[1] + n[5] * m[3] + m[5],
+    ];
+  }
+
+  private apply(m: Matrix, x: number, y: number): [number, number] {
+    return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+  }
+}
@@ -0,0 +1,184 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ImageKind, OPS, PDFPageProxy } from 'pdfjs-dist';
+
+export interface PdfPageImage {
+  // SHA-256 of the PNG; also the stored file's name
+  hash: string;
+  filename: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array | Uint8ClampedArray;
+}
+
+// How long to wait for pdf.js to hand over a decoded image
+const IMAGE_RESOLVE_TIMEOUT_MS = 5000;
+
+@Injectable()
+export class PdfImageService {
+  private readonly logger = new Logger(PdfImageService.name);
+  private readonly imagesDir: string;
+  private readonly minImageSize: number;
+
+  constructor(private configService: ConfigService) {
+    this.imagesDir = this.configService.get<string>(
+      'IMAGES_DIR',
+      path.join(this.configService.get<string>('DATA_DIR', './data'), 'images'),
+    );
+    // Smaller images are bullets, logos and rules rather than figures
+    this.minImageSize = Number(
+      this.configService.get<string>('MIN_IMAGE_SIZE', '64'),
+    );
+  }
+
+  /**
+   * Save the image XObjects drawn on a page as PNG files named by their hash
+   */
+  async extract(page: PDFPageProxy): Promise<PdfPageImage[]> {
+    const opList = await page.getOperatorList();
+    const images: PdfPageImage[] = [];
+    const seen = new Set<string>();
+
+    for (let i = 0; i < opList.fnArray.length; i++) {
+      const fn = opList.fnArray[i];
+      const args = opList.argsArray[i];
+
+      let image: DecodedImage | null = null;
+      if (fn === OPS.paintImageXObject && typeof args?.[0] === 'string') {
+        image = await this.resolveImage(page, args[0]);
+      } else if (fn === OPS.paintInlineImageXObject) {
+        image = (args?.[0] as DecodedImage) ?? null;
+      }
+
+      if (
+        !image ||
+        image.width < this.minImageSize ||
+        image.height < this.minImageSize
+      ) {
+        continue;
+      }
+
+      const png = this.toPng(image);
+      if (!png) {
+        continue;
+      }
+
+      const hash = createHash('sha256').update(png).digest('hex');
+      if (seen.has(hash)) {
+        continue;
+      }
+      seen.add(hash);
+
+      images.push(await this.save(png, hash, image));
+    }
+
+    return images;
+  }
+
+  getImagesDir(): string {
+    return this.imagesDir;
+  }
+
+  private resolveImage(
+    page: PDFPageProxy,
+    objId: string,
+  ): Promise<DecodedImage | null> {
+    // Images shared across pages live in commonObjs
+    const objs = objId.startsWith('g_') ? page.commonObjs : page.objs;
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.logger.warn(
+          `Image ${objId} on page ${page.pageNumber} was not decoded in time`,
+        );
+        resolve(null);
+      }, IMAGE_RESOLVE_TIMEOUT_MS);
+
+      objs.get(objId, (data: DecodedImage | null) => {
+        clearTimeout(timer);
+        resolve(data);
+      });
+    });
+  }
+
+  /**
+   * Encode pdf.js image data as PNG; null for formats we cannot read
+   */
+  private toPng(image: DecodedImage): Buffer | null {
+    const { width, height, kind, data } = image;
+    if (!data) {
+      return null;
+    }
+
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    if (kind === ImageKind.RGBA_32BPP) {
+      rgba.set(data.subarray(0, rgba.length));
+    } else if (kind === ImageKind.RGB_24BPP) {
+      for (let src = 0, dest = 0; dest < rgba.length; src += 3, dest += 4) {
+        rgba[dest] = data[src];
+        rgba[dest + 1] = data[src + 1];
+        rgba[dest + 2] = data[src + 2];
+        rgba[dest + 3] = 255;
+      }
+    } else if (kind === ImageKind.GRAYSCALE_1BPP) {
+      // One bit per pixel, rows padded to whole bytes; set bits are white
+      const rowBytes = (width + 7) >> 3;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const bit = data[y * rowBytes + (x >> 3)] & (128 >> (x & 7));
+          const dest = (y * width + x) * 4;
+          const value = bit ? 255 : 0;
+          rgba[dest] = value;
+          rgba[dest + 1] = value;
+          rgba[dest + 2] = value;
+          rgba[dest + 3] = 255;
+        }
+      }
+    } else {
+      return null;
+    }
+
+    const canvas = createCanvas(width, height);
+    const context = canvas.getContext('2d');
+    const imageData = context.createImageData(width, height);
+    imageData.data.set(rgba);
+    context.putImageData(imageData, 0, 0);
+    return canvas.toBuffer('image/png');
+  }
+
+  private async save(
+    png: Buffer,
+    hash: string,
+    image: DecodedImage,
+  ): Promise<PdfPageImage> {
+    const filename = `${hash}.png`;
+    const filePath = path.join(this.imagesDir, filename);
+
+    // Files are named by content, so an image seen before is already stored
+    if (!(await fs.pathExists(filePath))) {
+      await fs.ensureDir(this.imagesDir);
+      await fs.writeFile(filePath, png);
+    }
+
+    return {
+      hash,
+      filename,
+      mimeType: 'image/png',
+      width: image.width,
+      height: image.height,
+      size: png.length,
+    };
+  }
+}
@@ -0,0 +1,314 @@
+import { Injectable } from '@nestjs/common';
+import { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+interface PositionedItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  hasEOL: boolean;
+}
+
+interface LayoutLine {
+  text: string;
+  y: number;
+  fontSize: number;
+}
+
+// Matches the start of an answer option such as "A.", "B)" or "(C)"
+const OPTION_MARKER = /^\(?[A-E][.)]\s/;
+const INLINE_OPTION_MARKER = /\s+(?=\(?[A-E][.)]\s)/g;
+
+// Rows this close to the top/bottom of a page are header/footer candidates
+const MARGIN_ROWS = 2;
+
+@Injectable()
+export class PdfLayoutService {
+  /**
+   * Rebuild page text line by line, reading each column top to bottom
+   * @param items Text items from page.getTextContent()
+   * @param pageWidth Width of the page viewport at scale 1
+   * @param neighbourMargins Margin rows of nearby pages (see getMarginRows), used to drop repeated headers and footers
+   */
+  reconstructText(
+    items: unknown[],
+    pageWidth: number,
+    neighbourMargins: string[] = [],
+  ): string {
+    const positioned = this.stripRepeatedMargins(
+      this.toPositionedItems(items),
+      neighbourMargins,
+    );
+    if (positioned.length === 0) {
+      return '';
+    }
+
+    const gutter = this.findColumnGutter(positioned, pageWidth);
+    const columns =
+      gutter === null
+        ? [positioned]
+        : [
+            positioned.filter((item) => item.x < gutter),
+            positioned.filter((item) => item.x >= gutter),
+          ];
+
+    const lines: string[] = [];
+    for (const column of columns) {
+      if (lines.length > 0) {
+        lines.push('');
+      }
+      lines.push(...this.buildColumnLines(column));
+    }
+
+    return this.splitInlineOptions(lines).join('\n').trim();
+  }
+
+  /**
+   * Text of the top and bottom rows of a page, where headers and footers live
+   */
+  getMarginRows(items: unknown[]): string[] {
+    const rows = this.groupRows(this.toPositionedItems(items));
+    return [
+      ...rows.slice(0, MARGIN_ROWS),
+      ...rows.slice(Math.max(MARGIN_ROWS, rows.length - MARGIN_ROWS)),
+    ].map((row) => this.rowText(row));
+  }
+
+  /**
+   * Whether a line starts an answer option
+   */
+  isOptionLine(line: string): boolean {
+    return OPTION_MARKER.test(line.trim());
+  }
+
+  private toPositionedItems(items: unknown[]): PositionedItem[] {
+    return items
+      .filter(
+        (item): item is TextItem =>
+          typeof (item as TextItem)?.str === 'string' &&
+          Array.isArray((item as TextItem).transform),
+      )
+      .filter((item) => item.str.trim().length > 0 || item.hasEOL)
+      .map((item) => {
+        const [, , c, d, e, f] = item.transform as number[];
+        return {
+          text: item.str,
+          x: e,
+          y: f,
+          width: item.width,
+          fontSize: Math.abs(d) || Math.abs(c) || item.height || 10,
+          hasEOL: item.hasEOL,
+        };
+      });
+  }
+
+  /**
+   * Look for an empty vertical strip in the middle of the page that splits it in two
+   */
+  private findColumnGutter(
+    items: PositionedItem[],
+    pageWidth: number,
+  ): number | null {
+    const textItems = items.filter((item) => item.text.trim().length > 0);
+    if (textItems.length < 10 || pageWidth <= 0) {
+      return null;
+    }
+
+    let bestGutter: number | null = null;
+    let fewestCrossings = Infinity;
+
+    for (let ratio = 0.35; ratio <= 0.65; ratio += 0.01) {
+      const x = pageWidth * ratio;
+      const crossings = textItems.filter(
+        (item) => item.x < x && item.x + item.width > x,
+      ).length;
+      if (crossings < fewestCrossings) {
+        fewestCrossings = crossings;
+        bestGutter = x;
+      }
+    }
+
+    if (bestGutter === null) {
+      return null;
+    }
+
+    // Allow a few full-width items such as a title spanning both columns
+    if (fewestCrossings > textItems.length * 0.05) {
+      return null;
+    }
+
+    const gutter = bestGutter;
+    const left = textItems.filter((item) => item.x < gutter);
+    const right = textItems.filter((item) => item.x >= gutter);
+    if (
+      left.length < textItems.length * 0.2 ||
+      right.length < textItems.length * 0.2
+    ) {
+      return null;
+    }
+
+    // Both sides need lines at overlapping heights, otherwise this is
+    // just indentation rather than two columns
+    const rightRows = new Set(right.map((item) => Math.round(item.y)));
+    const sharedRows = left.filter((item) =>
+      rightRows.has(Math.round(item.y)),
+    ).length;
+    if (sharedRows < left.length * 0.3) {
+      return null;
+    }
+
+    return gutter;
+  }
+
+  private buildColumnLines(items: PositionedItem[]): string[] {
+    const rows = this.groupRows(items);
+
+    const lines: LayoutLine[] = [];
+    for (const row of rows) {
+      let current = '';
+      let previous: PositionedItem | null = null;
+      const flush = () => {
+        if (current.trim().length > 0) {
+          lines.push({
+            text: current.replace(/\s+/g, ' ').trim(),
+            y: row[0].y,
+            fontSize: row[0].fontSize,
+          });
+        }
+        current = '';
+      };
+
+      for (const item of row) {
+        if (previous) {
+          const gap = item.x - (previous.x + previous.width);
+          if (previous.hasEOL) {
+            flush();
+          } else if (gap > previous.fontSize * 0.15) {
+            current += ' ';
+          }
+        }
+        current += item.text;
+        previous = item;
+      }
+      flush();
+    }
+
+    // Keep a blank line where the vertical gap is much larger than usual,
+    // which is usually the boundary between two questions
+    const result: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const previousLine = lines[i - 1];
+      if (
+        previousLine &&
+        previousLine.y - line.y > Math.max(line.fontSize, 1) * 2
+      ) {
+        result.push('');
+      }
+      result.push(line.text);
+    }
+
+    return result;
+  }
+
+  /**
+   * Put options that share a line ("A. Radial B. Ulnar") on their own lines
+   */
+  private splitInlineOptions(lines: string[]): string[] {
+    const result: string[] = [];
+    for (const line of lines) {
+      const markers = line.match(/(^|\s)\(?[A-E][.)]\s/g) || [];
+      if (markers.length < 2) {
+        result.push(line);
+        continue;
+      }
+      result.push(
+        ...line
+          .split(INLINE_OPTION_MARKER)
+          .map((part) => part.trim())
+          .filter((part) => part.length > 0),
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Drop top/bottom rows that repeat on neighbouring pages or are just a page number
+   */
+  private stripRepeatedMargins(
+    items: PositionedItem[],
+    neighbourMargins: string[],
+  ): PositionedItem[] {
+    const repeated = new Set(
+      neighbourMargins.map((row) => this.normalizeMarginRow(row)),
+    );
+    const isMargin = (row: PositionedItem[]) => {
+      const text = this.rowText(row);
+      return (
+        this.isPageNumberRow(text) ||
+        repeated.has(this.normalizeMarginRow(text))
+      );
+    };
+
+    const rows = this.groupRows(items);
+
+    // Only look at the first and last few rows, never the body
+    let start = 0;
+    while (
+      start < Math.min(MARGIN_ROWS, rows.length) &&
+      isMargin(rows[start])
+    ) {
+      start++;
+    }
+
+    let end = rows.length;
+    while (end > start && rows.length - end < MARGIN_ROWS) {
+      if (!isMargin(rows[end - 1])) {
+        break;
+      }
+      end--;
+    }
+
+    return rows.slice(start, end).flat();
+  }
+
+  /**
+   * Group items that sit on the same baseline, top of the page first
+   */
+  private groupRows(items: PositionedItem[]): PositionedItem[][] {
+    // PDF y coordinates grow upwards, so read from the highest y down
+    const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+
+    const rows: PositionedItem[][] = [];
+    for (const item of sorted) {
+      const row = rows[rows.length - 1];
+      const tolerance = item.fontSize * 0.5;
+      if (row && Math.abs(row[0].y - item.y) <= tolerance) {
+        row.push(item);
+      } else {
+        rows.push([item]);
+      }
+    }
+
+    rows.forEach((row) => row.sort((a, b) => a.x - b.x));
+    return rows;
+  }
+
+  private rowText(row: PositionedItem[]): string {
+    return row
+      .map((item) => item.text)
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private normalizeMarginRow(row: string): string {
+    // Page numbers change from page to page, so ignore digits
+    return row.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+  }
+
+  private isPageNumberRow(row: string): boolean {
+    return /^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i.test(row.trim());
+  }
+}
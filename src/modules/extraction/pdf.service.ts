@@ -1,4 +1,5 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { createCanvas } from '@napi-rs/canvas';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as fs from 'fs-extra';
 import * as path from 'path';
@@ -8,6 +9,11 @@ import {
   PDFDocumentProxy,
   PDFPageProxy,
 } from 'pdfjs-dist';
+import { createWorker, Worker as OcrWorker } from 'tesseract.js';
+import { TextLayoutMode } from '../../common/CONSTANTS';
+import { EmphasisedSpan, PdfEmphasisService } from './pdf-emphasis.service';
+import { PdfImageService, PdfPageImage } from './pdf-image.service';
+import { PdfLayoutService } from './pdf-layout.service';
 
 // Set up PDF.js worker
 GlobalWorkerOptions.workerSrc = require.resolve(
@@ -23,26 +29,77 @@ const PDFJS_CONFIG = {
   useSystemFonts: true,
 };
 
+// Traineddata shipped with @tesseract.js-data/eng, so OCR never downloads anything
+const BUNDLED_OCR_LANG_PATH = path.join(
+  path.dirname(require.resolve('@tesseract.js-data/eng/package.json')),
+  '4.0.0',
+);
+
+export type PdfExtractionMethod =
+  'text-content' | 'operator-list' | 'ocr' | 'none';
+
 export interface PdfPageContent {
   pageNumber: number;
   text: string;
-  images?: Buffer[];
+  // Figures saved to the images directory, when requested
+  images?: PdfPageImage[];
   confidence: number;
+  method: PdfExtractionMethod;
+  // Highlighted, coloured or bold text, when requested
+  emphasis?: EmphasisedSpan[];
+}
+
+export interface PdfExtractionOptions {
+  // PDF in the data directory to read; defaults to the current PDF
+  pdfFilename?: string;
+  layoutMode?: TextLayoutMode;
+  // Look for visually emphasised text (used to detect correct answers)
+  detectEmphasis?: boolean;
+  // Save embedded images so they can be attached to questions
+  extractImages?: boolean;
 }
 
 @Injectable()
-export class PdfService {
+export class PdfService implements OnModuleDestroy {
   private readonly logger = new Logger(PdfService.name);
   private readonly tempDir: string;
   private readonly dataDir: string;
+  private readonly ocrEnabled: boolean;
+  private readonly ocrLanguage: string;
+  private readonly ocrLangPath: string;
+  private readonly ocrRenderScale: number;
   private currentPdfPath: string | null = null;
-
-  constructor(private configService: ConfigService) {
+  private ocrWorker: Promise<OcrWorker> | null = null;
+
+  constructor(
+    private configService: ConfigService,
+    private layoutService: PdfLayoutService,
+    private emphasisService: PdfEmphasisService,
+    private imageService: PdfImageService,
+  ) {
     this.tempDir = this.configService.get<string>('TEMP_DIR', './temp');
     this.dataDir = this.configService.get<string>('DATA_DIR', './data');
+    this.ocrEnabled =
+      this.configService.get<string>('OCR_ENABLED', 'true') !== 'false';
+    this.ocrLanguage = this.configService.get<string>('OCR_LANGUAGE', 'eng');
+    this.ocrLangPath = this.configService.get<string>(
+      'OCR_LANG_PATH',
+      BUNDLED_OCR_LANG_PATH,
+    );
+    this.ocrRenderScale = Number(
+      this.configService.get<string>('OCR_RENDER_SCALE', '2'),
+    );
     this.ensureTempDirectory();
   }
 
+  async onModuleDestroy() {
+    if (this.ocrWorker) {
+      const worker = await this.ocrWorker;
+      await worker.terminate();
+      this.ocrWorker = null;
+    }
+  }
+
   /**
    * Set the current PDF to work with
    * @param pdfFilename The PDF filename (e.g., 'mrcs-questions.pdf')
@@ -108,6 +165,7 @@ export class PdfService {
   async extractPagesContent(
     startPage = 1,
     endPage?: number,
+    options: PdfExtractionOptions = {},
   ): Promise<PdfPageContent[]> {
     try {
       this.logger.log(
@@ -143,7 +201,11 @@ export class PdfService {
 
       for (let pageNum = startPage; pageNum <= actualEndPage; pageNum++) {
         try {
-          const pageContent = await this.extractPageContent(doc, pageNum);
+          const pageContent = await this.extractPageContent(
+            doc,
+            pageNum,
+            options,
+          );
           results.push(pageContent);
 
           if (pageNum % 10 === 0) {
@@ -155,6 +217,7 @@ export class PdfService {
             pageNumber: pageNum,
             text: '',
             confidence: 0,
+            method: 'none',
           });
         }
       }
@@ -166,9 +229,14 @@ export class PdfService {
     }
   }
 
-  async extractSinglePage(pageNumber: number): Promise<PdfPageContent> {
+  async extractSinglePage(
+    pageNumber: number,
+    options: PdfExtractionOptions = {},
+  ): Promise<PdfPageContent> {
     try {
-      const pdfPath = this.getCurrentPdfPath();
+      const pdfPath = options.pdfFilename
+        ? path.join(this.dataDir, options.pdfFilename)
+        : this.getCurrentPdfPath();
       const buffer = await fs.readFile(pdfPath);
       const data = new Uint8Array(buffer);
 
@@ -185,7 +253,7 @@ export class PdfService {
         );
       }
 
-      return await this.extractPageContent(doc, pageNumber);
+      return await this.extractPageContent(doc, pageNumber, options);
     } catch (error) {
       this.logger.error(`Failed to extract page ${pageNumber}:`, error);
       throw error;
@@ -195,27 +263,39 @@ export class PdfService {
   private async extractPageContent(
     doc: PDFDocumentProxy,
     pageNumber: number,
+    options: PdfExtractionOptions = {},
   ): Promise<PdfPageContent> {
     const page = await doc.getPage(pageNumber);
+    const layoutMode = options.layoutMode ?? TextLayoutMode.FLAT;
 
     // Try multiple text extraction methods
     let bestText = '';
     let bestConfidence = 0;
-    const images: Buffer[] = [];
+    let bestMethod: PdfExtractionMethod = 'none';
+    let emphasis: EmphasisedSpan[] | undefined;
+    let images: PdfPageImage[] = [];
 
     // Method 1: Standard text content extraction
     try {
       const textContent = await page.getTextContent();
       if (textContent && textContent.items && textContent.items.length > 0) {
-        const text = textContent.items
-          .map((item: any) => item.str)
-          .join(' ')
-          .replace(/\s+/g, ' ')
-          .trim();
+        const text =
+          layoutMode === TextLayoutMode.LAYOUT
+            ? await this.reconstructLayoutText(doc, page, textContent.items)
+            : textContent.items
+                .map((item: any) => item.str)
+                .join(' ')
+                .replace(/\s+/g, ' ')
+                .trim();
 
         if (text.length > bestText.length) {
           bestText = text;
           bestConfidence = 0.8;
+          bestMethod = 'text-content';
+        }
+
+        if (options.detectEmphasis) {
+          emphasis = await this.detectEmphasis(page, textContent.items);
         }
       }
     } catch (error) {
@@ -225,8 +305,13 @@ export class PdfService {
       );
     }
 
+    if (options.extractImages) {
+      images = await this.extractImages(page);
+    }
+
     // Method 2: Try with different text extraction parameters
-    if (bestText.length < 100) {
+    // (skipped in layout mode, where the flat text would replace the rebuilt layout)
+    if (bestText.length < 100 && layoutMode === TextLayoutMode.FLAT) {
       try {
         const textContentAlt = await page.getTextContent();
         if (
@@ -243,6 +328,7 @@ export class PdfService {
           if (text.length > bestText.length) {
             bestText = text;
             bestConfidence = 0.7;
+            bestMethod = 'text-content';
           }
         }
       } catch (error) {
@@ -272,6 +358,7 @@ export class PdfService {
           if (text.trim().length > bestText.length) {
             bestText = text.trim();
             bestConfidence = 0.6;
+            bestMethod = 'operator-list';
           }
         }
       } catch (error) {
@@ -282,6 +369,16 @@ export class PdfService {
       }
     }
 
+    // Method 4: No text layer at all, so the page is most likely a scan - run OCR
+    if (bestText.length === 0 && this.ocrEnabled) {
+      const ocrResult = await this.extractWithOCR(page, pageNumber);
+      if (ocrResult.text.length > 0) {
+        bestText = ocrResult.text;
+        bestConfidence = ocrResult.confidence;
+        bestMethod = 'ocr';
+      }
+    }
+
     // If still no text found, log the issue
     if (bestText.length === 0) {
       this.logger.warn(
@@ -294,63 +391,148 @@ export class PdfService {
       text: bestText,
       images,
       confidence: bestConfidence,
+      method: bestMethod,
+      emphasis,
     };
   }
 
+  private async detectEmphasis(
+    page: PDFPageProxy,
+    items: unknown[],
+  ): Promise<EmphasisedSpan[]> {
+    try {
+      return await this.emphasisService.detect(page, items);
+    } catch (error) {
+      this.logger.warn(
+        `Emphasis detection failed for page ${page.pageNumber}:`,
+        error,
+      );
+      return [];
+    }
+  }
+
+  private async extractImages(page: PDFPageProxy): Promise<PdfPageImage[]> {
+    try {
+      return await this.imageService.extract(page);
+    } catch (error) {
+      this.logger.warn(
+        `Image extraction failed for page ${page.pageNumber}:`,
+        error,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Rebuild lines/columns for a page and drop headers and footers shared
+   * with the neighbouring pages
+   */
+  private async reconstructLayoutText(
+    doc: PDFDocumentProxy,
+    page: PDFPageProxy,
+    items: unknown[],
+  ): Promise<string> {
+    const neighbourMargins: string[] = [];
+    for (const neighbour of [page.pageNumber - 1, page.pageNumber + 1]) {
+      if (neighbour < 1 || neighbour > doc.numPages) {
+        continue;
+      }
+      try {
+        const neighbourPage = await doc.getPage(neighbour);
+        const neighbourContent = await neighbourPage.getTextContent();
+        neighbourMargins.push(
+          ...this.layoutService.getMarginRows(neighbourContent.items),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Could not read page ${neighbour} for header/footer detection:`,
+          error,
+        );
+      }
+    }
+
+    return this.layoutService.reconstructText(
+      items,
+      page.getViewport({ scale: 1 }).width,
+      neighbourMargins,
+    );
+  }
+
   private async extractWithOCR(
     page: PDFPageProxy,
     pageNumber: number,
-  ): Promise<{ text: string; images: Buffer[]; confidence: number }> {
+  ): Promise<{ text: string; confidence: number }> {
     try {
-      // Get page text content directly from PDF.js
-      const textContent = await page.getTextContent();
-      let extractedText = '';
+      // Render the page to a bitmap with pdf.js
+      const viewport = page.getViewport({ scale: this.ocrRenderScale });
+      const canvas = createCanvas(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height),
+      );
+      const context = canvas.getContext('2d');
 
-      if (textContent && textContent.items && textContent.items.length > 0) {
-        // Extract text from PDF.js text content
-        extractedText = textContent.items
-          .map((item: any) => item.str)
-          .join(' ')
-          .replace(/\s+/g, ' ')
-          .trim();
-      }
+      // OCR works best on a white background rather than a transparent one
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
 
-      // If we have text content, return it without OCR
-      if (extractedText.length > 0) {
-        return {
-          text: extractedText,
-          images: [],
-          confidence: 0.9, // High confidence for direct text extraction
-        };
-      }
+      await page.render({
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+
+      const image = canvas.toBuffer('image/png');
+
+      // Run the bitmap through the local OCR engine
+      const worker = await this.getOcrWorker();
+      const { data } = await worker.recognize(image);
+      const text = data.text.replace(/\s+/g, ' ').trim();
+
+      this.logger.log(
+        `OCR extracted ${text.length} characters from page ${pageNumber} (confidence ${Math.round(data.confidence)}%)`,
+      );
 
-      // If no text found, return empty result
-      this.logger.warn(`No text content found for page ${pageNumber}`);
       return {
-        text: '',
-        images: [],
-        confidence: 0,
+        text,
+        // Tesseract reports confidence as 0-100
+        confidence: Math.max(0, Math.min(1, data.confidence / 100)),
       };
     } catch (error) {
-      this.logger.error(
-        `Text extraction failed for page ${pageNumber}:`,
-        error,
-      );
+      this.logger.error(`OCR failed for page ${pageNumber}:`, error);
       return {
         text: '',
-        images: [],
         confidence: 0,
       };
     }
   }
 
-  async getPdfInfo(): Promise<{
+  private getOcrWorker(): Promise<OcrWorker> {
+    // One worker is reused for every page; loading traineddata is the slow part
+    if (!this.ocrWorker) {
+      this.ocrWorker = createWorker(this.ocrLanguage, undefined, {
+        langPath: this.ocrLangPath,
+        gzip: true,
+        cacheMethod: 'none',
+      });
+      this.ocrWorker.catch(() => {
+        this.ocrWorker = null;
+      });
+    }
+    return this.ocrWorker;
+  }
+
+  /**
+   * Get page count and size for a PDF
+   * @param pdfFilename Optional filename in the data directory; defaults to the current PDF
+   */
+  async getPdfInfo(pdfFilename?: string): Promise<{
     totalPages: number;
     fileSize: number;
     fileName: string;
   }> {
     try {
-      const pdfPath = this.getCurrentPdfPath();
+      const pdfPath = pdfFilename
+        ? path.join(this.dataDir, pdfFilename)
+        : this.getCurrentPdfPath();
       const stats = await fs.stat(pdfPath);
       const buffer = await fs.readFile(pdfPath);
       const data = new Uint8Array(buffer);
@@ -373,9 +555,19 @@ export class PdfService {
     }
   }
 
-  async extractTextFromPage(pageNumber: number): Promise<string> {
+  /**
+   * Get the directory PDFs are read from
+   */
+  getDataDir(): string {
+    return this.dataDir;
+  }
+
+  async extractTextFromPage(
+    pageNumber: number,
+    options: PdfExtractionOptions = {},
+  ): Promise<string> {
     try {
-      const pageContent = await this.extractSinglePage(pageNumber);
+      const pageContent = await this.extractSinglePage(pageNumber, options);
       return pageContent.text;
     } catch (error) {
       this.logger.error(
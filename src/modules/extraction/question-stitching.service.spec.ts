@@ -0,0 +1,110 @@
+import { QuestionStitchingService } from './question-stitching.service';
+
+const stitching = new QuestionStitchingService();
+
+const FIRST = [
+  '1. Which drug is given first for a pulmonary embolism?',
+  'A. Aspirin',
+  'B. Heparin',
+  'C. Warfarin',
+  'D. Alteplase',
+  'E. Clopidogrel',
+  'Answer: B',
+].join('\n');
+
+describe('QuestionStitchingService', () => {
+  describe('splitTrailingQuestion', () => {
+    it('carries over a question cut off in its options', () => {
+      const fragment = [
+        '2. Which drug is a vitamin K antagonist?',
+        'A. Aspirin',
+        'B. Heparin',
+        'C. Warfarin',
+      ].join('\n');
+
+      expect(stitching.splitTrailingQuestion(`${FIRST}\n${fragment}`)).toEqual({
+        text: FIRST,
+        carryOver: fragment,
+      });
+    });
+
+    it('carries over a question cut off before the text of option D', () => {
+      const fragment = [
+        '2. Which drug is a vitamin K antagonist?',
+        'A. Aspirin',
+        'B. Heparin',
+        'C. Warfarin',
+        'D.',
+      ].join('\n');
+
+      expect(
+        stitching.splitTrailingQuestion(`${FIRST}\n${fragment}`).carryOver,
+      ).toBe(fragment);
+    });
+
+    it('carries a question cut off after option D over to the next page', () => {
+      const fragment = [
+        '2. Which drug is a vitamin K antagonist?',
+        'A. Aspirin',
+        'B. Heparin',
+        'C. Warfarin',
+        'D. Alteplase',
+      ].join('\n');
+      const nextPage = ['E. Clopidogrel', 'Answer: C'].join('\n');
+
+      const split = stitching.splitTrailingQuestion(`${FIRST}\n${fragment}\n`);
+      expect(split).toEqual({ text: FIRST, carryOver: fragment });
+
+      // The next page's job prepends the fragment, completing the question
+      const continued = `${split.carryOver}\n${nextPage}`;
+      expect(stitching.splitTrailingQuestion(continued)).toEqual({
+        text: continued,
+        carryOver: null,
+      });
+    });
+
+    it('does not take a number in an explanation for a question start', () => {
+      const text = [
+        FIRST,
+        'Explanation: heparin is first line for a Grade 3. embolism, as in 2023. guidance',
+      ].join('\n');
+
+      expect(stitching.splitTrailingQuestion(text)).toEqual({
+        text,
+        carryOver: null,
+      });
+    });
+
+    it('carries over the next numbered question after an explanation with numbers', () => {
+      const fragment = '2. Which drug is a vitamin K antagonist?';
+      const text = [
+        FIRST,
+        'Explanation: used since 2004. Grade 3. evidence',
+        fragment,
+      ].join('\n');
+
+      expect(stitching.splitTrailingQuestion(text).carryOver).toBe(fragment);
+    });
+
+    it('keeps a question that ends after the text of option E', () => {
+      const text = [
+        FIRST,
+        '2. Which drug is a vitamin K antagonist?',
+        'A. Aspirin',
+        'B. Heparin',
+        'C. Warfarin',
+        'D. Alteplase',
+        'E. Clopidogrel',
+      ].join('\n');
+
+      expect(stitching.splitTrailingQuestion(text)).toEqual({
+        text,
+        carryOver: null,
+      });
+    });
+
+    it('keeps a question that ends with its answer', () => {
+      expect(stitching.splitTrailingQuestion(FIRST).carryOver).toBeNull();
+    });
+  });
+});
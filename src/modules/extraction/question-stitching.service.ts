@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { EmphasisedSpan } from './pdf-emphasis.service';
+import { PdfPageImage } from './pdf-image.service';
+
+export interface PageCarryOver {
+  pageNumber: number;
+  text: string;
+  // Emphasised text of the page the fragment came from
+  emphasis?: EmphasisedSpan[];
+  // Figures of the page the fragment came from
+  images?: PdfPageImage[];
+}
+
+// Start of a numbered question: "12.", "12)", "Q12." or "Question 12:"
+const QUESTION_START =
+  /(?:^|\n|\s)((?:Q(?:uestion)?\s*)?\d{1,4}\s*[.):]\s+)(?=\S)/gi;
+
+// Start of an answer option: "A.", "B)" or "(C)"
+const OPTION_START = /(?:^|\n|\s)\(?([A-E])[.)]\s+(?=\S)/g;
+
+// Text that only appears once a question is finished
+const QUESTION_END = /\b(correct\s+answer|answer\s*[:-]|explanation\s*[:-])/i;
+
+// Longer tails are more likely to be a mis-detected question start than a real fragment
+const MAX_CARRY_OVER_LENGTH = 2000;
+
+@Injectable()
+export class QuestionStitchingService {
+  /**
+   * Split an incomplete question off the end of a page so it can be
+   * prepended to the next page
+   * @param text Page text, including any carry-over already prepended
+   * @returns The text to extract now and the trailing fragment, if any
+   */
+  splitTrailingQuestion(text: string): {
+    text: string;
+    carryOver: string | null;
+  } {
+    const starts = this.findQuestionStarts(text);
+    if (starts.length === 0) {
+      return { text, carryOver: null };
+    }
+
+    const lastStart = starts[starts.length - 1];
+    const fragmentStart =
+      (lastStart.index ?? 0) + lastStart[0].indexOf(lastStart[1]);
+    const fragment = text.slice(fragmentStart).trim();
+
+    if (
+      fragment.length > MAX_CARRY_OVER_LENGTH ||
+      this.isQuestionComplete(fragment)
+    ) {
+      return { text, carryOver: null };
+    }
+
+    return {
+      text: text.slice(0, fragmentStart).trim(),
+      carryOver: fragment,
+    };
+  }
+
+  /**
+   * Whether an extracted question stem came from carried-over text
+   */
+  startsInCarryOver(questionText: string, carryOver: string): boolean {
+    const stem = this.normalize(questionText);
+    const carried = this.normalize(carryOver);
+
+    // The carried fragment may end mid-sentence, so only compare the opening words
+    const probe = stem.slice(0, Math.min(40, carried.length));
+    return probe.length >= 10 && carried.includes(probe);
+  }
+
+  /**
+   * Question starts whose numbers count up by one, so a number in a stem or an
+   * explanation ("Grade 3. ", "in 2023. ") is not taken for a new question. The page
+   * may open with any number, so the longest such run wins, the earliest on a tie.
+   */
+  private findQuestionStarts(text: string): RegExpMatchArray[] {
+    const candidates = [...text.matchAll(QUESTION_START)].map((match) => ({
+      match,
+      number: parseInt(match[1].replace(/\D/g, '')),
+    }));
+
+    let best: RegExpMatchArray[] = [];
+    candidates.forEach((first, index) => {
+      const run = [first.match];
+      let number = first.number;
+      for (const candidate of candidates.slice(index + 1)) {
+        if (candidate.number === number + 1) {
+          run.push(candidate.match);
+          number = candidate.number;
+        }
+      }
+      if (run.length > best.length) {
+        best = run;
+      }
+    });
+    return best;
+  }
+
+  private isQuestionComplete(fragment: string): boolean {
+    if (QUESTION_END.test(fragment)) {
+      return true;
+    }
+
+    // A complete question lists every option from A to E
+    const letters = [...fragment.matchAll(OPTION_START)].map(
+      (match) => match[1],
+    );
+    return ['A', 'B', 'C', 'D', 'E'].every((letter) =>
+      letters.includes(letter),
+    );
+  }
+
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/^\s*(?:q(?:uestion)?\s*)?\d{1,4}\s*[.):]\s*/, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+}
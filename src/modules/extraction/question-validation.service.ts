@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { ExtractedQuestion } from './ollama.service';
+
+const OPTION_KEYS = ['A', 'B', 'C', 'D', 'E'] as const;
+
+@Injectable()
+export class QuestionValidationService {
+  /**
+   * Check an extracted question against the quality rules used before saving
+   * @returns Reasons the question would be rejected, empty when it is valid
+   */
+  validate(question: ExtractedQuestion): string[] {
+    const issues: string[] = [];
+
+    // Check if question text is meaningful
+    if (!question.question || question.question.length < 20) {
+      issues.push('Question text is shorter than 20 characters');
+    } else if (question.question.length > 2000) {
+      issues.push('Question text is longer than 2000 characters');
+    } else if (
+      question.question.includes('...') ||
+      question.question.includes('???')
+    ) {
+      issues.push('Question text contains placeholder text');
+    }
+
+    // Check if all options are meaningful
+    for (const option of OPTION_KEYS) {
+      const optionText = question.options?.[option];
+      if (!optionText || optionText.length < 3) {
+        issues.push(`Option ${option} is missing or shorter than 3 characters`);
+      } else if (optionText.length > 1000) {
+        issues.push(`Option ${option} is longer than 1000 characters`);
+      } else if (optionText.includes('...') || optionText.includes('???')) {
+        issues.push(`Option ${option} contains placeholder text`);
+      }
+    }
+
+    // Check if correct answer is valid
+    if (
+      !question.correctAnswer ||
+      !(OPTION_KEYS as readonly string[]).includes(question.correctAnswer)
+    ) {
+      issues.push('Correct answer is not one of A-E');
+    }
+
+    // Check if categories are valid
+    if (!question.categories || question.categories.length === 0) {
+      issues.push('No categories assigned');
+    }
+
+    // Check if year is reasonable
+    if (
+      !question.examYear ||
+      question.examYear < 2000 ||
+      question.examYear > 2030
+    ) {
+      issues.push('Exam year is missing or outside 2000-2030');
+    }
+
+    // Check if intake is valid
+    if (!question.intake) {
+      issues.push('No intake assigned');
+    }
+
+    return issues;
+  }
+
+  isValid(question: ExtractedQuestion): boolean {
+    return this.validate(question).length === 0;
+  }
+}
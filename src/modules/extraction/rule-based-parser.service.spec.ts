@@ -0,0 +1,238 @@
+import { ConfigService } from '@nestjs/config';
+import { SourcePromptVariant } from '../../common/CONSTANTS';
+import { ResolvedSource } from '../source-profiles/source-profiles.service';
+import { OllamaService } from './ollama.service';
+import { RuleBasedParserService } from './rule-based-parser.service';
+
+// parse() never calls the model
+const parser = new RuleBasedParserService(
+  {} as OllamaService,
+  new ConfigService(),
+);
+
+const source: ResolvedSource = {
+  filename: 'questions.pdf',
+  profileId: null,
+  profileName: null,
+  forcedYear: null,
+  forcedIntake: null,
+  yearHint: null,
+  intakeHint: null,
+  parser: null,
+  promptVariant: SourcePromptVariant.STANDARD,
+  defaultCategories: [],
+};
+
+function question(number: number, stem: string, answer = 'B'): string {
+  return [
+    `${number}. ${stem}`,
+    'A. Aspirin',
+    'B. Heparin',
+    'C. Warfarin',
+    'D. Alteplase',
+    'E. Clopidogrel',
+    `Answer: ${answer}`,
+  ].join('\n');
+}
+
+describe('RuleBasedParserService', () => {
+  describe('parse', () => {
+    it('parses consecutive numbered questions', () => {
+      const text = [
+        'September 2022',
+        question(1, 'Which drug is given first for a pulmonary embolism?'),
+        question(2, 'Which drug is an irreversible COX inhibitor?', 'A'),
+      ].join('\n');
+
+      const { questions, unparsedBlocks } = parser.parse(text);
+
+      expect(questions).toHaveLength(2);
+      expect(questions[0]).toMatchObject({
+        question: 'Which drug is given first for a pulmonary embolism?',
+        correctAnswer: 'B',
+        intake: 'september',
+        examYear: 2022,
+      });
+      expect(questions[0].options).toEqual({
+        A: 'Aspirin',
+        B: 'Heparin',
+        C: 'Warfarin',
+        D: 'Alteplase',
+        E: 'Clopidogrel',
+      });
+      expect(questions[1].correctAnswer).toBe('A');
+      expect(unparsedBlocks).toEqual([]);
+    });
+
+    it('does not start a question at a number inside a stem', () => {
+      const text = [
+        'January 2020',
+        question(1, 'A man aged 45. He has chest pain. Which drug is given?'),
+      ].join('\n');
+
+      const { questions } = parser.parse(text);
+
+      expect(questions).toHaveLength(1);
+      expect(questions[0].question).toBe(
+        'A man aged 45. He has chest pain. Which drug is given?',
+      );
+    });
+
+    it('picks the numbering up again after a missed number', () => {
+      const text = [
+        'January 2020',
+        question(1, 'Which drug is given first for a pulmonary embolism?'),
+        question(3, 'Which drug is an irreversible COX inhibitor?', 'A'),
+        question(4, 'Which drug is a vitamin K antagonist?', 'C'),
+      ].join('\n');
+
+      const { questions, unparsedBlocks } = parser.parse(text);
+
+      expect(questions.map((q) => q.correctAnswer)).toEqual(['B', 'A', 'C']);
+      expect(unparsedBlocks).toEqual([]);
+    });
+
+    it('picks the numbering up again at a question with a number in its stem', () => {
+      const text = [
+        'January 2020',
+        question(1, 'Which drug is given first for a pulmonary embolism?'),
+        question(
+          3,
+          'A woman aged 70. She has atrial fibrillation. Which drug?',
+        ),
+        question(4, 'Which drug is a vitamin K antagonist?', 'C'),
+      ].join('\n');
+
+      const { questions, unparsedBlocks } = parser.parse(text);
+
+      expect(questions.map((q) => q.question)).toEqual([
+        'Which drug is given first for a pulmonary embolism?',
+        'A woman aged 70. She has atrial fibrillation. Which drug?',
+        'Which drug is a vitamin K antagonist?',
+      ]);
+      expect(unparsedBlocks).toEqual([]);
+    });
+
+    it('leaves a question numbered out of order to the LLM', () => {
+      const text = [
+        'January 2020',
+        question(7, 'Which drug is given first for a pulmonary embolism?'),
+        question(2, 'Which drug is a vitamin K antagonist?', 'C'),
+      ].join('\n');
+
+      const { questions, unparsedBlocks } = parser.parse(text);
+
+      expect(questions).toHaveLength(1);
+      expect(questions[0].explanation).toBe('');
+      expect(unparsedBlocks).toHaveLength(1);
+      expect(unparsedBlocks[0]).toMatch(/^2\. Which drug is a vitamin K/);
+    });
+
+    it('leaves a question that lost its number to the LLM', () => {
+      const lost = question(2, 'Which drug is a vitamin K antagonist?').replace(
+        /^2\. /,
+        '',
+      );
+      const text = [
+        'January 2020',
+        question(1, 'Which drug is given first for a pulmonary embolism?'),
+        lost,
+      ].join('\n');
+
+      const { questions, unparsedBlocks } = parser.parse(text);
+
+      expect(questions).toEqual([]);
+      expect(unparsedBlocks).toHaveLength(1);
+      expect(unparsedBlocks[0]).toContain(lost);
+    });
+
+    it('leaves a block without an answer to the LLM', () => {
+      const text = [
+        'January 2020',
+        question(1, 'Which drug is given first for a pulmonary embolism?'),
+        question(2, 'Which drug is a vitamin K antagonist?').replace(
+          /Answer: B$/,
+          '',
+        ),
+      ].join('\n');
+
+      const { questions, unparsedBlocks } = parser.parse(text);
+
+      expect(questions).toHaveLength(1);
+      expect(unparsedBlocks).toHaveLength(1);
+      expect(unparsedBlocks[0]).toMatch(/^2\. Which drug is a vitamin K/);
+    });
+
+    it('leaves questions without an intake or year to the LLM', () => {
+      const text = question(
+        1,
+        'Which drug is given first for a pulmonary embolism?',
+      );
+
+      expect(parser.parse(text).questions).toEqual([]);
+      expect(
+        parser.parse(text, {
+          ...source,
+          forcedIntake: 'april-may',
+          forcedYear: 2024,
+        }).questions,
+      ).toMatchObject([{ intake: 'april-may', examYear: 2024 }]);
+    });
+  });
+
+  describe('extract', () => {
+    const text = [
+      'January 2020',
+      question(1, 'Which drug is given first for a pulmonary embolism?'),
+      question(2, 'Which organism causes most cases of pyelonephritis?'),
+    ].join('\n');
+    let categorizeQuestion: jest.Mock;
+
+    function extractor(
+      config: Record<string, string> = {},
+    ): RuleBasedParserService {
+      categorizeQuestion = jest.fn().mockResolvedValue({
+        categories: ['pathology'],
+        confidence: 0.8,
+        promptVersion: 'categorization@v1',
+      });
+      return new RuleBasedParserService(
+        {
+          categorizeQuestion,
+          withDefaultCategories: (
+            categories: string[],
+            profile: ResolvedSource,
+          ) => (categories.length > 0 ? categories : profile.defaultCategories),
+        } as unknown as OllamaService,
+        new ConfigService(config),
+      );
+    }
+
+    it('categorises by keyword without the model', async () => {
+      const { questions } = await extractor().extract(text, 1, {
+        ...source,
+        defaultCategories: ['clinical-vascular-surgery'],
+      });
+
+      expect(categorizeQuestion).not.toHaveBeenCalled();
+      // No keyword in the first stem, so the profile's categories apply
+      expect(questions.map((q) => q.categories)).toEqual([
+        ['clinical-vascular-surgery'],
+        ['microbiology'],
+      ]);
+      expect(questions[0].promptVersions).toEqual([]);
+    });
+
+    it('asks the model for categories when configured to', async () => {
+      const { questions } = await extractor({
+        RULE_PARSER_LLM_CATEGORIZATION: 'true',
+      }).extract(text, 1, source);
+
+      expect(categorizeQuestion).toHaveBeenCalledTimes(2);
+      expect(questions[1]).toMatchObject({
+        categories: ['pathology'],
+        promptVersions: ['categorization@v1'],
+      });
+    });
+  });
+});
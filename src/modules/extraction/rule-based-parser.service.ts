@@ -0,0 +1,383 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CATEGORY_KEYWORDS,
+  QUESTION_ANSWER_OPTIONS,
+} from '../../common/CONSTANTS';
+import { ResolvedSource } from '../source-profiles/source-profiles.service';
+import { CancellationToken } from './cancellation-token';
+import {
+  ExtractedQuestion,
+  OllamaService,
+  QuestionExtractionResult,
+} from './ollama.service';
+
+export interface RuleParseResult {
+  // Questions that matched the layout; categories are filled in by extract()
+  questions: ExtractedQuestion[];
+  // Text the rules could not parse, to be sent to the LLM
+  unparsedBlocks: string[];
+}
+
+// Numbered question start: "12.", "12)", "Q12." or "Question 12."
+const QUESTION_START =
+  /(?:^|\s)(?:Q(?:uestion)?\s*)?(\d{1,4})\s*[.)]\s+(?=\S)/gi;
+
+// The letter is matched case-sensitively so "the answer is a nerve" is not read as A
+const ANSWER_MARKER =
+  /(?:^|\s)(?:[Cc]orrect\s+)?(?:ANSWER|[Aa]nswer)\s*(?:is)?\s*[:\-–]?\s*\(?([A-E])\b[.)]?/;
+
+const EXPLANATION_MARKER = /(?:^|\s)explanation\s*[:\-–]\s*/i;
+
+// "September 2022", "Jan 2016", "April/May 2024"
+const INTAKE_YEAR =
+  /\b(january|jan|april|may|april\/may|september|sept|sep)\.?\s*(20[0-3]\d)\b/i;
+
+// Parsed straight from the layout, so only categorisation is uncertain
+const RULE_CONFIDENCE = 0.95;
+
+@Injectable()
+export class RuleBasedParserService {
+  private readonly logger = new Logger(RuleBasedParserService.name);
+  // Ask the model for each rule-parsed question's categories instead of matching keywords
+  private readonly llmCategorization: boolean;
+
+  constructor(
+    private readonly ollamaService: OllamaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.llmCategorization =
+      this.configService.get<string>(
+        'RULE_PARSER_LLM_CATEGORIZATION',
+        'false',
+      ) === 'true';
+  }
+
+  /**
+   * Extract questions with the layout rules, categorise them by keyword (or with
+   * the model when configured) and send only the blocks the rules could not parse
+   * to the LLM
+   */
+  async extract(
+    text: string,
+    pageNumber: number,
+    source?: ResolvedSource,
+    model?: string,
+    bypassCache = false,
+    cancellation?: CancellationToken,
+  ): Promise<QuestionExtractionResult> {
+    const { questions, unparsedBlocks } = this.parse(text, source);
+    const ruleParsedCount = questions.length;
+
+    for (const question of questions) {
+      if (!this.llmCategorization) {
+        question.categories = this.ollamaService.withDefaultCategories(
+          this.categorize(question.question),
+          source,
+        );
+        question.promptVersions = [];
+        continue;
+      }
+      const { categories, promptVersion } =
+        await this.ollamaService.categorizeQuestion(
+          question.question,
+          cancellation,
+        );
+      question.categories = this.ollamaService.withDefaultCategories(
+        categories,
+        source,
+      );
+      question.promptVersions = promptVersion ? [promptVersion] : [];
+    }
+
+    const result: QuestionExtractionResult = {
+      questions,
+      parsedCount: ruleParsedCount,
+      rawResponse: '',
+      latencyMs: 0,
+      schemaViolations: [],
+      repaired: false,
+    };
+
+    if (unparsedBlocks.length > 0) {
+      this.logger.log(
+        `Page ${pageNumber}: ${unparsedBlocks.length} blocks did not match the layout, falling back to the LLM`,
+      );
+      const fallback = await this.ollamaService.extractQuestionsWithDetails(
+        unparsedBlocks.join('\n\n'),
+        pageNumber,
+        source,
+        model,
+        bypassCache,
+        cancellation,
+      );
+      result.questions.push(...fallback.questions);
+      result.parsedCount += fallback.parsedCount;
+      result.rawResponse = fallback.rawResponse;
+      result.latencyMs = fallback.latencyMs;
+      result.schemaViolations = fallback.schemaViolations;
+      result.repaired = fallback.repaired;
+    }
+
+    this.logger.log(
+      `Page ${pageNumber}: ${ruleParsedCount} questions parsed by rules`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Categories whose keywords start a word of the stem
+   */
+  categorize(stem: string): string[] {
+    const text = stem.toLowerCase();
+    return Object.entries(CATEGORY_KEYWORDS)
+      .filter(([, keywords]) =>
+        // The keywords are plain words, so they need no escaping
+        keywords.some((keyword) => new RegExp(`\\b${keyword}`).test(text)),
+      )
+      .map(([category]) => category);
+  }
+
+  /**
+   * Split page text into numbered blocks and parse each "stem / A. ... E. / Answer: X" block
+   */
+  parse(text: string, source?: ResolvedSource): RuleParseResult {
+    const questions: ExtractedQuestion[] = [];
+    const unparsedBlocks: string[] = [];
+    const starts = this.findQuestionStarts(text);
+
+    // Text before the first question is only worth the LLM if it has options
+    const leading = text.slice(0, starts[0]?.index ?? text.length).trim();
+    if (this.countOptionMarkers(leading) >= 2) {
+      unparsedBlocks.push(leading);
+    }
+
+    const pageIntake = this.findIntakeAndYear(text);
+
+    for (let i = 0; i < starts.length; i++) {
+      let block = text
+        .slice(starts[i].index, starts[i + 1]?.index ?? text.length)
+        .trim();
+
+      // A start the numbering passed over leaves two questions in one block
+      const merged = this.findMergedStart(block);
+      if (merged !== null) {
+        unparsedBlocks.push(block.slice(merged).trim());
+        block = block.slice(0, merged).trim();
+      }
+
+      const question = this.parseBlock(block);
+
+      // Profile values win, then content, then the filename, as in the LLM prompt
+      const found = this.findIntakeAndYear(block) ?? pageIntake;
+      const intake =
+        source?.forcedIntake ?? found?.intake ?? source?.intakeHint;
+      const examYear =
+        source?.forcedYear ?? found?.examYear ?? source?.yearHint;
+      if (!question || !intake || !examYear) {
+        unparsedBlocks.push(block);
+        continue;
+      }
+
+      questions.push({ ...question, intake, examYear });
+    }
+
+    return { questions, unparsedBlocks };
+  }
+
+  /**
+   * Question numbers must count up by one, so numbers inside a stem ("aged 45. He")
+   * are not mistaken for a new question. When a number is missed, the numbering picks
+   * up again at the first higher number after the last question's options that has
+   * options of its own, unless the expected number turns up before those options.
+   */
+  private findQuestionStarts(text: string): Array<{ index: number }> {
+    const candidates = this.findStartCandidates(text);
+    const starts: Array<{ index: number }> = [];
+    let lastNumber: number | null = null;
+
+    for (const { index, number } of candidates) {
+      if (lastNumber !== null && number !== lastNumber + 1) {
+        const next = lastNumber + 1;
+        if (
+          number < next ||
+          !this.isResyncStart(
+            text,
+            starts[starts.length - 1].index,
+            index,
+            candidates.filter((candidate) => candidate.number === next),
+          )
+        ) {
+          continue;
+        }
+      }
+      starts.push({ index });
+      lastNumber = number;
+    }
+
+    return starts;
+  }
+
+  /**
+   * Whether a start out of sequence begins a question: the last question's options
+   * come before it and its own options follow, with no expected start in between
+   */
+  private isResyncStart(
+    text: string,
+    lastStart: number,
+    index: number,
+    expected: Array<{ index: number }>,
+  ): boolean {
+    if (this.findOptionMarkers(text.slice(lastStart, index)) === null) {
+      return false;
+    }
+    const markers = this.findOptionMarkers(text, index);
+    return (
+      markers !== null &&
+      !expected.some(
+        (start) => start.index > index && start.index < markers[0].start,
+      )
+    );
+  }
+
+  /**
+   * Where a second question starts in a block, i.e. a start after the block's options
+   * with options of its own; null when the block holds one question
+   */
+  private findMergedStart(block: string): number | null {
+    for (const { index } of this.findStartCandidates(block)) {
+      if (
+        index > 0 &&
+        this.findOptionMarkers(block.slice(0, index)) !== null &&
+        this.findOptionMarkers(block.slice(index)) !== null
+      ) {
+        return index;
+      }
+    }
+    return null;
+  }
+
+  private findStartCandidates(
+    text: string,
+  ): Array<{ index: number; number: number }> {
+    return [...text.matchAll(QUESTION_START)].map((match) => ({
+      index: (match.index ?? 0) + match[0].search(/\S/),
+      number: parseInt(match[1]),
+    }));
+  }
+
+  /**
+   * Positions of the "A." to "E." option markers, which must appear in order
+   * @returns null when a marker is missing
+   */
+  private findOptionMarkers(
+    text: string,
+    from = 0,
+  ): Array<{ start: number; end: number }> | null {
+    const markers: Array<{ start: number; end: number }> = [];
+    let position = from;
+    for (const letter of QUESTION_ANSWER_OPTIONS) {
+      const marker = new RegExp(`(?:^|\\s)\\(?${letter}[.)]\\s+`, 'g');
+      marker.lastIndex = position;
+      const match = marker.exec(text);
+      if (!match) {
+        return null;
+      }
+      markers.push({ start: match.index, end: match.index + match[0].length });
+      position = match.index + match[0].length;
+    }
+    return markers;
+  }
+
+  private parseBlock(
+    block: string,
+  ): Omit<ExtractedQuestion, 'intake' | 'examYear'> | null {
+    const numberMatch = block.match(/^(?:Q(?:uestion)?\s*)?\d{1,4}\s*[.)]\s+/i);
+    if (!numberMatch) {
+      return null;
+    }
+
+    const markers = this.findOptionMarkers(block, numberMatch[0].length);
+    if (!markers) {
+      return null;
+    }
+    const position = markers[markers.length - 1].end;
+
+    // A second set of options is a question that lost its number; the LLM gets both
+    if (this.findOptionMarkers(block, position) !== null) {
+      return null;
+    }
+
+    const answerMatch = ANSWER_MARKER.exec(block.slice(position));
+    if (!answerMatch) {
+      return null;
+    }
+    const answerStart = position + (answerMatch.index ?? 0);
+    const afterAnswer = block.slice(answerStart + answerMatch[0].length);
+
+    const stem = this.clean(
+      block.slice(numberMatch[0].length, markers[0].start),
+    );
+    const options = QUESTION_ANSWER_OPTIONS.map((_, index) =>
+      this.clean(
+        block.slice(
+          markers[index].end,
+          index < markers.length - 1 ? markers[index + 1].start : answerStart,
+        ),
+      ),
+    );
+    if (stem.length < 10 || options.some((option) => option.length === 0)) {
+      return null;
+    }
+
+    const explanationMatch = EXPLANATION_MARKER.exec(afterAnswer);
+    const explanation = explanationMatch
+      ? this.clean(
+          afterAnswer.slice(
+            (explanationMatch.index ?? 0) + explanationMatch[0].length,
+          ),
+        )
+      : '';
+
+    return {
+      question: stem,
+      options: {
+        A: options[0],
+        B: options[1],
+        C: options[2],
+        D: options[3],
+        E: options[4],
+      },
+      correctAnswer: answerMatch[1],
+      categories: [],
+      explanation,
+      confidence: RULE_CONFIDENCE,
+    };
+  }
+
+  private findIntakeAndYear(
+    text: string,
+  ): { intake: string; examYear: number } | null {
+    const match = text.match(INTAKE_YEAR);
+    if (!match) {
+      return null;
+    }
+
+    const month = match[1].toLowerCase();
+    const intake = month.startsWith('jan')
+      ? 'january'
+      : month.startsWith('sep')
+        ? 'september'
+        : 'april-may';
+    return { intake, examYear: parseInt(match[2]) };
+  }
+
+  private countOptionMarkers(text: string): number {
+    return (text.match(/(?:^|\s)\(?[A-E][.)]\s+/g) || []).length;
+  }
+
+  private clean(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Prisma, SourceDocument } from '@prisma/client';
+import { createHash } from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { PrismaService } from '../../common/services/prisma.service';
+import { SourceDocumentSummary } from './dto';
+import { PdfService } from './pdf.service';
+
+@Injectable()
+export class SourceDocumentsService {
+  private readonly logger = new Logger(SourceDocumentsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pdfService: PdfService,
+  ) {}
+
+  /**
+   * Store an uploaded PDF in the data directory and add it to the catalog
+   * @param file The uploaded file as written to disk by multer
+   */
+  async upload(file: Express.Multer.File): Promise<SourceDocumentSummary> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    try {
+      const originalName = path.basename(file.originalname);
+      if (
+        !originalName.toLowerCase().endsWith('.pdf') ||
+        file.mimetype !== 'application/pdf'
+      ) {
+        throw new BadRequestException('Only PDF files can be uploaded');
+      }
+
+      const hash = await this.computeHash(file.path);
+
+      const duplicate = await this.prisma.sourceDocument.findUnique({
+        where: { hash },
+      });
+      if (duplicate) {
+        throw this.duplicateUploadError(duplicate);
+      }
+
+      const filename = this.sanitizeFilename(originalName);
+      const targetPath = path.join(this.pdfService.getDataDir(), filename);
+      if (await fs.pathExists(targetPath)) {
+        throw new ConflictException(
+          `A different PDF named ${filename} already exists`,
+        );
+      }
+
+      await fs.move(file.path, targetPath);
+
+      try {
+        const pdfInfo = await this.pdfService.getPdfInfo(filename);
+
+        const document = await this.prisma.sourceDocument.create({
+          data: {
+            filename,
+            originalName,
+            hash,
+            fileSize: pdfInfo.fileSize,
+            totalPages: pdfInfo.totalPages,
+          },
+        });
+
+        this.logger.log(
+          `Uploaded ${filename} (${pdfInfo.totalPages} pages, ${pdfInfo.fileSize} bytes)`,
+        );
+
+        return this.toSummary(document);
+      } catch (error) {
+        // Don't leave an uncatalogued or unreadable file behind
+        await fs.remove(targetPath);
+
+        // The same PDF, or one with the same name, was catalogued by a concurrent
+        // upload after the checks above
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          const concurrent = await this.prisma.sourceDocument.findUnique({
+            where: { hash },
+          });
+          throw concurrent
+            ? this.duplicateUploadError(concurrent)
+            : new ConflictException(
+                `A different PDF named ${filename} already exists`,
+              );
+        }
+        throw error;
+      }
+    } finally {
+      if (file.path) {
+        await fs.remove(file.path);
+      }
+    }
+  }
+
+  /**
+   * List all catalogued PDFs, registering any file copied into the data directory by hand
+   */
+  async findAll(): Promise<SourceDocumentSummary[]> {
+    await this.syncDataDirectory();
+
+    const documents = await this.prisma.sourceDocument.findMany({
+      orderBy: { uploadedAt: 'desc' },
+    });
+
+    return documents.map((document) => this.toSummary(document));
+  }
+
+  async findByFilename(filename: string): Promise<SourceDocument | null> {
+    return this.prisma.sourceDocument.findUnique({
+      where: { filename },
+    });
+  }
+
+  /**
+   * Record the status of the latest extraction run for a PDF
+   */
+  async recordExtractionStatus(
+    filename: string,
+    status: string,
+  ): Promise<void> {
+    try {
+      await this.prisma.sourceDocument.updateMany({
+        where: { filename },
+        data: {
+          lastExtractionStatus: status,
+          lastExtractionAt: new Date(),
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record extraction status for ${filename}:`,
+        error,
+      );
+    }
+  }
+
+  async incrementQuestionsProduced(
+    filename: string,
+    increment: number = 1,
+  ): Promise<void> {
+    try {
+      await this.prisma.sourceDocument.updateMany({
+        where: { filename },
+        data: {
+          questionsProduced: { increment },
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to update question count for ${filename}:`,
+        error,
+      );
+    }
+  }
+
+  private async syncDataDirectory(): Promise<void> {
+    const dataDir = this.pdfService.getDataDir();
+    if (!(await fs.pathExists(dataDir))) {
+      return;
+    }
+
+    const files = (await fs.readdir(dataDir)).filter((f) =>
+      f.toLowerCase().endsWith('.pdf'),
+    );
+    if (files.length === 0) {
+      return;
+    }
+
+    const catalogued = await this.prisma.sourceDocument.findMany({
+      where: { filename: { in: files } },
+      select: { filename: true },
+    });
+    const known = new Set(catalogued.map((doc) => doc.filename));
+
+    for (const filename of files.filter((f) => !known.has(f))) {
+      try {
+        const hash = await this.computeHash(path.join(dataDir, filename));
+        const duplicate = await this.prisma.sourceDocument.findUnique({
+          where: { hash },
+        });
+        if (duplicate) {
+          this.logger.warn(
+            `${filename} is a copy of ${duplicate.filename}, not cataloguing it`,
+          );
+          continue;
+        }
+
+        const pdfInfo = await this.pdfService.getPdfInfo(filename);
+        await this.prisma.sourceDocument.create({
+          data: {
+            filename,
+            originalName: filename,
+            hash,
+            fileSize: pdfInfo.fileSize,
+            totalPages: pdfInfo.totalPages,
+          },
+        });
+        this.logger.log(`Catalogued existing PDF ${filename}`);
+      } catch (error) {
+        this.logger.error(`Failed to catalogue ${filename}:`, error);
+      }
+    }
+  }
+
+  private computeHash(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash('sha256');
+      fs.createReadStream(filePath)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
+  private sanitizeFilename(filename: string): string {
+    return filename.replace(/[^\w\s.()-]/g, '_').trim();
+  }
+
+  private duplicateUploadError(duplicate: SourceDocument): ConflictException {
+    return new ConflictException(
+      `This PDF has already been uploaded as ${duplicate.filename}`,
+    );
+  }
+
+  private toSummary(document: SourceDocument): SourceDocumentSummary {
+    return {
+      id: document.id,
+      filename: document.filename,
+      originalName: document.originalName,
+      hash: document.hash,
+      fileSize: document.fileSize,
+      totalPages: document.totalPages,
+      uploadedAt: document.uploadedAt.toISOString(),
+      lastExtractionStatus: document.lastExtractionStatus,
+      lastExtractionAt: document.lastExtractionAt?.toISOString() ?? null,
+      questionsProduced: document.questionsProduced,
+    };
+  }
+}
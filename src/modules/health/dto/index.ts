@@ -0,0 +1 @@
+export * from './return-types.dto';
@@ -0,0 +1,23 @@
+import { DependencyStatus, HealthStatus } from '../../../common/CONSTANTS';
+
+export type DependencyHealth = {
+  status: DependencyStatus;
+  // Whether the service is down without it, rather than degraded
+  critical: boolean;
+  // Time the check took; null when it was skipped
+  latencyMs: number | null;
+  // Why the dependency is down or skipped
+  message: string | null;
+  details?: Record<string, unknown>;
+};
+
+export type HealthReport = {
+  status: HealthStatus;
+  timestamp: string;
+  // Seconds since the process started
+  uptime: number;
+  dependencies: Record<string, DependencyHealth>;
+};
+
+export type GetHealthResponse = HealthReport;
+export type GetReadinessResponse = HealthReport;
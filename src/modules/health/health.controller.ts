@@ -0,0 +1,37 @@
+import { TypedRoute } from '@nestia/core';
+import { Controller, ServiceUnavailableException } from '@nestjs/common';
+import { HealthStatus } from '../../common/CONSTANTS';
+import { GetHealthResponse, GetReadinessResponse } from './dto';
+import { HealthService } from './health.service';
+
+@Controller()
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * Get the status and latency of MongoDB, Redis, Ollama and the data and temp
+   * directories. Always answers 200, so the frontend can show which one is down.
+   * @summary Get service health
+   * @tag health
+   */
+  @TypedRoute.Get('health')
+  async getHealth(): Promise<GetHealthResponse> {
+    return this.healthService.check();
+  }
+
+  /**
+   * Same report as the health check, but answers 503 when a critical dependency is
+   * down, for process supervisors and load balancers. A missing Ollama or model only
+   * degrades the service, so it is still ready.
+   * @summary Get service readiness
+   * @tag health
+   */
+  @TypedRoute.Get('ready')
+  async getReadiness(): Promise<GetReadinessResponse> {
+    const report = await this.healthService.check();
+    if (report.status === HealthStatus.DOWN) {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
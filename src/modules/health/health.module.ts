@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { ExtractionModule } from '../extraction/extraction.module';
+import { LlmModule } from '../llm/llm.module';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+
+@Module({
+  imports: [ExtractionModule, LlmModule],
+  controllers: [HealthController],
+  providers: [HealthService, PrismaService],
+})
+export class HealthModule {}
@@ -0,0 +1,164 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bull';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { DependencyStatus, HealthStatus } from '../../common/CONSTANTS';
+import { PrismaService } from '../../common/services/prisma.service';
+import { LlmModelsService } from '../llm/llm-models.service';
+import { DependencyHealth, HealthReport } from './dto';
+
+interface DependencyCheck {
+  name: string;
+  critical: boolean;
+  // Resolves with details when the dependency is usable, throws when it is not
+  run: () => Promise<Record<string, unknown> | void>;
+}
+
+// Thrown by a check to report the dependency as skipped rather than down
+class CheckSkipped extends Error {}
+
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly llmModelsService: LlmModelsService,
+    private configService: ConfigService,
+    @InjectQueue('extraction') private readonly extractionQueue: Queue,
+  ) {
+    this.timeoutMs = Number(
+      this.configService.get<string>('HEALTH_CHECK_TIMEOUT_MS', '3000'),
+    );
+  }
+
+  /**
+   * Check every dependency in parallel; Ollama is not critical, since questions can
+   * still be browsed and reviewed without it
+   */
+  async check(): Promise<HealthReport> {
+    const checks: DependencyCheck[] = [
+      { name: 'mongodb', critical: true, run: () => this.checkMongo() },
+      { name: 'redis', critical: true, run: () => this.checkRedis() },
+      { name: 'ollama', critical: false, run: () => this.checkOllama() },
+      {
+        name: 'dataDir',
+        critical: true,
+        run: () =>
+          this.checkWritable(
+            this.configService.get<string>('DATA_DIR', './data'),
+          ),
+      },
+      {
+        name: 'tempDir',
+        critical: true,
+        run: () =>
+          this.checkWritable(
+            this.configService.get<string>('TEMP_DIR', './temp'),
+          ),
+      },
+    ];
+
+    const results = await Promise.all(
+      checks.map((check) => this.runCheck(check)),
+    );
+    const dependencies = Object.fromEntries(
+      checks.map((check, index) => [check.name, results[index]]),
+    );
+
+    const down = results.filter(
+      (result) => result.status === DependencyStatus.DOWN,
+    );
+    const status = down.some((result) => result.critical)
+      ? HealthStatus.DOWN
+      : down.length > 0
+        ? HealthStatus.DEGRADED
+        : HealthStatus.OK;
+
+    return {
+      status,
+      timestamp: new Date().toISOString(),
+      uptime: Math.round(process.uptime()),
+      dependencies,
+    };
+  }
+
+  private async runCheck(check: DependencyCheck): Promise<DependencyHealth> {
+    const startedAt = Date.now();
+    try {
+      const details = await this.withTimeout(check.run());
+      return {
+        status: DependencyStatus.UP,
+        critical: check.critical,
+        latencyMs: Date.now() - startedAt,
+        message: null,
+        ...(details && { details }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof CheckSkipped) {
+        return {
+          status: DependencyStatus.SKIPPED,
+          critical: check.critical,
+          latencyMs: null,
+          message,
+        };
+      }
+
+      this.logger.warn(`Health check ${check.name} failed: ${message}`);
+      return {
+        status: DependencyStatus.DOWN,
+        critical: check.critical,
+        latencyMs: Date.now() - startedAt,
+        message,
+      };
+    }
+  }
+
+  private async checkMongo(): Promise<void> {
+    await this.prisma.$runCommandRaw({ ping: 1 });
+  }
+
+  private async checkRedis(): Promise<Record<string, unknown>> {
+    await this.extractionQueue.client.ping();
+    const counts = await this.extractionQueue.getJobCounts();
+    return { queue: this.extractionQueue.name, ...counts };
+  }
+
+  private async checkOllama(): Promise<Record<string, unknown>> {
+    const models = this.llmModelsService.getConfiguredModels();
+    if (models.length === 0) {
+      throw new CheckSkipped('No LLM task is configured to use Ollama');
+    }
+
+    const missing = await this.llmModelsService.findMissingModels();
+    if (missing.length > 0) {
+      throw new Error(`Model(s) not installed: ${missing.join(', ')}`);
+    }
+    return { models };
+  }
+
+  // Write and remove a probe file, since a directory can exist but be read-only
+  private async checkWritable(dir: string): Promise<Record<string, unknown>> {
+    const probe = path.join(dir, `.health-${process.pid}`);
+    await fs.ensureDir(dir);
+    await fs.writeFile(probe, '');
+    await fs.remove(probe);
+    return { path: path.resolve(dir) };
+  }
+
+  // A dependency that does not answer, e.g. Redis while ioredis reconnects, is down
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`No response within ${this.timeoutMs}ms`)),
+        this.timeoutMs,
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
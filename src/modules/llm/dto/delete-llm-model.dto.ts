@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+// The name is a query parameter, as names such as hf.co/org/model contain slashes
+export class DeleteLlmModelDto {
+  @ApiProperty({
+    description: 'Installed model to remove from the Ollama server',
+    example: 'hf.co/bartowski/Llama-3.2-3B-Instruct-GGUF:Q4_K_M',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+}
@@ -0,0 +1,7 @@
+export * from './delete-llm-model.dto';
+export * from './llm-cache-filter.dto';
+export * from './llm-cache-stats.dto';
+export * from './llm-model.dto';
+export * from './pull-llm-model.dto';
+export * from './purge-llm-cache.dto';
+export * from './return-types.dto';
@@ -0,0 +1,30 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { LlmProviderName, LlmTask } from '../../../common/CONSTANTS';
+import { SearchDto } from '../../../common/dto';
+
+export class LlmCacheFilterDto extends SearchDto {
+  @ApiPropertyOptional({
+    description: 'Filter by provider',
+    enum: LlmProviderName,
+  })
+  @IsOptional()
+  @IsEnum(LlmProviderName)
+  provider?: LlmProviderName;
+
+  @ApiPropertyOptional({
+    description: 'Filter by model',
+    example: 'llama3.1',
+  })
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by the task the response was generated for',
+    enum: LlmTask,
+  })
+  @IsOptional()
+  @IsEnum(LlmTask)
+  task?: LlmTask;
+}
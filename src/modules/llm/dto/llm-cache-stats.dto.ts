@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsNumber, IsString } from 'class-validator';
+
+export class LlmCacheModelStatsDto {
+  @ApiProperty({ description: 'Provider the responses came from' })
+  @IsString()
+  provider: string;
+
+  @ApiProperty({ description: 'Model the responses came from' })
+  @IsString()
+  model: string;
+
+  @ApiProperty({ description: 'Number of cached responses' })
+  @IsNumber()
+  entries: number;
+
+  @ApiProperty({ description: 'Number of requests answered from the cache' })
+  @IsNumber()
+  hits: number;
+}
+
+export class LlmCacheStatsDto {
+  @ApiProperty({
+    description: 'Whether responses are cached (LLM_CACHE_ENABLED)',
+  })
+  @IsBoolean()
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'How long a response is kept (LLM_CACHE_TTL_HOURS)',
+  })
+  @IsNumber()
+  ttlHours: number;
+
+  @ApiProperty({ description: 'Number of cached responses' })
+  @IsNumber()
+  entries: number;
+
+  @ApiProperty({ description: 'Number of requests answered from the cache' })
+  @IsNumber()
+  hits: number;
+
+  @ApiProperty({
+    description: 'Entries past their TTL that Mongo has not removed yet',
+  })
+  @IsNumber()
+  expired: number;
+
+  @ApiProperty({
+    description: 'Entries and hits per provider and model',
+    type: [LlmCacheModelStatsDto],
+  })
+  models: LlmCacheModelStatsDto[];
+}
@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumber, IsOptional, IsString } from 'class-validator';
+
+export class LlmModelDto {
+  @ApiProperty({
+    description: 'Name to pass as model when starting a run',
+    example: 'llama3.1:latest',
+  })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Size on disk in bytes' })
+  @IsNumber()
+  size: number;
+
+  @ApiProperty({
+    description: 'Model family, e.g. llama',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  family: string | null;
+
+  @ApiProperty({ description: 'Every family the model belongs to' })
+  @IsString({ each: true })
+  families: string[];
+
+  @ApiProperty({
+    description: 'Number of parameters, e.g. 8.0B',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  parameterSize: string | null;
+
+  @ApiProperty({
+    description: 'Quantization, e.g. Q4_K_M',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  quantizationLevel: string | null;
+
+  @ApiProperty({ description: 'Digest of the model files' })
+  @IsString()
+  digest: string;
+
+  @ApiProperty({ description: 'When the model was last pulled or changed' })
+  @IsString()
+  modifiedAt: string;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class PullLlmModelDto {
+  @ApiProperty({
+    description: 'Model to download from the Ollama library',
+    example: 'llama3.1:8b',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+}
@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { LlmProviderName, LlmTask } from '../../../common/CONSTANTS';
+
+export class PurgeLlmCacheDto {
+  @ApiPropertyOptional({
+    description: 'Only purge responses from this provider',
+    enum: LlmProviderName,
+  })
+  @IsOptional()
+  @IsEnum(LlmProviderName)
+  provider?: LlmProviderName;
+
+  @ApiPropertyOptional({
+    description: 'Only purge responses from this model',
+    example: 'llama3.1',
+  })
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only purge responses generated for this task',
+    enum: LlmTask,
+  })
+  @IsOptional()
+  @IsEnum(LlmTask)
+  task?: LlmTask;
+
+  @ApiPropertyOptional({
+    description: 'Only purge entries past their TTL',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  expiredOnly?: boolean;
+}
+
+export class PurgeLlmCacheResultDto {
+  @ApiProperty({ description: 'Number of entries deleted' })
+  @IsNumber()
+  deleted: number;
+}
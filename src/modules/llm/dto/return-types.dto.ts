@@ -0,0 +1,14 @@
+import { LlmCacheEntry } from '@prisma/client';
+import { PaginatedResponseDto } from '../../../common/dto';
+import { LlmCacheStatsDto } from './llm-cache-stats.dto';
+import { LlmModelDto } from './llm-model.dto';
+import { PurgeLlmCacheResultDto } from './purge-llm-cache.dto';
+
+export type FindAllLlmCacheEntriesResponse =
+  PaginatedResponseDto<LlmCacheEntry>;
+export type FindByIdLlmCacheEntryResponse = LlmCacheEntry;
+export type GetLlmCacheStatsResponse = LlmCacheStatsDto;
+export type PurgeLlmCacheResponse = PurgeLlmCacheResultDto;
+export type DeleteLlmCacheEntryResponse = void;
+export type ListLlmModelsResponse = LlmModelDto[];
+export type DeleteLlmModelResponse = void;
@@ -0,0 +1,279 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmCacheEntry, Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { LlmProviderName, LlmTask } from '../../common/CONSTANTS';
+import { PaginatedResponseDto } from '../../common/dto';
+import { PrismaService } from '../../common/services/prisma.service';
+import {
+  LlmCacheFilterDto,
+  LlmCacheStatsDto,
+  PurgeLlmCacheDto,
+  PurgeLlmCacheResultDto,
+} from './dto';
+import { LlmGenerateRequest } from './llm-provider.interface';
+
+/**
+ * Content-addressed store of model responses, so a page or question that was
+ * already answered with the same prompt, model and options is not sent again
+ */
+@Injectable()
+export class LlmCacheService implements OnModuleInit {
+  private readonly logger = new Logger(LlmCacheService.name);
+  private readonly enabled: boolean;
+  private readonly ttlMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('LLM_CACHE_ENABLED', 'true') !== 'false';
+    this.ttlMs =
+      Number(this.configService.get<string>('LLM_CACHE_TTL_HOURS', '168')) *
+      60 *
+      60 *
+      1000;
+  }
+
+  async onModuleInit() {
+    if (!this.enabled) {
+      this.logger.log('LLM response cache disabled');
+      return;
+    }
+
+    // Prisma cannot declare TTL indexes, so Mongo is asked for one directly
+    try {
+      await this.prisma.$runCommandRaw({
+        createIndexes: 'llm_cache_entries',
+        indexes: [
+          {
+            key: { expiresAt: 1 },
+            name: 'expiresAt_ttl',
+            expireAfterSeconds: 0,
+          },
+        ],
+      });
+    } catch (error) {
+      // Expired entries are still ignored on read, just not removed
+      this.logger.warn('Failed to create LLM cache TTL index:', error);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Stored response for a request, or null when there is none, it has expired or
+   * the cache could not be read
+   */
+  async get(
+    provider: LlmProviderName,
+    request: LlmGenerateRequest,
+  ): Promise<string | null> {
+    const key = this.buildKey(provider, request);
+    let entry: LlmCacheEntry | null;
+    try {
+      entry = await this.prisma.llmCacheEntry.findUnique({ where: { key } });
+    } catch (error) {
+      // A cache that cannot be read is a miss, not a failed request
+      this.logger.warn('Failed to read LLM cache entry:', error);
+      return null;
+    }
+    if (!entry || entry.expiresAt <= new Date()) {
+      return null;
+    }
+
+    // The entry may have been evicted or purged since it was read, which
+    // updateMany counts as no match instead of throwing
+    await this.prisma.llmCacheEntry
+      .updateMany({
+        where: { key },
+        data: { hits: { increment: 1 }, lastHitAt: new Date() },
+      })
+      .catch((error) =>
+        this.logger.warn('Failed to count LLM cache hit:', error),
+      );
+    return entry.response;
+  }
+
+  async set(
+    provider: LlmProviderName,
+    task: LlmTask,
+    request: LlmGenerateRequest,
+    response: string,
+  ): Promise<void> {
+    const key = this.buildKey(provider, request);
+    const expiresAt = new Date(Date.now() + this.ttlMs);
+
+    await this.prisma.llmCacheEntry.upsert({
+      where: { key },
+      create: {
+        key,
+        provider,
+        model: request.model,
+        task,
+        promptHash: this.hash(request.prompt),
+        prompt: request.prompt,
+        response,
+        expiresAt,
+      },
+      update: { response, expiresAt, createdAt: new Date() },
+    });
+  }
+
+  /**
+   * Drop the stored response for a request, if there is one
+   */
+  async evict(
+    provider: LlmProviderName,
+    request: LlmGenerateRequest,
+  ): Promise<void> {
+    await this.prisma.llmCacheEntry.deleteMany({
+      where: { key: this.buildKey(provider, request) },
+    });
+  }
+
+  async findAll(
+    filters?: LlmCacheFilterDto,
+  ): Promise<PaginatedResponseDto<LlmCacheEntry>> {
+    const {
+      page = 1,
+      limit = 10,
+      search,
+      provider,
+      model,
+      task,
+    } = filters || {};
+
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.LlmCacheEntryWhereInput = {
+      ...(search && {
+        OR: [
+          { prompt: { contains: search, mode: 'insensitive' } },
+          { response: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+      ...(provider && { provider }),
+      ...(model && { model }),
+      ...(task && { task }),
+    };
+
+    const [entries, total] = await Promise.all([
+      this.prisma.llmCacheEntry.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.llmCacheEntry.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      success: true,
+      data: entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  async findById(id: string): Promise<LlmCacheEntry> {
+    const entry = await this.prisma.llmCacheEntry.findUnique({
+      where: { id },
+    });
+    if (!entry) {
+      throw new NotFoundException(`LLM cache entry ${id} not found`);
+    }
+    return entry;
+  }
+
+  async getStats(): Promise<LlmCacheStatsDto> {
+    const [groups, expired] = await Promise.all([
+      this.prisma.llmCacheEntry.groupBy({
+        by: ['provider', 'model'],
+        _count: { _all: true },
+        _sum: { hits: true },
+      }),
+      this.prisma.llmCacheEntry.count({
+        where: { expiresAt: { lte: new Date() } },
+      }),
+    ]);
+
+    const models = groups.map((group) => ({
+      provider: group.provider,
+      model: group.model,
+      entries: group._count._all,
+      hits: group._sum.hits ?? 0,
+    }));
+
+    return {
+      enabled: this.enabled,
+      ttlHours: this.ttlMs / (60 * 60 * 1000),
+      entries: models.reduce((sum, group) => sum + group.entries, 0),
+      hits: models.reduce((sum, group) => sum + group.hits, 0),
+      expired,
+      models,
+    };
+  }
+
+  /**
+   * Delete the entries matching the filters, or every entry when none are given
+   */
+  async purge(filters?: PurgeLlmCacheDto): Promise<PurgeLlmCacheResultDto> {
+    const { provider, model, task, expiredOnly } = filters || {};
+
+    const { count } = await this.prisma.llmCacheEntry.deleteMany({
+      where: {
+        ...(provider && { provider }),
+        ...(model && { model }),
+        ...(task && { task }),
+        ...(expiredOnly && { expiresAt: { lte: new Date() } }),
+      },
+    });
+
+    this.logger.log(`Purged ${count} LLM cache entries`);
+    return { deleted: count };
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.findById(id);
+    await this.prisma.llmCacheEntry.delete({ where: { id } });
+  }
+
+  // Everything that changes what the model returns is part of the key
+  private buildKey(
+    provider: LlmProviderName,
+    request: LlmGenerateRequest,
+  ): string {
+    return this.hash(
+      JSON.stringify([
+        provider,
+        request.model,
+        request.temperature ?? null,
+        request.topP ?? null,
+        request.maxTokens ?? null,
+        request.format ?? null,
+        this.hash(request.prompt),
+      ]),
+    );
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,97 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { LlmGenerateRequest } from './llm-provider.interface';
+
+export interface LlmFixture {
+  key: string;
+  recordedAt: string;
+  // Bodies exactly as sent to and received from the provider's HTTP API
+  request: unknown;
+  response: unknown;
+  // Generated text, as the provider returned it to LlmService
+  text: string;
+}
+
+/**
+ * Recorded provider exchanges, one JSON file per request, for replaying without a model.
+ * Files are named by a hash of the model, options and prompt, so any prompt change needs
+ * a new recording.
+ */
+@Injectable()
+export class LlmFixturesService {
+  private readonly logger = new Logger(LlmFixturesService.name);
+  private readonly fixturesDir: string;
+  private readonly recording: boolean;
+
+  constructor(private configService: ConfigService) {
+    this.fixturesDir = this.configService.get<string>(
+      'LLM_FIXTURES_DIR',
+      path.join(
+        this.configService.get<string>('DATA_DIR', './data'),
+        'llm-fixtures',
+      ),
+    );
+    this.recording =
+      this.configService.get<string>('LLM_RECORD', 'false') === 'true';
+    if (this.recording) {
+      this.logger.log(`Recording LLM exchanges to ${this.fixturesDir}`);
+    }
+  }
+
+  getFixturesDir(): string {
+    return this.fixturesDir;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  async record(
+    request: LlmGenerateRequest,
+    exchange: Pick<LlmFixture, 'request' | 'response' | 'text'>,
+  ): Promise<void> {
+    const key = this.buildKey(request);
+    const fixture: LlmFixture = {
+      key,
+      recordedAt: new Date().toISOString(),
+      ...exchange,
+    };
+
+    try {
+      await fs.outputJson(this.getFixturePath(key), fixture, { spaces: 2 });
+    } catch (error) {
+      // A failed recording must not fail the request that was recorded
+      this.logger.warn(`Failed to record LLM exchange ${key}:`, error);
+    }
+  }
+
+  async find(request: LlmGenerateRequest): Promise<LlmFixture | null> {
+    const fixturePath = this.getFixturePath(this.buildKey(request));
+    if (!(await fs.pathExists(fixturePath))) {
+      return null;
+    }
+    return (await fs.readJson(fixturePath)) as LlmFixture;
+  }
+
+  buildKey(request: LlmGenerateRequest): string {
+    return createHash('sha256')
+      .update(
+        JSON.stringify([
+          request.model,
+          request.temperature ?? null,
+          request.topP ?? null,
+          request.maxTokens ?? null,
+          request.format ?? null,
+          request.prompt,
+        ]),
+      )
+      .digest('hex');
+  }
+
+  private getFixturePath(key: string): string {
+    return path.join(this.fixturesDir, `${key}.json`);
+  }
+}
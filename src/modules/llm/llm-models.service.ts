@@ -0,0 +1,151 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import axios from 'axios';
+import { Readable } from 'stream';
+import { LlmProviderName, LlmTask } from '../../common/CONSTANTS';
+import { LlmModelDto } from './dto';
+import { LlmService } from './llm.service';
+import { OllamaModel, OllamaProvider } from './providers/ollama.provider';
+
+/**
+ * Installs, lists and removes the models on the Ollama server, and checks that a
+ * model named by a caller is installed before work is queued for it
+ */
+@Injectable()
+export class LlmModelsService {
+  private readonly logger = new Logger(LlmModelsService.name);
+
+  constructor(
+    private readonly llmService: LlmService,
+    private readonly ollamaProvider: OllamaProvider,
+  ) {}
+
+  async findAll(): Promise<LlmModelDto[]> {
+    const models = await this.listOllamaModels();
+    return models
+      .map((model) => this.toDto(model))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async pull(name: string): Promise<Readable> {
+    this.logger.log(`Pulling model ${name}`);
+    try {
+      return await this.ollamaProvider.pullModel(name);
+    } catch (error) {
+      throw this.toHttpException(error, `Failed to pull model ${name}`);
+    }
+  }
+
+  async delete(name: string): Promise<void> {
+    try {
+      await this.ollamaProvider.deleteModel(this.normalizeName(name));
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new NotFoundException(`Model ${name} is not installed`);
+      }
+      throw this.toHttpException(error, `Failed to delete model ${name}`);
+    }
+    this.logger.log(`Deleted model ${name}`);
+  }
+
+  /**
+   * Reject a model the task's provider does not have. Only Ollama can say which
+   * models it has, and when it cannot be reached the run is let through to fail
+   * on its own rather than blocked on a check that could not be made.
+   */
+  async assertInstalled(task: LlmTask, model: string): Promise<void> {
+    if (
+      this.llmService.getTaskConfig(task).provider !== LlmProviderName.OLLAMA
+    ) {
+      return;
+    }
+
+    let installed: string[];
+    try {
+      installed = (await this.ollamaProvider.listModels()).map(
+        (entry) => entry.name,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Could not check that model ${model} is installed:`,
+        error,
+      );
+      return;
+    }
+
+    if (!installed.includes(this.normalizeName(model))) {
+      throw new BadRequestException(
+        `Model ${model} is not installed; installed models: ${installed.join(', ') || 'none'}`,
+      );
+    }
+  }
+
+  /**
+   * Ollama models the tasks are configured to use (LLM_<TASK>_MODEL or OLLAMA_MODEL)
+   */
+  getConfiguredModels(): string[] {
+    const models = Object.values(LlmTask)
+      .map((task) => this.llmService.getTaskConfig(task))
+      .filter((config) => config.provider === LlmProviderName.OLLAMA)
+      .map((config) => config.model);
+    return [...new Set(models)];
+  }
+
+  /**
+   * Configured models that are not installed
+   * @throws When Ollama cannot be reached
+   */
+  async findMissingModels(): Promise<string[]> {
+    const installed = (await this.ollamaProvider.listModels()).map(
+      (model) => model.name,
+    );
+    return this.getConfiguredModels().filter(
+      (model) => !installed.includes(this.normalizeName(model)),
+    );
+  }
+
+  private async listOllamaModels(): Promise<OllamaModel[]> {
+    try {
+      return await this.ollamaProvider.listModels();
+    } catch (error) {
+      throw this.toHttpException(error, 'Failed to list models');
+    }
+  }
+
+  // Ollama stores a model pulled without a tag as <name>:latest
+  private normalizeName(name: string): string {
+    return name.includes(':') ? name : `${name}:latest`;
+  }
+
+  private toHttpException(error: unknown, message: string): Error {
+    if (axios.isAxiosError(error) && error.response) {
+      // Ollama answers a bad model name with 4xx and {"error": "..."}
+      const detail = (error.response.data as { error?: string } | undefined)
+        ?.error;
+      return new BadRequestException(`${message}: ${detail ?? error.message}`);
+    }
+
+    this.logger.error(`${message}:`, error);
+    return new ServiceUnavailableException(
+      `${message}: Ollama is not reachable`,
+    );
+  }
+
+  private toDto(model: OllamaModel): LlmModelDto {
+    return {
+      name: model.name,
+      size: model.size,
+      family: model.details?.family ?? null,
+      families: model.details?.families ?? [],
+      parameterSize: model.details?.parameter_size ?? null,
+      quantizationLevel: model.details?.quantization_level ?? null,
+      digest: model.digest,
+      modifiedAt: model.modified_at,
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { LlmProviderName } from '../../common/CONSTANTS';
+
+export interface LlmGenerateRequest {
+  model: string;
+  prompt: string;
+  temperature?: number;
+  topP?: number;
+  // Upper bound on generated tokens
+  maxTokens?: number;
+  // JSON schema the response must conform to; providers constrain decoding to it
+  format?: object;
+}
+
+export interface LlmGenerateResponse {
+  text: string;
+  model: string;
+  // Set when the response came from the LLM cache rather than the provider
+  cached?: boolean;
+}
+
+/**
+ * A backend that turns a prompt into text; the model is chosen per request
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+
+  // Model used when neither the task config nor the caller names one
+  getDefaultModel(): string;
+
+  generate(request: LlmGenerateRequest): Promise<LlmGenerateResponse>;
+
+  isHealthy(): Promise<boolean>;
+}
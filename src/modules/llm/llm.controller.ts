@@ -0,0 +1,129 @@
+import { TypedBody, TypedParam, TypedQuery, TypedRoute } from '@nestia/core';
+import {
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  DeleteLlmCacheEntryResponse,
+  DeleteLlmModelDto,
+  DeleteLlmModelResponse,
+  FindAllLlmCacheEntriesResponse,
+  FindByIdLlmCacheEntryResponse,
+  GetLlmCacheStatsResponse,
+  ListLlmModelsResponse,
+  LlmCacheFilterDto,
+  PullLlmModelDto,
+  PurgeLlmCacheDto,
+  PurgeLlmCacheResponse,
+} from './dto';
+import { LlmCacheService } from './llm-cache.service';
+import { LlmModelsService } from './llm-models.service';
+
+@Controller('llm')
+export class LlmController {
+  constructor(
+    private readonly llmCacheService: LlmCacheService,
+    private readonly llmModelsService: LlmModelsService,
+  ) {}
+
+  /**
+   * List the models installed on the Ollama server, with their size and family
+   * @summary List installed models
+   * @tag llm
+   */
+  @TypedRoute.Get('models')
+  async findAllModels(): Promise<ListLlmModelsResponse> {
+    return this.llmModelsService.findAll();
+  }
+
+  /**
+   * Download a model to the Ollama server. The response streams Ollama's progress as
+   * newline-delimited JSON ({status, digest, total, completed}) until
+   * {"status":"success"}, or an {"error"} line if the pull fails part way.
+   * @summary Pull a model
+   * @tag llm
+   */
+  // Not a TypedRoute, which would serialise the stream as JSON
+  @Post('models/pull')
+  async pullModel(
+    @TypedBody() pullDto: PullLlmModelDto,
+  ): Promise<StreamableFile> {
+    const stream = await this.llmModelsService.pull(pullDto.name);
+    return new StreamableFile(stream, { type: 'application/x-ndjson' });
+  }
+
+  /**
+   * Remove a model from the Ollama server
+   * @summary Delete a model
+   * @tag llm
+   */
+  @TypedRoute.Delete('models')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteModel(
+    @TypedQuery() query: DeleteLlmModelDto,
+  ): Promise<DeleteLlmModelResponse> {
+    await this.llmModelsService.delete(query.name);
+  }
+
+  /**
+   * Get cached model responses with pagination and filtering
+   * @summary Get cached LLM responses
+   * @tag llm
+   */
+  @TypedRoute.Get('cache')
+  async findAllCacheEntries(
+    @TypedQuery() filters: LlmCacheFilterDto,
+  ): Promise<FindAllLlmCacheEntriesResponse> {
+    return this.llmCacheService.findAll(filters);
+  }
+
+  /**
+   * Get the number of cached responses and hits per provider and model
+   * @summary Get LLM cache statistics
+   * @tag llm
+   */
+  @TypedRoute.Get('cache/stats')
+  async getCacheStats(): Promise<GetLlmCacheStatsResponse> {
+    return this.llmCacheService.getStats();
+  }
+
+  /**
+   * Get a cached model response by ID
+   * @summary Get cached LLM response by ID
+   * @tag llm
+   */
+  @TypedRoute.Get('cache/:id')
+  async findCacheEntryById(
+    @TypedParam('id') id: string,
+  ): Promise<FindByIdLlmCacheEntryResponse> {
+    return this.llmCacheService.findById(id);
+  }
+
+  /**
+   * Delete the cached responses matching the filters, or all of them when none are given
+   * @summary Purge the LLM cache
+   * @tag llm
+   */
+  @TypedRoute.Delete('cache')
+  async purgeCache(
+    @TypedQuery() filters: PurgeLlmCacheDto,
+  ): Promise<PurgeLlmCacheResponse> {
+    return this.llmCacheService.purge(filters);
+  }
+
+  /**
+   * Delete one cached response, so its request is sent to the model again
+   * @summary Delete a cached LLM response
+   * @tag llm
+   */
+  @TypedRoute.Delete('cache/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteCacheEntry(
+    @TypedParam('id') id: string,
+  ): Promise<DeleteLlmCacheEntryResponse> {
+    await this.llmCacheService.delete(id);
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { LlmCacheService } from './llm-cache.service';
+import { LlmFixturesService } from './llm-fixtures.service';
+import { LlmModelsService } from './llm-models.service';
+import { LlmController } from './llm.controller';
+import { LlmService } from './llm.service';
+import { FakeLlmProvider } from './providers/fake.provider';
+import { OllamaProvider } from './providers/ollama.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { ReplayLlmProvider } from './providers/replay.provider';
+
+@Module({
+  controllers: [LlmController],
+  providers: [
+    FakeLlmProvider,
+    LlmCacheService,
+    LlmFixturesService,
+    LlmModelsService,
+    LlmService,
+    OllamaProvider,
+    OpenAiCompatibleProvider,
+    PrismaService,
+    ReplayLlmProvider,
+  ],
+  exports: [FakeLlmProvider, LlmModelsService, LlmService],
+})
+export class LlmModule {}
@@ -0,0 +1,164 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmProviderName, LlmTask } from '../../common/CONSTANTS';
+import { LlmCacheService } from './llm-cache.service';
+import {
+  LlmGenerateRequest,
+  LlmGenerateResponse,
+  LlmProvider,
+} from './llm-provider.interface';
+import { FakeLlmProvider } from './providers/fake.provider';
+import { OllamaProvider } from './providers/ollama.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { ReplayLlmProvider } from './providers/replay.provider';
+
+export interface LlmGenerateOptions {
+  // Overrides the model configured for the task
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  // JSON schema for the response, e.g. from typia.llm.parameters()
+  format?: object;
+  // Send the request even if a cached response exists; the new response replaces it
+  bypassCache?: boolean;
+  // Only cache a response this accepts; a rejected one also evicts the old entry
+  cacheIf?: (text: string) => boolean;
+}
+
+export interface LlmTaskConfig {
+  provider: LlmProviderName;
+  model: string;
+}
+
+@Injectable()
+export class LlmService {
+  private readonly logger = new Logger(LlmService.name);
+  private readonly providers: Map<LlmProviderName, LlmProvider>;
+  private readonly taskConfigs = new Map<LlmTask, LlmTaskConfig>();
+
+  constructor(
+    private configService: ConfigService,
+    private readonly llmCacheService: LlmCacheService,
+    ollamaProvider: OllamaProvider,
+    openAiCompatibleProvider: OpenAiCompatibleProvider,
+    fakeLlmProvider: FakeLlmProvider,
+    replayLlmProvider: ReplayLlmProvider,
+  ) {
+    this.providers = new Map<LlmProviderName, LlmProvider>([
+      [ollamaProvider.name, ollamaProvider],
+      [openAiCompatibleProvider.name, openAiCompatibleProvider],
+      [fakeLlmProvider.name, fakeLlmProvider],
+      [replayLlmProvider.name, replayLlmProvider],
+    ]);
+
+    // Resolve every task up front so a misconfigured provider fails at startup
+    for (const task of Object.values(LlmTask)) {
+      const config = this.resolveTaskConfig(task);
+      this.taskConfigs.set(task, config);
+      this.logger.log(`${task}: ${config.provider} / ${config.model}`);
+    }
+  }
+
+  /**
+   * Provider and model for a task: LLM_<TASK>_PROVIDER / LLM_<TASK>_MODEL,
+   * falling back to LLM_PROVIDER and the provider's default model
+   */
+  getTaskConfig(task: LlmTask): LlmTaskConfig {
+    return this.taskConfigs.get(task) ?? this.resolveTaskConfig(task);
+  }
+
+  getModel(task: LlmTask): string {
+    return this.getTaskConfig(task).model;
+  }
+
+  getProvider(name: LlmProviderName): LlmProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(
+        `Unknown LLM provider "${name}" (expected one of ${[...this.providers.keys()].join(', ')})`,
+      );
+    }
+    return provider;
+  }
+
+  async generate(
+    task: LlmTask,
+    prompt: string,
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmGenerateResponse> {
+    const config = this.getTaskConfig(task);
+    const provider = this.getProvider(config.provider);
+
+    const request: LlmGenerateRequest = {
+      model: options.model ?? config.model,
+      prompt,
+      temperature: options.temperature,
+      topP: options.topP,
+      maxTokens: options.maxTokens,
+      format: options.format,
+    };
+
+    // Canned and replayed responses are instant, and caching them would hide
+    // respondTo() changes and new recordings
+    const useCache =
+      this.llmCacheService.isEnabled() &&
+      provider.name !== LlmProviderName.FAKE &&
+      provider.name !== LlmProviderName.REPLAY;
+
+    if (useCache && !options.bypassCache) {
+      const cached = await this.llmCacheService.get(provider.name, request);
+      if (cached !== null) {
+        this.logger.debug(`${task}: cache hit for ${request.model}`);
+        return { text: cached, model: request.model, cached: true };
+      }
+    }
+
+    const response = await provider.generate(request);
+
+    if (useCache) {
+      try {
+        if (options.cacheIf?.(response.text) ?? true) {
+          await this.llmCacheService.set(
+            provider.name,
+            task,
+            request,
+            response.text,
+          );
+        } else {
+          // Otherwise every later request would get the same bad response back
+          this.logger.warn(`${task}: not caching rejected response`);
+          await this.llmCacheService.evict(provider.name, request);
+        }
+      } catch (error) {
+        // A response that could not be stored is still a good response
+        this.logger.warn(`${task}: failed to cache response:`, error);
+      }
+    }
+
+    return response;
+  }
+
+  async isHealthy(task: LlmTask): Promise<boolean> {
+    return this.getProvider(this.getTaskConfig(task).provider).isHealthy();
+  }
+
+  private resolveTaskConfig(task: LlmTask): LlmTaskConfig {
+    const prefix = `LLM_${task.toUpperCase()}`;
+    const providerName = this.configService.get<LlmProviderName>(
+      `${prefix}_PROVIDER`,
+      this.configService.get<LlmProviderName>(
+        'LLM_PROVIDER',
+        LlmProviderName.OLLAMA,
+      ),
+    );
+    const provider = this.getProvider(providerName);
+
+    return {
+      provider: provider.name,
+      model:
+        this.configService.get<string>(`${prefix}_MODEL`) ??
+        provider.getDefaultModel(),
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import { LlmProviderName } from '../../../common/CONSTANTS';
+import {
+  LlmGenerateRequest,
+  LlmGenerateResponse,
+  LlmProvider,
+} from '../llm-provider.interface';
+
+interface FakeResponseRule {
+  // Substring, or a RegExp, the prompt must contain
+  match: string | RegExp;
+  response: string;
+}
+
+/**
+ * Answers from canned rules instead of a model, so tests get the same output every time.
+ * Rules come from respondTo() or a JSON file of { match, response } entries in FAKE_LLM_RESPONSES.
+ */
+@Injectable()
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = LlmProviderName.FAKE;
+  private readonly logger = new Logger(FakeLlmProvider.name);
+  private rules: FakeResponseRule[] = [];
+  private readonly defaultResponse: string;
+
+  // Every request received, for assertions
+  readonly requests: LlmGenerateRequest[] = [];
+
+  constructor(private configService: ConfigService) {
+    this.defaultResponse = this.configService.get<string>(
+      'FAKE_LLM_DEFAULT_RESPONSE',
+      '[]',
+    );
+
+    const responsesFile = this.configService.get<string>('FAKE_LLM_RESPONSES');
+    if (responsesFile) {
+      this.rules = fs.readJsonSync(responsesFile) as FakeResponseRule[];
+      this.logger.log(
+        `Loaded ${this.rules.length} fake LLM responses from ${responsesFile}`,
+      );
+    }
+  }
+
+  getDefaultModel(): string {
+    return 'fake';
+  }
+
+  respondTo(match: string | RegExp, response: string): void {
+    this.rules.push({ match, response });
+  }
+
+  reset(): void {
+    this.rules = [];
+    this.requests.length = 0;
+  }
+
+  generate(request: LlmGenerateRequest): Promise<LlmGenerateResponse> {
+    this.requests.push(request);
+
+    const rule = this.rules.find(({ match }) =>
+      typeof match === 'string'
+        ? request.prompt.includes(match)
+        : match.test(request.prompt),
+    );
+
+    return Promise.resolve({
+      text: rule?.response ?? this.defaultResponse,
+      model: request.model,
+    });
+  }
+
+  isHealthy(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+}
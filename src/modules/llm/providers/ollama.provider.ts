@@ -0,0 +1,152 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { Readable } from 'stream';
+import { LlmProviderName } from '../../../common/CONSTANTS';
+import { LlmFixturesService } from '../llm-fixtures.service';
+import {
+  LlmGenerateRequest,
+  LlmGenerateResponse,
+  LlmProvider,
+} from '../llm-provider.interface';
+
+interface OllamaGenerateRequest {
+  model: string;
+  prompt: string;
+  stream: boolean;
+  format?: object;
+  options: {
+    temperature?: number;
+    top_p?: number;
+    num_predict?: number;
+  };
+}
+
+interface OllamaGenerateResponse {
+  response: string;
+  done: boolean;
+  context?: number[];
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+}
+
+export interface OllamaModel {
+  name: string;
+  model: string;
+  modified_at: string;
+  size: number;
+  digest: string;
+  details?: {
+    format?: string;
+    family?: string;
+    families?: string[] | null;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+interface OllamaTagsResponse {
+  models: OllamaModel[];
+}
+
+@Injectable()
+export class OllamaProvider implements LlmProvider {
+  readonly name = LlmProviderName.OLLAMA;
+  private readonly logger = new Logger(OllamaProvider.name);
+  private readonly axiosInstance: AxiosInstance;
+  private readonly model: string;
+
+  constructor(
+    private configService: ConfigService,
+    private readonly llmFixturesService: LlmFixturesService,
+  ) {
+    this.model = this.configService.get<string>('OLLAMA_MODEL', 'llama3.1');
+    this.axiosInstance = axios.create({
+      baseURL: this.configService.get<string>(
+        'OLLAMA_BASE_URL',
+        'http://localhost:11434',
+      ),
+      timeout: this.configService.get<number>('OLLAMA_TIMEOUT', 300000),
+    });
+  }
+
+  getDefaultModel(): string {
+    return this.model;
+  }
+
+  async generate(request: LlmGenerateRequest): Promise<LlmGenerateResponse> {
+    try {
+      const requestData: OllamaGenerateRequest = {
+        model: request.model,
+        prompt: request.prompt,
+        stream: false,
+        format: request.format,
+        options: {
+          temperature: request.temperature,
+          top_p: request.topP,
+          num_predict: request.maxTokens,
+        },
+      };
+
+      const response: AxiosResponse<OllamaGenerateResponse> =
+        await this.axiosInstance.post('/api/generate', requestData);
+
+      if (!response.data?.response) {
+        throw new Error('Invalid response from Ollama API');
+      }
+
+      if (this.llmFixturesService.isRecording()) {
+        await this.llmFixturesService.record(request, {
+          request: requestData,
+          response: response.data,
+          text: response.data.response,
+        });
+      }
+
+      return { text: response.data.response, model: request.model };
+    } catch (error) {
+      this.logger.error('Ollama API request failed:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Ollama generation failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Models installed on the Ollama server
+   */
+  async listModels(): Promise<OllamaModel[]> {
+    const response: AxiosResponse<OllamaTagsResponse> =
+      await this.axiosInstance.get('/api/tags');
+    return response.data?.models ?? [];
+  }
+
+  /**
+   * Download a model; the stream is Ollama's newline-delimited JSON progress,
+   * ending with {"status":"success"} or an {"error"} line
+   */
+  async pullModel(name: string): Promise<Readable> {
+    const response: AxiosResponse<Readable> = await this.axiosInstance.post(
+      '/api/pull',
+      { model: name, stream: true },
+      // A large model takes far longer than a generate request
+      { responseType: 'stream', timeout: 0 },
+    );
+    return response.data;
+  }
+
+  async deleteModel(name: string): Promise<void> {
+    await this.axiosInstance.delete('/api/delete', { data: { model: name } });
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      const response = await this.axiosInstance.get('/api/tags');
+      return response.status === 200;
+    } catch (error) {
+      this.logger.error('Ollama health check failed:', error);
+      return false;
+    }
+  }
+}
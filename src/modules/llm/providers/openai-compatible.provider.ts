@@ -0,0 +1,105 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { LlmProviderName } from '../../../common/CONSTANTS';
+import {
+  LlmGenerateRequest,
+  LlmGenerateResponse,
+  LlmProvider,
+} from '../llm-provider.interface';
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+  stream: boolean;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  response_format?: {
+    type: 'json_schema';
+    json_schema: { name: string; schema: object };
+  };
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{
+    index: number;
+    message: { role: string; content: string | null };
+    finish_reason?: string;
+  }>;
+}
+
+/**
+ * Chat-completions API as served by llama.cpp server, vLLM, LM Studio and OpenAI itself
+ */
+@Injectable()
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = LlmProviderName.OPENAI_COMPATIBLE;
+  private readonly logger = new Logger(OpenAiCompatibleProvider.name);
+  private readonly axiosInstance: AxiosInstance;
+  private readonly model: string;
+
+  constructor(private configService: ConfigService) {
+    // llama.cpp server ignores the model name, so any default works there
+    this.model = this.configService.get<string>('OPENAI_MODEL', 'default');
+    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+
+    this.axiosInstance = axios.create({
+      baseURL: this.configService.get<string>(
+        'OPENAI_BASE_URL',
+        'http://localhost:8080/v1',
+      ),
+      timeout: this.configService.get<number>('OPENAI_TIMEOUT', 300000),
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+    });
+  }
+
+  getDefaultModel(): string {
+    return this.model;
+  }
+
+  async generate(request: LlmGenerateRequest): Promise<LlmGenerateResponse> {
+    try {
+      const requestData: ChatCompletionRequest = {
+        model: request.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        stream: false,
+        temperature: request.temperature,
+        top_p: request.topP,
+        max_tokens: request.maxTokens,
+        response_format: request.format
+          ? {
+              type: 'json_schema',
+              json_schema: { name: 'response', schema: request.format },
+            }
+          : undefined,
+      };
+
+      const response: AxiosResponse<ChatCompletionResponse> =
+        await this.axiosInstance.post('/chat/completions', requestData);
+
+      const content = response.data?.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error('Invalid response from chat completions API');
+      }
+
+      return { text: content, model: response.data.model ?? request.model };
+    } catch (error) {
+      this.logger.error('Chat completions request failed:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`OpenAI-compatible generation failed: ${errorMessage}`);
+    }
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      const response = await this.axiosInstance.get('/models');
+      return response.status === 200;
+    } catch (error) {
+      this.logger.error('OpenAI-compatible health check failed:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import { LlmProviderName } from '../../../common/CONSTANTS';
+import { LlmFixturesService } from '../llm-fixtures.service';
+import {
+  LlmGenerateRequest,
+  LlmGenerateResponse,
+  LlmProvider,
+} from '../llm-provider.interface';
+
+/**
+ * Answers with exchanges recorded from a real provider (LLM_RECORD=true), so end-to-end
+ * tests run the real prompts and parsing without a model or GPU
+ */
+@Injectable()
+export class ReplayLlmProvider implements LlmProvider {
+  readonly name = LlmProviderName.REPLAY;
+  private readonly model: string;
+
+  constructor(
+    private configService: ConfigService,
+    private readonly llmFixturesService: LlmFixturesService,
+  ) {
+    // Same default as the Ollama provider, so recordings replay without extra config
+    this.model = this.configService.get<string>('OLLAMA_MODEL', 'llama3.1');
+  }
+
+  getDefaultModel(): string {
+    return this.model;
+  }
+
+  async generate(request: LlmGenerateRequest): Promise<LlmGenerateResponse> {
+    const fixture = await this.llmFixturesService.find(request);
+    if (!fixture) {
+      // Never improvise: a missing recording means the prompt or options changed
+      throw new Error(
+        `No recorded ${request.model} response for request ${this.llmFixturesService.buildKey(request)} in ${this.llmFixturesService.getFixturesDir()}; record it against Ollama with LLM_RECORD=true`,
+      );
+    }
+    return { text: fixture.text, model: request.model };
+  }
+
+  isHealthy(): Promise<boolean> {
+    return fs.pathExists(this.llmFixturesService.getFixturesDir());
+  }
+}
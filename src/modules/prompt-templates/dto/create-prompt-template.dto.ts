@@ -0,0 +1,42 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { PromptTemplateName } from '../../../common/CONSTANTS';
+
+export class CreatePromptTemplateDto {
+  @ApiProperty({
+    description: 'Prompt this is a new version of',
+    enum: PromptTemplateName,
+  })
+  @IsEnum(PromptTemplateName)
+  name: PromptTemplateName;
+
+  @ApiProperty({
+    description:
+      'Prompt text; {{variable}} placeholders are filled in when it is sent',
+    example: 'Categorize this medical question:\n{{question}}',
+  })
+  @IsString()
+  @IsNotEmpty()
+  template: string;
+
+  @ApiPropertyOptional({
+    description: 'What changed in this version',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Make this the version that is sent from now on',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  activate?: boolean;
+}
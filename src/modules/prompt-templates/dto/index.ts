@@ -0,0 +1,4 @@
+export * from './create-prompt-template.dto';
+export * from './prompt-template-filter.dto';
+export * from './return-types.dto';
+export * from './update-prompt-template.dto';
@@ -0,0 +1,21 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsOptional } from 'class-validator';
+import { PromptTemplateName } from '../../../common/CONSTANTS';
+import { SearchDto } from '../../../common/dto';
+
+export class PromptTemplateFilterDto extends SearchDto {
+  @ApiPropertyOptional({
+    description: 'Filter by prompt name',
+    enum: PromptTemplateName,
+  })
+  @IsOptional()
+  @IsEnum(PromptTemplateName)
+  name?: PromptTemplateName;
+
+  @ApiPropertyOptional({
+    description: 'Filter by active status',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
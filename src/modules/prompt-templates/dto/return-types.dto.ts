@@ -0,0 +1,10 @@
+import { PromptTemplate } from '@prisma/client';
+import { PaginatedResponseDto } from '../../../common/dto';
+
+export type FindAllPromptTemplatesResponse =
+  PaginatedResponseDto<PromptTemplate>;
+export type FindByIdPromptTemplateResponse = PromptTemplate;
+export type CreatePromptTemplateResponse = PromptTemplate;
+export type UpdatePromptTemplateResponse = PromptTemplate;
+export type DeletePromptTemplateResponse = void;
+export type ActivatePromptTemplateResponse = PromptTemplate;
@@ -0,0 +1,20 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class UpdatePromptTemplateDto {
+  @ApiPropertyOptional({
+    description:
+      'Prompt text; only versions that have never been active can change it',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  template?: string;
+
+  @ApiPropertyOptional({
+    description: 'What changed in this version',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
@@ -0,0 +1,96 @@
+import { TypedBody, TypedParam, TypedQuery, TypedRoute } from '@nestia/core';
+import { Controller, HttpCode, HttpStatus } from '@nestjs/common';
+import {
+  ActivatePromptTemplateResponse,
+  CreatePromptTemplateDto,
+  CreatePromptTemplateResponse,
+  DeletePromptTemplateResponse,
+  FindAllPromptTemplatesResponse,
+  FindByIdPromptTemplateResponse,
+  PromptTemplateFilterDto,
+  UpdatePromptTemplateDto,
+  UpdatePromptTemplateResponse,
+} from './dto';
+import { PromptTemplatesService } from './prompt-templates.service';
+
+@Controller('prompt-templates')
+export class PromptTemplatesController {
+  constructor(
+    private readonly promptTemplatesService: PromptTemplatesService,
+  ) {}
+
+  /**
+   * Get prompt template versions with pagination and filtering
+   * @summary Get all prompt templates
+   * @tag prompt-templates
+   */
+  @TypedRoute.Get()
+  async findAll(
+    @TypedQuery() filters: PromptTemplateFilterDto,
+  ): Promise<FindAllPromptTemplatesResponse> {
+    return this.promptTemplatesService.findAll(filters);
+  }
+
+  /**
+   * Get prompt template version by ID
+   * @summary Get prompt template by ID
+   * @tag prompt-templates
+   */
+  @TypedRoute.Get(':id')
+  async findById(
+    @TypedParam('id') id: string,
+  ): Promise<FindByIdPromptTemplateResponse> {
+    return this.promptTemplatesService.findById(id);
+  }
+
+  /**
+   * Create the next version of a prompt, optionally activating it
+   * @summary Create a prompt template version
+   * @tag prompt-templates
+   */
+  @TypedRoute.Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @TypedBody() createDto: CreatePromptTemplateDto,
+  ): Promise<CreatePromptTemplateResponse> {
+    return this.promptTemplatesService.create(createDto);
+  }
+
+  /**
+   * Update a prompt template version; the text is frozen once it has been active
+   * @summary Update a prompt template version
+   * @tag prompt-templates
+   */
+  @TypedRoute.Put(':id')
+  async update(
+    @TypedParam('id') id: string,
+    @TypedBody() updateDto: UpdatePromptTemplateDto,
+  ): Promise<UpdatePromptTemplateResponse> {
+    return this.promptTemplatesService.update(id, updateDto);
+  }
+
+  /**
+   * Delete an inactive prompt template version
+   * @summary Delete a prompt template version
+   * @tag prompt-templates
+   */
+  @TypedRoute.Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(
+    @TypedParam('id') id: string,
+  ): Promise<DeletePromptTemplateResponse> {
+    await this.promptTemplatesService.delete(id);
+  }
+
+  /**
+   * Send this version of the prompt from now on
+   * @summary Activate a prompt template version
+   * @tag prompt-templates
+   */
+  @TypedRoute.Post(':id/activate')
+  async activate(
+    @TypedParam('id') id: string,
+  ): Promise<ActivatePromptTemplateResponse> {
+    return this.promptTemplatesService.activate(id);
+  }
+}
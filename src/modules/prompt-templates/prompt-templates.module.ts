@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { PromptTemplatesController } from './prompt-templates.controller';
+import { PromptTemplatesService } from './prompt-templates.service';
+
+@Module({
+  controllers: [PromptTemplatesController],
+  providers: [PromptTemplatesService, PrismaService],
+  exports: [PromptTemplatesService],
+})
+export class PromptTemplatesModule {}
@@ -0,0 +1,289 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Prisma, PromptTemplate } from '@prisma/client';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PromptTemplateName,
+} from '../../common/CONSTANTS';
+import { PaginatedResponseDto } from '../../common/dto';
+import { PrismaService } from '../../common/services/prisma.service';
+import {
+  CreatePromptTemplateDto,
+  PromptTemplateFilterDto,
+  UpdatePromptTemplateDto,
+} from './dto';
+
+export interface RenderedPrompt {
+  prompt: string;
+  // "<name>@v<version>", recorded on whatever the prompt produced
+  version: string;
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+// {{name}}, optionally with spaces inside the braces
+const PLACEHOLDER = /\{\{\s*([A-Za-z]\w*)\s*\}\}/g;
+
+@Injectable()
+export class PromptTemplatesService implements OnModuleInit {
+  private readonly logger = new Logger(PromptTemplatesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async onModuleInit() {
+    await this.seedPromptTemplates();
+  }
+
+  /**
+   * Add version 1 of every built-in prompt that has no versions yet
+   */
+  async seedPromptTemplates(): Promise<void> {
+    try {
+      for (const defaults of DEFAULT_PROMPT_TEMPLATES) {
+        const existing = await this.prisma.promptTemplate.count({
+          where: { name: defaults.name },
+        });
+        if (existing > 0) {
+          continue;
+        }
+
+        await this.prisma.promptTemplate.create({
+          data: {
+            name: defaults.name,
+            version: 1,
+            description: defaults.description,
+            template: defaults.template,
+            variables: this.extractVariables(defaults.template),
+            isActive: true,
+            activatedAt: new Date(),
+          },
+        });
+        this.logger.log(`✅ Seeded prompt template ${defaults.name}`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to seed prompt templates:', error);
+      throw error;
+    }
+  }
+
+  async findAll(
+    filters?: PromptTemplateFilterDto,
+  ): Promise<PaginatedResponseDto<PromptTemplate>> {
+    const { page = 1, limit = 10, search, name, isActive } = filters || {};
+
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PromptTemplateWhereInput = {
+      ...(search && {
+        OR: [
+          { template: { contains: search, mode: 'insensitive' } },
+          { description: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+      ...(name && { name }),
+      ...(isActive !== undefined && { isActive }),
+    };
+
+    const [templates, total] = await Promise.all([
+      this.prisma.promptTemplate.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ name: 'asc' }, { version: 'desc' }],
+      }),
+      this.prisma.promptTemplate.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      success: true,
+      data: templates,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  async findById(id: string): Promise<PromptTemplate> {
+    const template = await this.prisma.promptTemplate.findUnique({
+      where: { id },
+    });
+    if (!template) {
+      throw new NotFoundException(`Prompt template ${id} not found`);
+    }
+    return template;
+  }
+
+  /**
+   * Add the next version of a prompt; it is only sent once activated
+   */
+  async create(createDto: CreatePromptTemplateDto): Promise<PromptTemplate> {
+    const variables = this.validateTemplate(createDto.name, createDto.template);
+    const latest = await this.prisma.promptTemplate.findFirst({
+      where: { name: createDto.name },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    const template = await this.prisma.promptTemplate.create({
+      data: {
+        name: createDto.name,
+        version: (latest?.version ?? 0) + 1,
+        description: createDto.description,
+        template: createDto.template,
+        variables,
+      },
+    });
+
+    return createDto.activate ? this.activate(template.id) : template;
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdatePromptTemplateDto,
+  ): Promise<PromptTemplate> {
+    const existing = await this.findById(id);
+
+    let variables: string[] | undefined;
+    if (updateDto.template !== undefined) {
+      // Recorded versions must keep meaning the text that produced them
+      if (existing.activatedAt) {
+        throw new BadRequestException(
+          `${this.formatVersion(existing)} has been active, so its template cannot change; create a new version instead`,
+        );
+      }
+      variables = this.validateTemplate(existing.name, updateDto.template);
+    }
+
+    return this.prisma.promptTemplate.update({
+      where: { id },
+      data: { ...updateDto, variables },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    const template = await this.findById(id);
+    if (template.isActive) {
+      throw new BadRequestException(
+        `${this.formatVersion(template)} is active; activate another version first`,
+      );
+    }
+    await this.prisma.promptTemplate.delete({ where: { id } });
+  }
+
+  /**
+   * Make a version the one that is sent, deactivating the other versions of the prompt
+   */
+  async activate(id: string): Promise<PromptTemplate> {
+    const template = await this.findById(id);
+
+    await this.prisma.promptTemplate.updateMany({
+      where: { name: template.name, isActive: true, id: { not: id } },
+      data: { isActive: false },
+    });
+    const activated = await this.prisma.promptTemplate.update({
+      where: { id },
+      data: {
+        isActive: true,
+        activatedAt: template.activatedAt ?? new Date(),
+      },
+    });
+
+    this.logger.log(`Activated ${this.formatVersion(activated)}`);
+    return activated;
+  }
+
+  /**
+   * Fill the active version of a prompt with values for its placeholders
+   */
+  async render(
+    name: PromptTemplateName,
+    values: PromptVariables,
+  ): Promise<RenderedPrompt> {
+    const active = await this.prisma.promptTemplate.findFirst({
+      where: { name, isActive: true },
+      orderBy: { version: 'desc' },
+    });
+
+    if (!active) {
+      // Only reachable if the collection was edited by hand
+      this.logger.warn(
+        `No active version of prompt ${name}, using the built-in default`,
+      );
+      return {
+        prompt: this.fill(name, this.getDefaultTemplate(name), values),
+        version: `${name}@default`,
+      };
+    }
+
+    return {
+      prompt: this.fill(name, active.template, values),
+      version: this.formatVersion(active),
+    };
+  }
+
+  private fill(
+    name: string,
+    template: string,
+    values: PromptVariables,
+  ): string {
+    return template.replace(PLACEHOLDER, (_, variable: string) => {
+      const value = values[variable];
+      if (value === undefined) {
+        throw new Error(
+          `Prompt ${name} uses {{${variable}}} but no value was given`,
+        );
+      }
+      return String(value);
+    });
+  }
+
+  /**
+   * A template may only use the placeholders the code fills in for its prompt
+   */
+  private validateTemplate(name: string, template: string): string[] {
+    const variables = this.extractVariables(template);
+    const allowed = this.extractVariables(this.getDefaultTemplate(name));
+    const unknown = variables.filter((variable) => !allowed.includes(variable));
+
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Prompt ${name} can only use ${allowed.map((variable) => `{{${variable}}}`).join(', ')}; unknown: ${unknown.map((variable) => `{{${variable}}}`).join(', ')}`,
+      );
+    }
+    return variables;
+  }
+
+  private extractVariables(template: string): string[] {
+    return [
+      ...new Set(
+        Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]),
+      ),
+    ];
+  }
+
+  private getDefaultTemplate(name: string): string {
+    const defaults = DEFAULT_PROMPT_TEMPLATES.find(
+      (template) => (template.name as string) === name,
+    );
+    if (!defaults) {
+      throw new BadRequestException(`Unknown prompt ${name}`);
+    }
+    return defaults.template;
+  }
+
+  private formatVersion(template: PromptTemplate): string {
+    return `${template.name}@v${template.version}`;
+  }
+}
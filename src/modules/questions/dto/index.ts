@@ -2,5 +2,6 @@ export * from './bulk-create-question.dto';
 export * from './bulk-update-status.dto';
 export * from './create-question.dto';
 export * from './question-filter.dto';
+export * from './reassign-question-image.dto';
 export * from './return-types.dto';
 export * from './update-question.dto';
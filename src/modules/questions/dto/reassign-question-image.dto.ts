@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsMongoId } from 'class-validator';
+
+export class ReassignQuestionImageDto {
+  @ApiProperty({
+    description: 'Question to move the image to',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsMongoId()
+  questionId: string;
+}
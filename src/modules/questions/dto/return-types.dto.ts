@@ -1,4 +1,10 @@
-import { Category, Intake, Question, QuestionStatus } from '@prisma/client';
+import {
+  Category,
+  Intake,
+  Question,
+  QuestionImage,
+  QuestionStatus,
+} from '@prisma/client';
 import { PaginatedResponseDto } from '../../../common/dto';
 
 export type CategoryStats = Array<{
@@ -41,3 +47,6 @@ export type FindOneQuestionResponse = QuestionWithRelations | null;
 export type UpdateQuestionResponse = Question | null;
 export type RemoveQuestionResponse = boolean;
 export type UpdateStatusResponse = Question | null;
+export type FindQuestionImagesResponse = QuestionImage[];
+export type ReassignQuestionImageResponse = QuestionImage;
+export type RemoveQuestionImageResponse = void;
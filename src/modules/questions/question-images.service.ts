@@ -0,0 +1,194 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QuestionImage } from '@prisma/client';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { PrismaService } from '../../common/services/prisma.service';
+
+export interface CreateQuestionImageData {
+  hash: string;
+  filename: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  size: number;
+  sourceFile: string;
+  pageNumber: number;
+}
+
+@Injectable()
+export class QuestionImagesService {
+  private readonly logger = new Logger(QuestionImagesService.name);
+  private readonly imagesDir: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.imagesDir = this.configService.get<string>(
+      'IMAGES_DIR',
+      path.join(this.configService.get<string>('DATA_DIR', './data'), 'images'),
+    );
+  }
+
+  /**
+   * Record an already stored image file; it stays unattached until a question is set
+   */
+  async create(
+    data: CreateQuestionImageData,
+    questionId?: string,
+  ): Promise<QuestionImage> {
+    return this.prisma.questionImage.create({
+      data: { ...data, questionId },
+    });
+  }
+
+  async findByQuestion(questionId: string): Promise<QuestionImage[]> {
+    await this.assertQuestionExists(questionId);
+    return this.prisma.questionImage.findMany({
+      where: { questionId },
+      orderBy: [{ pageNumber: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async findOne(questionId: string, imageId: string): Promise<QuestionImage> {
+    const image = await this.prisma.questionImage.findFirst({
+      where: { id: imageId, questionId },
+    });
+    if (!image) {
+      throw new NotFoundException(
+        `Image ${imageId} not found on question ${questionId}`,
+      );
+    }
+    return image;
+  }
+
+  /**
+   * Open the stored file of an image for streaming
+   */
+  async getFile(
+    questionId: string,
+    imageId: string,
+  ): Promise<{ image: QuestionImage; stream: fs.ReadStream }> {
+    const image = await this.findOne(questionId, imageId);
+    const filePath = path.join(this.imagesDir, image.filename);
+    if (!(await fs.pathExists(filePath))) {
+      throw new NotFoundException(`Image file ${image.filename} is missing`);
+    }
+    return { image, stream: fs.createReadStream(filePath) };
+  }
+
+  /**
+   * Move an image to another question, e.g. when it was attached to the wrong one on its page
+   */
+  async reassign(
+    questionId: string,
+    imageId: string,
+    targetQuestionId: string,
+  ): Promise<QuestionImage> {
+    await this.findOne(questionId, imageId);
+    if (targetQuestionId === questionId) {
+      throw new BadRequestException(
+        `Image ${imageId} already belongs to question ${questionId}`,
+      );
+    }
+    await this.assertQuestionExists(targetQuestionId);
+
+    return this.prisma.questionImage.update({
+      where: { id: imageId },
+      data: { questionId: targetQuestionId },
+    });
+  }
+
+  async remove(questionId: string, imageId: string): Promise<void> {
+    const image = await this.findOne(questionId, imageId);
+    await this.deleteImages([image]);
+  }
+
+  /**
+   * Give unattached images to a question once its candidate is accepted or merged;
+   * images the question already has are dropped
+   */
+  async attach(imageIds: string[], questionId: string): Promise<number> {
+    if (imageIds.length === 0) {
+      return 0;
+    }
+    const [images, existing] = await Promise.all([
+      this.prisma.questionImage.findMany({
+        where: { id: { in: imageIds }, questionId: null },
+      }),
+      this.prisma.questionImage.findMany({
+        where: { questionId },
+        select: { hash: true },
+      }),
+    ]);
+    const existingHashes = new Set(existing.map((image) => image.hash));
+    const duplicates = images.filter((image) => existingHashes.has(image.hash));
+    await this.deleteImages(duplicates);
+
+    const { count } = await this.prisma.questionImage.updateMany({
+      where: {
+        id: {
+          in: images
+            .filter((image) => !existingHashes.has(image.hash))
+            .map((image) => image.id),
+        },
+      },
+      data: { questionId },
+    });
+    return count;
+  }
+
+  /**
+   * Delete images that never made it onto a question
+   */
+  async removeUnattached(imageIds: string[]): Promise<void> {
+    if (imageIds.length === 0) {
+      return;
+    }
+    const images = await this.prisma.questionImage.findMany({
+      where: { id: { in: imageIds }, questionId: null },
+    });
+    await this.deleteImages(images);
+  }
+
+  private async deleteImages(images: QuestionImage[]): Promise<void> {
+    if (images.length === 0) {
+      return;
+    }
+    await this.prisma.questionImage.deleteMany({
+      where: { id: { in: images.map((image) => image.id) } },
+    });
+
+    // Files are shared by hash, so only delete one nothing refers to any more
+    const files = new Map(images.map((image) => [image.hash, image.filename]));
+    for (const [hash, filename] of files) {
+      const remaining = await this.prisma.questionImage.count({
+        where: { hash },
+      });
+      if (remaining > 0) {
+        continue;
+      }
+      try {
+        await fs.remove(path.join(this.imagesDir, filename));
+      } catch (error) {
+        this.logger.warn(`Failed to delete image file ${filename}:`, error);
+      }
+    }
+  }
+
+  private async assertQuestionExists(questionId: string): Promise<void> {
+    const question = await this.prisma.question.findUnique({
+      where: { id: questionId },
+      select: { id: true },
+    });
+    if (!question) {
+      throw new NotFoundException(`Question with ID ${questionId} not found`);
+    }
+  }
+}
@@ -1,5 +1,12 @@
 import { TypedBody, TypedParam, TypedQuery, TypedRoute } from '@nestia/core';
-import { Controller } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  StreamableFile,
+} from '@nestjs/common';
 import { QuestionStatus } from '../../common/CONSTANTS';
 import {
   BulkCreateQuestionDto,
@@ -10,9 +17,13 @@ import {
   CreateQuestionResponse,
   FindAllQuestionsResponse,
   FindOneQuestionResponse,
+  FindQuestionImagesResponse,
   IntakeStats,
   QuestionFilterDto,
   QuestionStats,
+  ReassignQuestionImageDto,
+  ReassignQuestionImageResponse,
+  RemoveQuestionImageResponse,
   RemoveQuestionResponse,
   UpdateQuestionDto,
   UpdateQuestionResponse,
@@ -20,11 +31,15 @@ import {
   YearStats,
 } from './dto';
 import { CreateQuestionDto } from './dto/create-question.dto';
+import { QuestionImagesService } from './question-images.service';
 import { QuestionsService } from './questions.service';
 
 @Controller('questions')
 export class QuestionsController {
-  constructor(private readonly questionsService: QuestionsService) {}
+  constructor(
+    private readonly questionsService: QuestionsService,
+    private readonly questionImagesService: QuestionImagesService,
+  ) {}
 
   /**
    * Create a new question
@@ -165,4 +180,68 @@ export class QuestionsController {
       bulkUpdateStatusDto.status,
     );
   }
+
+  /**
+   * List the images attached to a question
+   * @summary Get question images
+   * @tag questions
+   */
+  @TypedRoute.Get(':id/images')
+  findImages(
+    @TypedParam('id') id: string,
+  ): Promise<FindQuestionImagesResponse> {
+    return this.questionImagesService.findByQuestion(id);
+  }
+
+  /**
+   * Download an image attached to a question
+   * @summary Get a question image file
+   * @tag questions
+   */
+  @Get(':id/images/:imageId')
+  async getImage(
+    @Param('id') id: string,
+    @Param('imageId') imageId: string,
+  ): Promise<StreamableFile> {
+    const { image, stream } = await this.questionImagesService.getFile(
+      id,
+      imageId,
+    );
+    return new StreamableFile(stream, {
+      type: image.mimeType,
+      length: image.size,
+    });
+  }
+
+  /**
+   * Move an image to another question
+   * @summary Reassign a question image
+   * @tag questions
+   */
+  @TypedRoute.Patch(':id/images/:imageId')
+  reassignImage(
+    @TypedParam('id') id: string,
+    @TypedParam('imageId') imageId: string,
+    @TypedBody() reassignDto: ReassignQuestionImageDto,
+  ): Promise<ReassignQuestionImageResponse> {
+    return this.questionImagesService.reassign(
+      id,
+      imageId,
+      reassignDto.questionId,
+    );
+  }
+
+  /**
+   * Remove an image from a question and delete it
+   * @summary Remove a question image
+   * @tag questions
+   */
+  @TypedRoute.Delete(':id/images/:imageId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeImage(
+    @TypedParam('id') id: string,
+    @TypedParam('imageId') imageId: string,
+  ): Promise<RemoveQuestionImageResponse> {
+    await this.questionImagesService.remove(id, imageId);
+  }
 }
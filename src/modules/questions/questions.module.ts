@@ -2,13 +2,14 @@ import { Module } from '@nestjs/common';
 import { PrismaService } from '../../common/services/prisma.service';
 import { CategoriesModule } from '../categories/categories.module';
 import { IntakesModule } from '../intakes/intakes.module';
+import { QuestionImagesService } from './question-images.service';
 import { QuestionsController } from './questions.controller';
 import { QuestionsService } from './questions.service';
 
 @Module({
   imports: [CategoriesModule, IntakesModule],
   controllers: [QuestionsController],
-  providers: [QuestionsService, PrismaService],
-  exports: [QuestionsService],
+  providers: [QuestionImagesService, QuestionsService, PrismaService],
+  exports: [QuestionImagesService, QuestionsService],
 })
 export class QuestionsModule {}
@@ -1,4 +1,3 @@
 export * from './export-data.dto';
 export * from './update-settings.dto';
 export * from './return-types.dto';
-export * from './extraction-state.dto';
@@ -0,0 +1,93 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  ExtractionParser,
+  SourcePromptVariant,
+} from '../../../common/CONSTANTS';
+
+export class CreateSourceProfileDto {
+  @ApiProperty({
+    description: 'Unique profile name',
+    example: 'Recall April 2025',
+  })
+  @IsString()
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Case-insensitive regular expression matched against the PDF filename',
+    example: 'recall.*april\\s*2025',
+  })
+  @IsString()
+  filenamePattern: string;
+
+  @ApiPropertyOptional({
+    description: 'Exam year used for every question, whatever the content says',
+    example: 2025,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(2000)
+  @Max(2030)
+  forcedYear?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Intake name used for every question, whatever the content says',
+    example: 'april-may',
+  })
+  @IsOptional()
+  @IsString()
+  forcedIntake?: string;
+
+  @ApiPropertyOptional({
+    description: 'Parser used when an extraction run does not choose one',
+    enum: ExtractionParser,
+  })
+  @IsOptional()
+  @IsEnum(ExtractionParser)
+  parser?: ExtractionParser;
+
+  @ApiPropertyOptional({
+    description: 'Extra extraction prompt instructions for this kind of source',
+    enum: SourcePromptVariant,
+    default: SourcePromptVariant.STANDARD,
+  })
+  @IsOptional()
+  @IsEnum(SourcePromptVariant)
+  promptVariant?: SourcePromptVariant;
+
+  @ApiPropertyOptional({
+    description: 'Category names for questions the model could not categorise',
+    example: ['anatomy-thorax'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  defaultCategories?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Higher priority wins when several profiles match a filename',
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the profile is used for new extractions',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,5 @@
+export * from './create-source-profile.dto';
+export * from './resolve-source-profile.dto';
+export * from './return-types.dto';
+export * from './source-profile-filter.dto';
+export * from './update-source-profile.dto';
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+
+export class ResolveSourceProfileDto {
+  @ApiProperty({
+    description: 'PDF filename to find the profile for',
+    example: 'RECALL APRIL 2025 Dr Hedaiyat BD.pdf',
+  })
+  @IsString()
+  filename: string;
+}
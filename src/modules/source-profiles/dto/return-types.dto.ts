@@ -0,0 +1,11 @@
+import { SourceProfile } from '@prisma/client';
+import { PaginatedResponseDto } from '../../../common/dto';
+import { ResolvedSource } from '../source-profiles.service';
+
+export type FindAllSourceProfilesResponse = PaginatedResponseDto<SourceProfile>;
+export type FindByIdSourceProfileResponse = SourceProfile;
+export type ResolveSourceProfileResponse = ResolvedSource;
+export type CreateSourceProfileResponse = SourceProfile;
+export type UpdateSourceProfileResponse = SourceProfile;
+export type DeleteSourceProfileResponse = void;
+export type ResetSourceProfilesResponse = { message: string };
@@ -0,0 +1,12 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { SearchDto } from '../../../common/dto';
+
+export class SourceProfileFilterDto extends SearchDto {
+  @ApiPropertyOptional({
+    description: 'Filter by active status',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateSourceProfileDto } from './create-source-profile.dto';
+
+export class UpdateSourceProfileDto extends PartialType(
+  CreateSourceProfileDto,
+) {}
@@ -0,0 +1,107 @@
+import { TypedBody, TypedParam, TypedQuery, TypedRoute } from '@nestia/core';
+import { Controller, HttpCode, HttpStatus } from '@nestjs/common';
+import {
+  CreateSourceProfileDto,
+  CreateSourceProfileResponse,
+  DeleteSourceProfileResponse,
+  FindAllSourceProfilesResponse,
+  FindByIdSourceProfileResponse,
+  ResetSourceProfilesResponse,
+  ResolveSourceProfileDto,
+  ResolveSourceProfileResponse,
+  SourceProfileFilterDto,
+  UpdateSourceProfileDto,
+  UpdateSourceProfileResponse,
+} from './dto';
+import { SourceProfilesService } from './source-profiles.service';
+
+@Controller('source-profiles')
+export class SourceProfilesController {
+  constructor(private readonly sourceProfilesService: SourceProfilesService) {}
+
+  /**
+   * Get source profiles with pagination and filtering
+   * @summary Get all source profiles
+   * @tag source-profiles
+   */
+  @TypedRoute.Get()
+  async findAll(
+    @TypedQuery() filters: SourceProfileFilterDto,
+  ): Promise<FindAllSourceProfilesResponse> {
+    return this.sourceProfilesService.findAll(filters);
+  }
+
+  /**
+   * Show which profile and values an extraction of the given PDF would use
+   * @summary Resolve the source profile for a PDF
+   * @tag source-profiles
+   */
+  @TypedRoute.Get('resolve')
+  async resolve(
+    @TypedQuery() query: ResolveSourceProfileDto,
+  ): Promise<ResolveSourceProfileResponse> {
+    return this.sourceProfilesService.resolve(query.filename);
+  }
+
+  /**
+   * Get source profile by ID
+   * @summary Get source profile by ID
+   * @tag source-profiles
+   */
+  @TypedRoute.Get(':id')
+  async findById(
+    @TypedParam('id') id: string,
+  ): Promise<FindByIdSourceProfileResponse> {
+    return this.sourceProfilesService.findById(id);
+  }
+
+  /**
+   * Create a new source profile
+   * @summary Create a new source profile
+   * @tag source-profiles
+   */
+  @TypedRoute.Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @TypedBody() createDto: CreateSourceProfileDto,
+  ): Promise<CreateSourceProfileResponse> {
+    return this.sourceProfilesService.create(createDto);
+  }
+
+  /**
+   * Update a source profile
+   * @summary Update a source profile
+   * @tag source-profiles
+   */
+  @TypedRoute.Put(':id')
+  async update(
+    @TypedParam('id') id: string,
+    @TypedBody() updateDto: UpdateSourceProfileDto,
+  ): Promise<UpdateSourceProfileResponse> {
+    return this.sourceProfilesService.update(id, updateDto);
+  }
+
+  /**
+   * Delete a source profile
+   * @summary Delete a source profile
+   * @tag source-profiles
+   */
+  @TypedRoute.Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(
+    @TypedParam('id') id: string,
+  ): Promise<DeleteSourceProfileResponse> {
+    await this.sourceProfilesService.delete(id);
+  }
+
+  /**
+   * Reset source profiles to the preseeded defaults
+   * @summary Reset source profiles to default
+   * @tag source-profiles
+   */
+  @TypedRoute.Post('reset')
+  async resetToDefault(): Promise<ResetSourceProfilesResponse> {
+    await this.sourceProfilesService.resetToDefault();
+    return { message: 'Source profiles reset to default successfully' };
+  }
+}
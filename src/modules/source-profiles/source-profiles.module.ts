@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaService } from '../../common/services/prisma.service';
+import { IntakesModule } from '../intakes/intakes.module';
+import { SourceProfilesController } from './source-profiles.controller';
+import { SourceProfilesService } from './source-profiles.service';
+
+@Module({
+  imports: [IntakesModule],
+  controllers: [SourceProfilesController],
+  providers: [SourceProfilesService, PrismaService],
+  exports: [SourceProfilesService],
+})
+export class SourceProfilesModule {}
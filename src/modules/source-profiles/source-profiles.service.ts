@@ -0,0 +1,257 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Prisma, SourceProfile } from '@prisma/client';
+import {
+  DEFAULT_SOURCE_PROFILES,
+  ExtractionParser,
+  SourcePromptVariant,
+} from '../../common/CONSTANTS';
+import { PaginatedResponseDto } from '../../common/dto';
+import { PrismaService } from '../../common/services/prisma.service';
+import { IntakesService } from '../intakes/intakes.service';
+import {
+  CreateSourceProfileDto,
+  SourceProfileFilterDto,
+  UpdateSourceProfileDto,
+} from './dto';
+
+// What an extraction needs to know about a PDF, from its profile and filename
+export interface ResolvedSource {
+  filename: string;
+  profileId: string | null;
+  profileName: string | null;
+  // Forced values win over anything read from the page
+  forcedYear: number | null;
+  forcedIntake: string | null;
+  // Read from the filename; only used when the page does not say
+  yearHint: number | null;
+  intakeHint: string | null;
+  parser: ExtractionParser | null;
+  promptVariant: SourcePromptVariant;
+  defaultCategories: string[];
+}
+
+@Injectable()
+export class SourceProfilesService implements OnModuleInit {
+  private readonly logger = new Logger(SourceProfilesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly intakesService: IntakesService,
+  ) {}
+
+  async onModuleInit() {
+    await this.seedSourceProfiles();
+  }
+
+  async seedSourceProfiles(): Promise<void> {
+    try {
+      const existingProfiles = await this.prisma.sourceProfile.count();
+
+      if (existingProfiles === 0) {
+        this.logger.log('No source profiles found. Seeding defaults...');
+
+        await this.prisma.sourceProfile.createMany({
+          data: DEFAULT_SOURCE_PROFILES.map((profile) => ({
+            ...profile,
+            defaultCategories: [...profile.defaultCategories],
+          })),
+        });
+
+        this.logger.log(
+          `✅ Successfully seeded ${DEFAULT_SOURCE_PROFILES.length} source profiles`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Failed to seed source profiles:', error);
+      throw error;
+    }
+  }
+
+  async findAll(
+    filters?: SourceProfileFilterDto,
+  ): Promise<PaginatedResponseDto<SourceProfile>> {
+    const { page = 1, limit = 10, search, isActive } = filters || {};
+
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.SourceProfileWhereInput = {
+      ...(search && {
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { filenamePattern: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+      ...(isActive !== undefined && { isActive }),
+    };
+
+    const [profiles, total] = await Promise.all([
+      this.prisma.sourceProfile.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ priority: 'desc' }, { name: 'asc' }],
+      }),
+      this.prisma.sourceProfile.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      success: true,
+      data: profiles,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  async findById(id: string): Promise<SourceProfile> {
+    const profile = await this.prisma.sourceProfile.findUnique({
+      where: { id },
+    });
+    if (!profile) {
+      throw new NotFoundException(`Source profile ${id} not found`);
+    }
+    return profile;
+  }
+
+  async create(createDto: CreateSourceProfileDto): Promise<SourceProfile> {
+    await this.validateProfile(createDto);
+    return this.prisma.sourceProfile.create({
+      data: createDto,
+    });
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateSourceProfileDto,
+  ): Promise<SourceProfile> {
+    await this.findById(id);
+    await this.validateProfile(updateDto);
+    return this.prisma.sourceProfile.update({
+      where: { id },
+      data: updateDto,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.findById(id);
+    await this.prisma.sourceProfile.delete({ where: { id } });
+  }
+
+  async resetToDefault(): Promise<void> {
+    await this.prisma.sourceProfile.deleteMany({});
+    await this.seedSourceProfiles();
+    this.logger.log('✅ Source profiles reset to default successfully');
+  }
+
+  /**
+   * Pick the highest-priority active profile whose pattern matches the filename
+   * and combine it with what the filename itself says
+   */
+  async resolve(filename: string): Promise<ResolvedSource> {
+    const profiles = await this.prisma.sourceProfile.findMany({
+      where: { isActive: true },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+    const profile =
+      profiles.find((candidate) => this.matches(candidate, filename)) ?? null;
+    const promptVariant =
+      (profile?.promptVariant as SourcePromptVariant) ??
+      SourcePromptVariant.STANDARD;
+
+    // A question bank mixes sittings, so its filename says nothing about a question
+    const useFilename = promptVariant !== SourcePromptVariant.QUESTION_BANK;
+
+    return {
+      filename,
+      profileId: profile?.id ?? null,
+      profileName: profile?.name ?? null,
+      forcedYear: profile?.forcedYear ?? null,
+      forcedIntake: profile?.forcedIntake ?? null,
+      yearHint: useFilename ? this.extractYearFromFilename(filename) : null,
+      intakeHint: useFilename ? this.extractIntakeFromFilename(filename) : null,
+      parser: (profile?.parser as ExtractionParser) ?? null,
+      promptVariant,
+      defaultCategories: profile?.defaultCategories ?? [],
+    };
+  }
+
+  private matches(profile: SourceProfile, filename: string): boolean {
+    try {
+      return new RegExp(profile.filenamePattern, 'i').test(filename);
+    } catch {
+      this.logger.warn(
+        `Source profile "${profile.name}" has an invalid pattern: ${profile.filenamePattern}`,
+      );
+      return false;
+    }
+  }
+
+  private async validateProfile(
+    profileDto: UpdateSourceProfileDto,
+  ): Promise<void> {
+    if (profileDto.filenamePattern !== undefined) {
+      try {
+        new RegExp(profileDto.filenamePattern, 'i');
+      } catch {
+        throw new BadRequestException(
+          `filenamePattern is not a valid regular expression: ${profileDto.filenamePattern}`,
+        );
+      }
+    }
+
+    if (profileDto.forcedIntake) {
+      const intake = await this.intakesService.findByName(
+        profileDto.forcedIntake,
+      );
+      if (!intake) {
+        throw new BadRequestException(
+          `Intake ${profileDto.forcedIntake} does not exist`,
+        );
+      }
+    }
+  }
+
+  private extractYearFromFilename(filename: string): number | null {
+    const yearMatch = filename.match(/(?<!\d)(20[0-3]\d)(?!\d)/);
+    if (!yearMatch) {
+      return null;
+    }
+
+    // Validate year is in reasonable range for MRCS exams
+    const year = parseInt(yearMatch[1]);
+    return year <= 2030 ? year : null;
+  }
+
+  private extractIntakeFromFilename(filename: string): string | null {
+    // No letter may touch the month, but "Recall_January_2025" still matches
+    const intakePatterns = [
+      { pattern: /(?<![a-z])(january|jan)(?![a-z])/i, intake: 'january' },
+      { pattern: /(?<![a-z])(april|may)(?![a-z])/i, intake: 'april-may' },
+      {
+        pattern: /(?<![a-z])(september|sept|sep)(?![a-z])/i,
+        intake: 'september',
+      },
+    ];
+
+    for (const { pattern, intake } of intakePatterns) {
+      if (pattern.test(filename)) {
+        return intake;
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,14 @@
+// pdfjs-dist only ships ES modules, which Jest cannot load without --experimental-vm-modules
+const { transformSync } = require('@swc/core');
+
+module.exports = {
+  process(source, filename) {
+    const { code, map } = transformSync(source, {
+      filename,
+      sourceMaps: true,
+      module: { type: 'commonjs' },
+      jsc: { target: 'es2022', parser: { syntax: 'ecmascript' } },
+    });
+    return { code, map };
+  },
+};
@@ -0,0 +1,249 @@
+import { getQueueToken } from '@nestjs/bull';
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from '../src/app.module';
+import { LlmProviderName } from '../src/common/CONSTANTS';
+import { PrismaService } from '../src/common/services/prisma.service';
+import { ListExtractionLogsResponse } from '../src/modules/extraction/dto';
+import { InMemoryPrismaService } from './support/in-memory-prisma';
+import { InMemoryQueue } from './support/in-memory-queue';
+
+// Two pages, three numbered questions with "Answer: X" lines
+const FIXTURE_PDF = 'sample-questions.pdf';
+
+/**
+ * Runs a PDF through the real extraction pipeline with Mongo and Redis replaced by
+ * in-memory stand-ins and the model by recorded Ollama exchanges. To re-record after a
+ * prompt change, run against a live Ollama:
+ *   LLM_PROVIDER=ollama LLM_RECORD=true pnpm run test:e2e
+ */
+describe('Extraction (e2e)', () => {
+  let app: INestApplication<App>;
+  let prisma: InMemoryPrismaService;
+  let queue: InMemoryQueue;
+  let workDir: string;
+  let orphanedRun: { id: string };
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'extraction-e2e-'));
+    const dataDir = path.join(workDir, 'data');
+    await fs.copy(
+      path.join(__dirname, 'fixtures', FIXTURE_PDF),
+      path.join(dataDir, FIXTURE_PDF),
+    );
+
+    process.env.DATA_DIR = dataDir;
+    process.env.TEMP_DIR = path.join(workDir, 'temp');
+    process.env.OCR_ENABLED = 'false';
+    process.env.LLM_CACHE_ENABLED = 'false';
+    process.env.LLM_PROVIDER ??= LlmProviderName.REPLAY;
+    process.env.LLM_FIXTURES_DIR ??= path.join(__dirname, 'fixtures', 'llm');
+
+    prisma = new InMemoryPrismaService();
+    queue = new InMemoryQueue('extraction');
+
+    // Left mid-run by a previous process, with nothing in the queue
+    orphanedRun = await (
+      prisma as unknown as PrismaService
+    ).extractionRun.create({
+      data: { filename: 'orphaned.pdf', status: 'PROCESSING' },
+    });
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(PrismaService)
+      .useValue(prisma)
+      .overrideProvider(getQueueToken('extraction'))
+      .useValue(queue)
+      .compile();
+
+    app = moduleRef.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    await fs.remove(workDir);
+  });
+
+  it('catalogues a PDF copied into the data directory', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/extraction/pdfs')
+      .expect(200);
+
+    expect(response.body).toEqual([
+      expect.objectContaining({ filename: FIXTURE_PDF, totalPages: 2 }),
+    ]);
+  });
+
+  it('is ready with the recorded model standing in for Ollama', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/ready')
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      status: 'ok',
+      dependencies: {
+        mongodb: { status: 'up', critical: true },
+        redis: { status: 'up', critical: true },
+        ollama: { status: 'skipped', critical: false },
+        dataDir: { status: 'up' },
+        tempDir: { status: 'up' },
+      },
+    });
+    expect(response.body.dependencies.mongodb.latencyMs).toEqual(
+      expect.any(Number),
+    );
+  });
+
+  it('marks a run with no queued job as interrupted on startup', async () => {
+    const run = await request(app.getHttpServer())
+      .get(`/extraction/runs/${orphanedRun.id}`)
+      .expect(200);
+
+    expect(run.body).toMatchObject({
+      status: 'INTERRUPTED',
+      error: 'Interrupted by a restart',
+    });
+  });
+
+  describe('an extraction run', () => {
+    let runId: string;
+    let questionId: string;
+
+    beforeAll(async () => {
+      const response = await request(app.getHttpServer())
+        .post('/extraction/start')
+        .send({ filename: FIXTURE_PDF })
+        .expect(201);
+      runId = response.body.runId;
+
+      await queue.whenIdle();
+    });
+
+    it('completes every page', async () => {
+      const run = await request(app.getHttpServer())
+        .get(`/extraction/runs/${runId}`)
+        .expect(200);
+
+      expect(run.body).toMatchObject({
+        status: 'COMPLETED',
+        processedPages: 2,
+        lastProcessedPage: 2,
+        progress: 100,
+        extractedQuestions: 3,
+        failedPages: [],
+      });
+
+      const pages = await request(app.getHttpServer())
+        .get(`/extraction/runs/${runId}/pages`)
+        .expect(200);
+
+      expect(pages.body).toEqual([
+        expect.objectContaining({ pageNumber: 1, status: 'SUCCEEDED' }),
+        expect.objectContaining({ pageNumber: 2, status: 'SUCCEEDED' }),
+      ]);
+    });
+
+    it('logs what happened to each page', async () => {
+      const staged = await request(app.getHttpServer())
+        .get(`/extraction/runs/${runId}/logs`)
+        .query({ event: 'question.staged', fromPage: 2, toPage: 2 })
+        .expect(200);
+      expect(staged.body.data).toEqual([
+        expect.objectContaining({
+          level: 'INFO',
+          pageNumber: 2,
+          payload: { candidateId: expect.any(String) },
+        }),
+      ]);
+
+      // Walk the whole log two entries at a time
+      const messages: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await request(app.getHttpServer())
+          .get(`/extraction/runs/${runId}/logs`)
+          .query(cursor ? { limit: 2, cursor } : { limit: 2 })
+          .expect(200);
+        const { data, nextCursor } = page.body as ListExtractionLogsResponse;
+        messages.push(...data.map((entry) => entry.message));
+        cursor = nextCursor;
+      } while (cursor);
+
+      expect(messages[0]).toBe(`Queued extraction for ${FIXTURE_PDF}`);
+      expect(messages[messages.length - 1]).toMatch(/^Extraction completed/);
+    });
+
+    it('only pauses runs that are still in progress', async () => {
+      await request(app.getHttpServer())
+        .post(`/extraction/runs/${runId}/pause`)
+        .expect(400);
+      await request(app.getHttpServer())
+        .post(`/extraction/runs/${runId}/resume`)
+        .expect(400);
+    });
+
+    it('stages the questions for review with their answers', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/extraction/candidates')
+        .query({ runId })
+        .expect(200);
+
+      const candidates = [...response.body.data].sort(
+        (a, b) =>
+          a.pageNumber - b.pageNumber ||
+          a.correctAnswer.localeCompare(b.correctAnswer),
+      );
+      expect(candidates).toEqual([
+        expect.objectContaining({
+          status: 'PENDING',
+          pageNumber: 1,
+          correctAnswer: 'A',
+          year: 2023,
+          intake: 'september',
+          sourceFile: FIXTURE_PDF,
+        }),
+        expect.objectContaining({ pageNumber: 1, correctAnswer: 'B' }),
+        expect.objectContaining({ pageNumber: 2, correctAnswer: 'C' }),
+      ]);
+      expect(candidates[0].question).toContain('midline neck swelling');
+      expect(candidates[0].options.A).toBe('Thyroglossal duct cyst');
+      expect(candidates[0].promptVersions).toEqual(['extraction@v1']);
+    });
+
+    it('adds an accepted candidate to the question bank', async () => {
+      const candidates = await request(app.getHttpServer())
+        .get('/extraction/candidates')
+        .query({ runId, pageNumber: 2 })
+        .expect(200);
+
+      const accepted = await request(app.getHttpServer())
+        .post(`/extraction/candidates/${candidates.body.data[0].id}/accept`)
+        .expect(201);
+      expect(accepted.body.status).toBe('ACCEPTED');
+
+      const question = await request(app.getHttpServer())
+        .get(`/questions/${accepted.body.questionId}`)
+        .expect(200);
+      expect(question.body.correctAnswer).toBe('C');
+      expect(question.body.options.C).toBe('Recurrent laryngeal nerve');
+      questionId = question.body.id;
+    });
+
+    it('explains an accepted question with the recorded model', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/ai-explanation/questions/${questionId}/test`)
+        .expect(201);
+
+      expect(response.body.promptVersion).toBe('explanation@v1');
+      expect(response.body.explanation).toContain('recurrent laryngeal nerve');
+    });
+  });
+});
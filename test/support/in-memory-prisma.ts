@@ -0,0 +1,711 @@
+import { Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+
+type Row = Record<string, any>;
+type Field = Prisma.DMMF.Field;
+type Model = Prisma.DMMF.Model;
+
+type SortOrder = 'asc' | 'desc';
+type OrderBy = Record<string, SortOrder | { sort: SortOrder }>;
+type Selection = Record<string, boolean | RelationArgs | undefined>;
+
+// The subset of Prisma's query arguments the delegates understand
+interface RelationArgs {
+  where?: Row;
+  orderBy?: OrderBy | OrderBy[];
+  select?: Selection;
+  include?: Selection;
+}
+
+interface FindManyArgs extends RelationArgs {
+  distinct?: string[];
+  skip?: number;
+  take?: number;
+}
+
+interface GroupByArgs {
+  by: string | string[];
+  where?: Row;
+  _count?: true | Record<string, true>;
+  _sum?: Record<string, true>;
+  orderBy?: OrderBy | OrderBy[];
+}
+
+/**
+ * Mongo stand-in for e2e tests: an in-memory implementation of the Prisma model
+ * delegates the services use. Defaults, unique constraints, composite types and
+ * relations come from the generated client's datamodel, so it follows schema changes.
+ * Unsupported query shapes throw rather than silently match nothing.
+ */
+export class InMemoryPrismaService {
+  private readonly collections = new Map<string, Row[]>();
+
+  constructor() {
+    for (const model of Prisma.dmmf.datamodel.models) {
+      const delegate = new InMemoryDelegate(model, this);
+      Object.defineProperty(this, lowerFirst(model.name), { value: delegate });
+    }
+  }
+
+  rows(modelName: string): Row[] {
+    let rows = this.collections.get(modelName);
+    if (!rows) {
+      rows = [];
+      this.collections.set(modelName, rows);
+    }
+    return rows;
+  }
+
+  // Drop every document, e.g. between tests
+  reset(): void {
+    this.collections.clear();
+  }
+
+  $connect(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  $disconnect(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  // Index management and other raw commands have nothing to do in memory
+  $runCommandRaw(): Promise<Row> {
+    return Promise.resolve({ ok: 1 });
+  }
+
+  healthCheck(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+}
+
+class InMemoryDelegate {
+  private readonly fields: Map<string, Field>;
+
+  constructor(
+    private readonly model: Model,
+    private readonly db: InMemoryPrismaService,
+  ) {
+    this.fields = new Map(model.fields.map((field) => [field.name, field]));
+  }
+
+  findUnique(args: RelationArgs & { where: Row }) {
+    return this.resolve(() => {
+      const row = this.filter(args.where)[0];
+      return row ? this.project(row, args) : null;
+    });
+  }
+
+  findUniqueOrThrow(args: RelationArgs & { where: Row }) {
+    return this.resolve(() => this.project(this.findOrThrow(args.where), args));
+  }
+
+  findFirst(args: FindManyArgs = {}) {
+    return this.resolve(() => {
+      const row = this.query(args)[0];
+      return row ? this.project(row, args) : null;
+    });
+  }
+
+  findMany(args: FindManyArgs = {}) {
+    return this.resolve(() =>
+      this.query(args).map((row) => this.project(row, args)),
+    );
+  }
+
+  count(args: FindManyArgs = {}) {
+    return this.resolve(() => this.query(args).length);
+  }
+
+  create(args: RelationArgs & { data: Row }) {
+    return this.resolve(() => this.project(this.insert(args.data), args));
+  }
+
+  createMany(args: { data: Row[] }) {
+    return this.resolve(() => {
+      args.data.forEach((data) => this.insert(data));
+      return { count: args.data.length };
+    });
+  }
+
+  update(args: RelationArgs & { where: Row; data: Row }) {
+    return this.resolve(() => {
+      const row = this.findOrThrow(args.where);
+      this.applyUpdate(row, args.data);
+      return this.project(row, args);
+    });
+  }
+
+  updateMany(args: { where?: Row; data: Row }) {
+    return this.resolve(() => {
+      const rows = this.filter(args.where);
+      rows.forEach((row) => this.applyUpdate(row, args.data));
+      return { count: rows.length };
+    });
+  }
+
+  upsert(args: RelationArgs & { where: Row; create: Row; update: Row }) {
+    return this.resolve(() => {
+      const existing = this.filter(args.where)[0];
+      if (existing) {
+        this.applyUpdate(existing, args.update);
+        return this.project(existing, args);
+      }
+      return this.project(this.insert(args.create), args);
+    });
+  }
+
+  delete(args: RelationArgs & { where: Row }) {
+    return this.resolve(() => {
+      const row = this.findOrThrow(args.where);
+      this.remove([row]);
+      return this.project(row, args);
+    });
+  }
+
+  deleteMany(args: { where?: Row } = {}) {
+    return this.resolve(() => {
+      const rows = this.filter(args.where);
+      this.remove(rows);
+      return { count: rows.length };
+    });
+  }
+
+  groupBy(args: GroupByArgs) {
+    return this.resolve(() => {
+      const by = toArray(args.by);
+      const groups = new Map<string, Row[]>();
+      for (const row of this.filter(args.where)) {
+        const key = JSON.stringify(by.map((field) => row[field]));
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+      }
+
+      const results = [...groups.values()].map((rows) => {
+        const result: Row = {};
+        by.forEach((field) => (result[field] = rows[0][field]));
+        if (args._count === true) {
+          result._count = rows.length;
+        } else if (args._count) {
+          result._count = Object.fromEntries(
+            Object.keys(args._count).map((field) => [
+              field,
+              field === '_all'
+                ? rows.length
+                : rows.filter((row) => row[field] !== null).length,
+            ]),
+          );
+        }
+        if (args._sum) {
+          result._sum = Object.fromEntries(
+            Object.keys(args._sum).map((field) => [
+              field,
+              rows.reduce((sum, row) => sum + (row[field] ?? 0), 0),
+            ]),
+          );
+        }
+        return result;
+      });
+
+      return args.orderBy ? sortRows(results, args.orderBy) : results;
+    });
+  }
+
+  // Prisma returns promises; results are copies so callers cannot edit the store
+  private resolve<T>(run: () => T): Promise<T> {
+    try {
+      return Promise.resolve(clone(run()));
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+
+  private get rows(): Row[] {
+    return this.db.rows(this.model.name);
+  }
+
+  private query(args: FindManyArgs): Row[] {
+    let rows = this.filter(args.where);
+    if (args.orderBy) {
+      rows = sortRows(rows, args.orderBy);
+    }
+    if (args.distinct) {
+      const seen = new Set<string>();
+      rows = rows.filter((row) => {
+        const key = JSON.stringify(args.distinct!.map((field) => row[field]));
+        return seen.has(key) ? false : (seen.add(key), true);
+      });
+    }
+    const skip = args.skip ?? 0;
+    return rows.slice(
+      skip,
+      args.take !== undefined ? skip + args.take : undefined,
+    );
+  }
+
+  private filter(where?: Row): Row[] {
+    if (!where) {
+      return [...this.rows];
+    }
+    const expanded = this.expandCompoundKeys(where);
+    return this.rows.filter((row) =>
+      matchesWhere(row, expanded, this.fields, this.model.name),
+    );
+  }
+
+  private findOrThrow(where: Row): Row {
+    const row = this.filter(where)[0];
+    if (!row) {
+      throw new Prisma.PrismaClientKnownRequestError(
+        `No ${this.model.name} found for ${JSON.stringify(where)}`,
+        { code: 'P2025', clientVersion: Prisma.prismaVersion.client },
+      );
+    }
+    return row;
+  }
+
+  // { runId_pageNumber: { runId, pageNumber } } -> { runId, pageNumber }
+  private expandCompoundKeys(where: Row): Row {
+    const expanded: Row = {};
+    for (const [key, value] of Object.entries(where)) {
+      const index = this.model.uniqueIndexes.find(
+        (unique) => (unique.name ?? unique.fields.join('_')) === key,
+      );
+      if (index && !this.fields.has(key)) {
+        Object.assign(expanded, value);
+      } else {
+        expanded[key] = value;
+      }
+    }
+    return expanded;
+  }
+
+  private insert(data: Row): Row {
+    const row = withDefaults(data, this.model.fields);
+    this.assertUnique(row);
+    this.rows.push(row);
+    return row;
+  }
+
+  private applyUpdate(row: Row, data: Row): void {
+    const updated = { ...row };
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined) {
+        continue;
+      }
+      updated[key] = applyOperation(updated[key], value);
+    }
+    for (const field of this.model.fields) {
+      if (field.isUpdatedAt) {
+        updated[field.name] = new Date();
+      }
+    }
+    this.assertUnique(updated, row);
+    Object.assign(row, updated);
+  }
+
+  private assertUnique(candidate: Row, self?: Row): void {
+    const constraints = [
+      ...this.model.fields
+        .filter((field) => field.isUnique || field.isId)
+        .map((field) => [field.name]),
+      ...this.model.uniqueIndexes.map((unique) => unique.fields),
+    ];
+    for (const fields of constraints) {
+      const clash = this.rows.find(
+        (row) =>
+          row !== self &&
+          fields.every(
+            (field) =>
+              candidate[field] !== null &&
+              isEqual(row[field], candidate[field]),
+          ),
+      );
+      if (clash) {
+        throw new Prisma.PrismaClientKnownRequestError(
+          `Unique constraint failed on ${this.model.name}(${fields.join(', ')})`,
+          { code: 'P2002', clientVersion: Prisma.prismaVersion.client },
+        );
+      }
+    }
+  }
+
+  private remove(rows: Row[]): void {
+    const removed = new Set(rows);
+    const remaining = this.rows.filter((row) => !removed.has(row));
+    this.rows.splice(0, this.rows.length, ...remaining);
+  }
+
+  private project(row: Row, args: RelationArgs): Row {
+    if (args.select) {
+      const selected: Row = {};
+      for (const [key, value] of Object.entries(args.select)) {
+        if (!value) {
+          continue;
+        }
+        const field = this.fields.get(key);
+        selected[key] =
+          field?.kind === 'object' && field.relationName
+            ? this.loadRelation(row, field, value)
+            : row[key];
+      }
+      return selected;
+    }
+
+    const result = { ...row };
+    for (const [key, value] of Object.entries(args.include ?? {})) {
+      const field = this.fields.get(key);
+      if (value && field) {
+        result[key] = this.loadRelation(row, field, value);
+      }
+    }
+    return result;
+  }
+
+  private loadRelation(
+    row: Row,
+    field: Field,
+    args: RelationArgs | true,
+  ): Row | Row[] | null {
+    const target = this.db[lowerFirst(field.type)] as InMemoryDelegate;
+    const nested = args === true ? {} : args;
+
+    let related: Row[];
+    if (field.relationFromFields?.length) {
+      // This model holds the foreign key
+      related = target.rows.filter((candidate) =>
+        field.relationFromFields!.every((from, index) =>
+          isEqual(candidate[field.relationToFields![index]], row[from]),
+        ),
+      );
+    } else {
+      const inverse = target.model.fields.find(
+        (candidate) =>
+          candidate.relationName === field.relationName && candidate !== field,
+      );
+      if (!inverse?.relationFromFields?.length) {
+        throw new Error(
+          `In-memory Prisma cannot load ${this.model.name}.${field.name}`,
+        );
+      }
+      related = target.rows.filter((candidate) =>
+        inverse.relationFromFields!.every((from, index) =>
+          isEqual(candidate[from], row[inverse.relationToFields![index]]),
+        ),
+      );
+    }
+
+    const where = nested.where;
+    if (where) {
+      related = related.filter((candidate) =>
+        matchesWhere(candidate, where, target.fields, field.type),
+      );
+    }
+    if (nested.orderBy) {
+      related = sortRows(related, nested.orderBy);
+    }
+    const projected = related.map((candidate) =>
+      target.project(candidate, nested),
+    );
+    return field.isList ? projected : (projected[0] ?? null);
+  }
+}
+
+function withDefaults(data: Row, fields: readonly Field[]): Row {
+  const row: Row = {};
+  for (const field of fields) {
+    if (field.kind === 'object' && field.relationName) {
+      continue;
+    }
+
+    const value = data[field.name];
+    if (value !== undefined) {
+      const composite = compositeFields(field);
+      row[field.name] =
+        composite && value !== null
+          ? field.isList
+            ? (value as Row[]).map((item) => withDefaults(item, composite))
+            : withDefaults(value as Row, composite)
+          : value;
+    } else if (field.isUpdatedAt) {
+      row[field.name] = new Date();
+    } else if (field.hasDefaultValue) {
+      row[field.name] = defaultValue(field);
+    } else {
+      row[field.name] = field.isList ? [] : null;
+    }
+  }
+
+  const unknown = Object.keys(data).filter(
+    (key) => data[key] !== undefined && !fields.some((f) => f.name === key),
+  );
+  if (unknown.length > 0) {
+    throw new Error(`In-memory Prisma: unknown fields ${unknown.join(', ')}`);
+  }
+  return row;
+}
+
+// Laid out like a Mongo ObjectId, so ids sort in insertion order as they do in Mongo
+const processId = randomBytes(5).toString('hex');
+let idCounter = 0;
+
+function objectId(): string {
+  const seconds = Math.floor(Date.now() / 1000);
+  idCounter = (idCounter + 1) % 0x1000000;
+  return (
+    seconds.toString(16).padStart(8, '0') +
+    processId +
+    idCounter.toString(16).padStart(6, '0')
+  );
+}
+
+function defaultValue(field: Field): unknown {
+  const value = field.default as any;
+  if (value && typeof value === 'object' && 'name' in value) {
+    switch (value.name) {
+      case 'auto':
+        return objectId();
+      case 'now':
+        return new Date();
+      default:
+        throw new Error(`In-memory Prisma: unsupported default ${value.name}`);
+    }
+  }
+  return Array.isArray(value) ? [...value] : value;
+}
+
+function compositeFields(field: Field): readonly Field[] | undefined {
+  return field.kind === 'object'
+    ? Prisma.dmmf.datamodel.types.find((type) => type.name === field.type)
+        ?.fields
+    : undefined;
+}
+
+function applyOperation(current: unknown, value: unknown): unknown {
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const operations = Object.keys(value);
+  const [operation] = operations;
+  if (operations.length !== 1) {
+    return value;
+  }
+  const operand = value[operation];
+  switch (operation) {
+    case 'set':
+      return operand;
+    case 'increment':
+      return ((current as number) ?? 0) + operand;
+    case 'decrement':
+      return ((current as number) ?? 0) - operand;
+    case 'multiply':
+      return ((current as number) ?? 0) * operand;
+    case 'push':
+      return [
+        ...((current as unknown[]) ?? []),
+        ...(Array.isArray(operand) ? operand : [operand]),
+      ];
+    case 'unset':
+      return operand ? null : current;
+    default:
+      // A Json or composite value that happens to have one key
+      return value;
+  }
+}
+
+function matchesWhere(
+  row: Row,
+  where: Row,
+  fields: Map<string, Field>,
+  modelName: string,
+): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) {
+      return true;
+    }
+    switch (key) {
+      case 'AND':
+        return toArray(condition as Row | Row[]).every((part) =>
+          matchesWhere(row, part, fields, modelName),
+        );
+      case 'OR':
+        return toArray(condition as Row | Row[]).some((part) =>
+          matchesWhere(row, part, fields, modelName),
+        );
+      case 'NOT':
+        return !toArray(condition as Row | Row[]).some((part) =>
+          matchesWhere(row, part, fields, modelName),
+        );
+    }
+
+    const field = fields.get(key);
+    if (!field) {
+      throw new Error(`In-memory Prisma: unknown field ${modelName}.${key}`);
+    }
+    if (field.kind === 'object' && field.relationName) {
+      throw new Error(
+        `In-memory Prisma: relation filters on ${modelName}.${key} are not supported`,
+      );
+    }
+    return matchesCondition(row[key], condition, field);
+  });
+}
+
+function matchesCondition(
+  value: any,
+  condition: unknown,
+  field: Field,
+): boolean {
+  const composite = compositeFields(field);
+  if (!isPlainObject(condition) || condition instanceof Date) {
+    return isEqual(value, condition);
+  }
+  const operators: Row =
+    composite && !field.isList && !('is' in condition)
+      ? { is: condition }
+      : condition;
+
+  const insensitive = operators.mode === 'insensitive';
+  const text = (input: unknown) =>
+    insensitive ? String(input).toLowerCase() : String(input);
+
+  return Object.entries(operators).every(
+    ([operator, operand]: [string, any]) => {
+      if (operand === undefined) {
+        return true;
+      }
+      switch (operator) {
+        case 'mode':
+          return true;
+        case 'equals':
+          return insensitive && typeof value === 'string'
+            ? text(value) === text(operand)
+            : isEqual(value, operand);
+        case 'not':
+          return isPlainObject(operand) && !(operand instanceof Date)
+            ? !matchesCondition(value, operand, field)
+            : !isEqual(value, operand);
+        case 'in':
+          return (operand as unknown[]).some((item) => isEqual(value, item));
+        case 'notIn':
+          return !(operand as unknown[]).some((item) => isEqual(value, item));
+        case 'lt':
+          return value !== null && value < operand;
+        case 'lte':
+          return value !== null && value <= operand;
+        case 'gt':
+          return value !== null && value > operand;
+        case 'gte':
+          return value !== null && value >= operand;
+        case 'contains':
+          return value !== null && text(value).includes(text(operand));
+        case 'startsWith':
+          return value !== null && text(value).startsWith(text(operand));
+        case 'endsWith':
+          return value !== null && text(value).endsWith(text(operand));
+        case 'has':
+          return ((value as unknown[]) ?? []).some((item) =>
+            isEqual(item, operand),
+          );
+        case 'hasSome':
+          return (operand as unknown[]).some((wanted) =>
+            ((value as unknown[]) ?? []).some((item) => isEqual(item, wanted)),
+          );
+        case 'hasEvery':
+          return (operand as unknown[]).every((wanted) =>
+            ((value as unknown[]) ?? []).some((item) => isEqual(item, wanted)),
+          );
+        case 'isEmpty':
+          return (((value as unknown[]) ?? []).length === 0) === operand;
+        case 'isSet':
+          return (value !== null && value !== undefined) === operand;
+        case 'is':
+          return operand === null
+            ? value === null
+            : value !== null &&
+                matchesWhere(
+                  value as Row,
+                  operand as Row,
+                  new Map(composite!.map((child) => [child.name, child])),
+                  field.type,
+                );
+        case 'isNot':
+          return !matchesCondition(value, { is: operand }, field);
+        default:
+          throw new Error(
+            `In-memory Prisma: unsupported filter ${operator} on ${field.name}`,
+          );
+      }
+    },
+  );
+}
+
+function sortRows(rows: Row[], orderBy: Row | Row[]): Row[] {
+  const orders = toArray(orderBy).flatMap((order) => Object.entries(order));
+  return [...rows].sort((a, b) => {
+    for (const [field, direction] of orders) {
+      const sort: string =
+        typeof direction === 'string' ? direction : direction.sort;
+      const compared = compare(a[field], b[field]);
+      if (compared !== 0) {
+        return sort === 'desc' ? -compared : compared;
+      }
+    }
+    return 0;
+  });
+}
+
+function compare(a: any, b: any): number {
+  if (a === b) {
+    return 0;
+  }
+  // Mongo sorts null before any value
+  if (a === null || a === undefined) {
+    return -1;
+  }
+  if (b === null || b === undefined) {
+    return 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// structuredClone would create Dates from Node's realm rather than the test's,
+// which fails instanceof checks such as nestia's response validation
+function clone<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => clone(item as unknown)) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, clone(item)]),
+    ) as T;
+  }
+  return value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (
+    (a !== null && typeof a === 'object') ||
+    (b !== null && typeof b === 'object')
+  ) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+function isPlainObject(value: unknown): value is Row {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
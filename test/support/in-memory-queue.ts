@@ -0,0 +1,192 @@
+import { EventEmitter } from 'events';
+
+type Handler = (job: InMemoryJob) => Promise<unknown>;
+
+export interface InMemoryJob {
+  id: string;
+  name: string;
+  data: any;
+  opts: Record<string, unknown>;
+  attemptsMade: number;
+  returnvalue?: unknown;
+  failedReason?: string;
+  progress(value?: number): number;
+  remove(): Promise<void>;
+}
+
+/**
+ * Redis stand-in for e2e tests: a Bull queue that runs jobs in process, one at a time.
+ * Only the parts of the Bull API the app and @nestjs/bull use are implemented; delayed
+ * jobs, and failed jobs with attempts left, run straight away instead of after their
+ * delay or backoff.
+ */
+export class InMemoryQueue extends EventEmitter {
+  private readonly handlers = new Map<string, Handler>();
+  private readonly waiting: InMemoryJob[] = [];
+  private readonly completed: InMemoryJob[] = [];
+  private readonly failed: InMemoryJob[] = [];
+  private active: InMemoryJob | null = null;
+  private draining: Promise<void> = Promise.resolve();
+  private nextId = 1;
+
+  // The Redis connection, as far as health checks use it
+  readonly client = { ping: () => Promise.resolve('PONG') };
+
+  constructor(readonly name: string) {
+    super();
+  }
+
+  // @nestjs/bull registers each @Process() handler as process(name, concurrency, handler);
+  // like Bull, a handler named '*' takes jobs no other handler is named for
+  process(...args: unknown[]): void {
+    const handler = args[args.length - 1] as Handler;
+    const name = typeof args[0] === 'string' ? args[0] : '__default__';
+    this.handlers.set(name, handler);
+  }
+
+  add(...args: unknown[]): Promise<InMemoryJob> {
+    const [name, data, opts] =
+      typeof args[0] === 'string'
+        ? [args[0], args[1], args[2]]
+        : ['__default__', args[0], args[1]];
+
+    return Promise.resolve(
+      this.enqueue(name, data, opts as Record<string, unknown>),
+    );
+  }
+
+  addBulk(
+    jobs: { name?: string; data: unknown; opts?: Record<string, unknown> }[],
+  ): Promise<InMemoryJob[]> {
+    return Promise.resolve(
+      jobs.map((job) =>
+        this.enqueue(job.name ?? '__default__', job.data, job.opts),
+      ),
+    );
+  }
+
+  /**
+   * Resolve once every job added so far, and any job those jobs added, has finished
+   */
+  async whenIdle(): Promise<void> {
+    let draining: Promise<void>;
+    do {
+      draining = this.draining;
+      await draining;
+    } while (draining !== this.draining);
+  }
+
+  getJob(id: string): Promise<InMemoryJob | null> {
+    const all = [
+      ...this.waiting,
+      ...(this.active ? [this.active] : []),
+      ...this.completed,
+      ...this.failed,
+    ];
+    return Promise.resolve(all.find((job) => job.id === id) ?? null);
+  }
+
+  getWaiting(): Promise<InMemoryJob[]> {
+    return Promise.resolve([...this.waiting]);
+  }
+
+  getDelayed(): Promise<InMemoryJob[]> {
+    return Promise.resolve([]);
+  }
+
+  getJobs(types: string[]): Promise<InMemoryJob[]> {
+    return Promise.resolve([
+      ...(types.includes('waiting') ? this.waiting : []),
+      ...(types.includes('active') && this.active ? [this.active] : []),
+      ...(types.includes('completed') ? this.completed : []),
+      ...(types.includes('failed') ? this.failed : []),
+    ]);
+  }
+
+  getJobCounts(): Promise<Record<string, number>> {
+    return Promise.resolve({
+      waiting: this.waiting.length,
+      active: this.active ? 1 : 0,
+      completed: this.completed.length,
+      failed: this.failed.length,
+      delayed: 0,
+    });
+  }
+
+  getActive(): Promise<InMemoryJob[]> {
+    return Promise.resolve(this.active ? [this.active] : []);
+  }
+
+  getCompleted(): Promise<InMemoryJob[]> {
+    return Promise.resolve([...this.completed]);
+  }
+
+  getFailed(): Promise<InMemoryJob[]> {
+    return Promise.resolve([...this.failed]);
+  }
+
+  close(): Promise<void> {
+    this.waiting.length = 0;
+    return this.whenIdle();
+  }
+
+  private enqueue(
+    name: string,
+    data: unknown,
+    opts: Record<string, unknown> = {},
+  ): InMemoryJob {
+    let progress = 0;
+    const job: InMemoryJob = {
+      id: String(this.nextId++),
+      name,
+      data,
+      opts,
+      attemptsMade: 0,
+      progress: (value?: number) => (progress = value ?? progress),
+      remove: () => {
+        const index = this.waiting.indexOf(job);
+        if (index >= 0) {
+          this.waiting.splice(index, 1);
+        }
+        return Promise.resolve();
+      },
+    };
+    this.waiting.push(job);
+    this.draining = this.draining.then(() => this.drain());
+    return job;
+  }
+
+  private async drain(): Promise<void> {
+    while (this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      const handler =
+        this.handlers.get(job.name) ??
+        this.handlers.get('*') ??
+        this.handlers.get('__default__');
+      if (!handler) {
+        throw new Error(`No processor for job ${job.name} on ${this.name}`);
+      }
+
+      this.active = job;
+      this.emit('active', job);
+      try {
+        job.returnvalue = await handler(job);
+        this.completed.push(job);
+        this.emit('completed', job, job.returnvalue);
+      } catch (error) {
+        // Like Bull, attemptsMade counts the attempts that failed
+        job.attemptsMade++;
+        job.failedReason =
+          error instanceof Error ? error.message : String(error);
+        if (job.attemptsMade < Number(job.opts.attempts ?? 1)) {
+          this.waiting.push(job);
+        } else {
+          this.failed.push(job);
+          this.emit('failed', job, error);
+        }
+      } finally {
+        this.active = null;
+      }
+    }
+  }
+}